@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { hasChanges, planAttributeChanges } from './attributes.js';
+import type { TriliumAttribute, TriliumNote } from './client.js';
+
+function label(attributeId: string, name: string, value: string, position = 0, isInheritable = false): TriliumAttribute {
+  return { attributeId, noteId: 'n', type: 'label', name, value, position, isInheritable };
+}
+
+const note: TriliumNote = {
+  noteId: 'n',
+  title: 'Note',
+  attributes: [
+    label('a1', 'status', 'draft', 10),
+    label('a2', 'tag', 'js', 20, true),
+    label('a3', 'tag', 'web', 30),
+    // Inherited from a parent: never changed
+    { attributeId: 'p1', noteId: 'parent', type: 'label', name: 'tag', value: 'inherited', position: 0, isInheritable: true },
+  ],
+};
+
+describe('planAttributeChanges', () => {
+  it('should update the first attribute or create a missing one', () => {
+    const diff = planAttributeChanges(note, [
+      { op: 'set', type: 'label', name: 'status', value: 'done' },
+      { op: 'set', type: 'relation', name: 'author', value: 'jane' },
+    ]);
+
+    expect(diff.update).toEqual([{ type: 'label', name: 'status', value: 'done', attributeId: 'a1' }]);
+    expect(diff.create).toEqual([{ type: 'relation', name: 'author', value: 'jane' }]);
+    expect(diff.delete).toEqual([]);
+  });
+
+  it('should add values only once', () => {
+    const diff = planAttributeChanges(note, [
+      { op: 'add', type: 'label', name: 'tag', value: 'js' },
+      { op: 'add', type: 'label', name: 'tag', value: 'ts', isInheritable: true },
+      { op: 'add', type: 'label', name: 'tag', value: 'ts' },
+    ]);
+
+    expect(diff.create).toEqual([{ type: 'label', name: 'tag', value: 'ts', isInheritable: true }]);
+    expect(diff.update).toEqual([]);
+  });
+
+  it('should remove the first, matching or all attributes', () => {
+    const remove = (change: { value?: string; all?: boolean }) =>
+      planAttributeChanges(note, [{ op: 'remove', type: 'label', name: 'tag', ...change }]).delete.map((attr) => attr.attributeId);
+
+    expect(remove({})).toEqual(['a2']);
+    expect(remove({ value: 'web' })).toEqual(['a3']);
+    expect(remove({ all: true })).toEqual(['a2', 'a3']);
+    expect(remove({ value: 'inherited' })).toEqual([]);
+  });
+
+  it('should rename by replacing attributes, keeping values and inheritability', () => {
+    const diff = planAttributeChanges(note, [{ op: 'rename', type: 'label', name: 'tag', to: 'topic' }]);
+
+    expect(diff.create).toEqual([
+      { type: 'label', name: 'topic', value: 'js', isInheritable: true },
+      { type: 'label', name: 'topic', value: 'web' },
+    ]);
+    expect(diff.delete.map((attr) => attr.attributeId)).toEqual(['a2', 'a3']);
+  });
+
+  it('should apply changes in order and drop attributes created then removed', () => {
+    const diff = planAttributeChanges(note, [
+      { op: 'add', type: 'label', name: 'tag', value: 'tmp' },
+      { op: 'remove', type: 'label', name: 'tag', value: 'tmp' },
+      { op: 'set', type: 'label', name: 'status', value: 'draft' },
+    ]);
+
+    expect(hasChanges(diff)).toBe(false);
+  });
+});
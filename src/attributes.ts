@@ -0,0 +1,143 @@
+/**
+ * Attribute Changes
+ *
+ * Describes edits to a note's labels and relations (set, add, remove, rename)
+ * and plans them against the note's own attributes as a NoteDiff, which the
+ * client applies with the fewest requests.
+ */
+
+import type { TriliumNote } from './client.js';
+import { ownedAttributes } from './inheritance.js';
+import type { MappedAttribute, NoteDiff } from './mapper.js';
+
+/** A change to a note's labels or relations */
+export type AttributeChange =
+  /** Sets the value of the first attribute with the name, creating it if missing */
+  | { op: 'set'; type: 'label' | 'relation'; name: string; value: string; isInheritable?: boolean }
+  /** Adds an attribute, unless one with the same name and value exists */
+  | { op: 'add'; type: 'label' | 'relation'; name: string; value: string; isInheritable?: boolean }
+  /** Removes the first attribute with the name (and value, if given), or all of them with `all` */
+  | { op: 'remove'; type: 'label' | 'relation'; name: string; value?: string; all?: boolean }
+  /** Renames every attribute with the name, keeping values */
+  | { op: 'rename'; type: 'label' | 'relation'; name: string; to: string };
+
+/** Options for setting or adding an attribute */
+export interface SetAttributeOptions {
+  /** Optional: make a created attribute inheritable by child notes */
+  isInheritable?: boolean;
+}
+
+/** Options for removing attributes */
+export interface RemoveAttributeOptions {
+  /** Optional: remove every attribute with the name instead of the first */
+  all?: boolean;
+  /** Optional: only remove attributes with this value */
+  value?: string;
+}
+
+/** An attribute while changes are planned */
+interface PlannedAttribute extends MappedAttribute {
+  attributeId?: string;
+  /** The value before the changes, for existing attributes */
+  original?: string | undefined;
+}
+
+/**
+ * Plans changes against the attributes a note owns. Changes apply in order, so
+ * a later change sees the result of earlier ones. Inherited attributes are
+ * neither changed nor removed.
+ *
+ * @param note - The note, with its attributes
+ * @param changes - The changes to make
+ * @returns The attributes to create, update and delete (empty lists if nothing changes)
+ *
+ * @example
+ * planAttributeChanges(note, [
+ *   { op: 'rename', type: 'label', name: 'tag', to: 'topic' },
+ *   { op: 'set', type: 'label', name: 'status', value: 'done' },
+ * ]);
+ */
+export function planAttributeChanges(note: TriliumNote, changes: AttributeChange[]): NoteDiff {
+  let attributes: PlannedAttribute[] = ownedAttributes(note).flatMap((attr) =>
+    (attr.type === 'label' || attr.type === 'relation') && attr.name
+      ? [{
+          type: attr.type,
+          name: attr.name,
+          value: attr.value ?? '',
+          original: attr.value ?? '',
+          ...(attr.attributeId ? { attributeId: attr.attributeId } : {}),
+          ...(attr.isInheritable ? { isInheritable: true } : {}),
+        }]
+      : []);
+  const removed: PlannedAttribute[] = [];
+
+  const remove = (targets: PlannedAttribute[]) => {
+    removed.push(...targets);
+    attributes = attributes.filter((attr) => !targets.includes(attr));
+  };
+
+  for (const change of changes) {
+    const matching = attributes.filter((attr) => attr.type === change.type && attr.name === change.name);
+
+    switch (change.op) {
+      case 'set':
+        if (matching[0]) {
+          matching[0].value = change.value;
+        } else {
+          attributes.push(toMappedAttribute(change));
+        }
+        break;
+      case 'add':
+        if (!matching.some((attr) => attr.value === change.value)) {
+          attributes.push(toMappedAttribute(change));
+        }
+        break;
+      case 'remove': {
+        const targets = matching.filter((attr) => change.value === undefined || attr.value === change.value);
+        remove(change.all ? targets : targets.slice(0, 1));
+        break;
+      }
+      case 'rename':
+        // ETAPI can't rename an attribute, so it is replaced
+        if (change.to === change.name) break;
+        remove(matching);
+        attributes.push(...matching.map((attr) => toMappedAttribute({ ...attr, name: change.to })));
+        break;
+    }
+  }
+
+  const changed = attributes.filter((attr): attr is PlannedAttribute & { attributeId: string } =>
+    attr.attributeId !== undefined && attr.value !== attr.original);
+  // ETAPI can't change a relation's target, so changed relations are replaced
+  const replaced = changed.filter((attr) => attr.type === 'relation');
+
+  return {
+    noteId: note.noteId ?? '',
+    properties: {},
+    create: [...attributes.filter((attr) => !attr.attributeId), ...replaced].map(toMappedAttribute),
+    update: changed
+      .filter((attr) => attr.type === 'label')
+      .map((attr) => ({ ...toMappedAttribute(attr), attributeId: attr.attributeId })),
+    delete: [...removed, ...replaced]
+      .filter((attr): attr is PlannedAttribute & { attributeId: string } => attr.attributeId !== undefined)
+      .map(({ type, name, attributeId }) => ({ type, name, attributeId })),
+  };
+}
+
+/**
+ * Checks whether a diff changes anything
+ *
+ * @param diff - A planned diff
+ * @returns True if applying it sends at least one request
+ */
+export function hasChanges(diff: NoteDiff): boolean {
+  return Object.keys(diff.properties).length > 0 || diff.create.length > 0 || diff.update.length > 0 || diff.delete.length > 0;
+}
+
+/**
+ * Copies the attribute fields, leaving out planning state
+ * @private
+ */
+function toMappedAttribute(attr: MappedAttribute): MappedAttribute {
+  return { type: attr.type, name: attr.name, value: attr.value, ...(attr.isInheritable ? { isInheritable: true } : {}) };
+}
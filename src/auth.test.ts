@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TokenManager } from './auth.js';
+
+describe('TokenManager', () => {
+  it('should obtain and cache a token', async () => {
+    const provider = vi.fn(async () => 'token-1');
+    const tokens = new TokenManager(provider);
+
+    expect(tokens.current).toBeUndefined();
+    expect(await tokens.get()).toBe('token-1');
+    expect(await tokens.get()).toBe('token-1');
+    expect(tokens.current).toBe('token-1');
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it('should deduplicate concurrent fetches', async () => {
+    const provider = vi.fn(async () => 'token-1');
+    const tokens = new TokenManager(provider);
+
+    const results = await Promise.all([tokens.get(), tokens.get(), tokens.get()]);
+
+    expect(results).toEqual(['token-1', 'token-1', 'token-1']);
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it('should support synchronous providers', async () => {
+    const tokens = new TokenManager(() => 'sync-token');
+    expect(await tokens.get()).toBe('sync-token');
+  });
+
+  it('should refresh a stale token once for concurrent callers', async () => {
+    let count = 0;
+    const tokens = new TokenManager(async () => `token-${++count}`);
+    await tokens.get();
+
+    const results = await Promise.all([tokens.refresh('token-1'), tokens.refresh('token-1')]);
+
+    expect(results).toEqual(['token-2', 'token-2']);
+    expect(count).toBe(2);
+  });
+
+  it('should not discard a newer token when refreshing an older one', async () => {
+    let count = 0;
+    const tokens = new TokenManager(async () => `token-${++count}`);
+    await tokens.get();
+    await tokens.refresh('token-1');
+
+    expect(await tokens.refresh('token-1')).toBe('token-2');
+  });
+
+  it('should retry the provider after a failure', async () => {
+    const provider = vi.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('Login failed'))
+      .mockResolvedValueOnce('token-1');
+    const tokens = new TokenManager(provider);
+
+    await expect(tokens.get()).rejects.toThrow('Login failed');
+    expect(await tokens.get()).toBe('token-1');
+  });
+
+  it('should forget the token on clear', async () => {
+    const tokens = new TokenManager(async () => 'token-1');
+    await tokens.get();
+    tokens.clear();
+
+    expect(tokens.current).toBeUndefined();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Authentication Middleware
+ *
+ * Obtains ETAPI tokens on demand (via password login or a custom provider),
+ * caches them, and re-authenticates once when a request is rejected with 401.
+ */
+
+import type { Middleware } from 'openapi-fetch';
+import { createTriliumNetworkError } from './errors.js';
+
+/** Function that returns an ETAPI token */
+export type TokenProvider = () => string | Promise<string>;
+
+/**
+ * Caches a token obtained from a provider and deduplicates concurrent fetches
+ *
+ * @example
+ * ```ts
+ * const tokens = new TokenManager(async () => login(password));
+ * const token = await tokens.get();
+ * ```
+ */
+export class TokenManager {
+  private readonly provider: TokenProvider;
+  private token: string | undefined;
+  private pending: Promise<string> | undefined;
+
+  /**
+   * Creates a new TokenManager
+   * @param provider - Function that obtains a fresh token
+   */
+  constructor(provider: TokenProvider) {
+    this.provider = provider;
+  }
+
+  /** The cached token, if one has been obtained */
+  get current(): string | undefined {
+    return this.token;
+  }
+
+  /**
+   * Returns the cached token, obtaining one from the provider if needed
+   * @returns The token
+   */
+  get(): Promise<string> {
+    if (this.token !== undefined) return Promise.resolve(this.token);
+
+    this.pending ??= Promise.resolve()
+      .then(() => this.provider())
+      .then(
+        (token) => {
+          this.token = token;
+          this.pending = undefined;
+          return token;
+        },
+        (err: unknown) => {
+          this.pending = undefined;
+          throw err;
+        },
+      );
+
+    return this.pending;
+  }
+
+  /**
+   * Replaces a token the server rejected. Concurrent callers holding the same
+   * stale token share a single refresh.
+   *
+   * @param stale - The token that was rejected
+   * @returns A fresh token
+   */
+  refresh(stale: string | null): Promise<string> {
+    if (this.token !== undefined && this.token === stale) {
+      this.token = undefined;
+    }
+    return this.get();
+  }
+
+  /** Forgets the cached token */
+  clear(): void {
+    this.token = undefined;
+  }
+}
+
+/**
+ * Creates openapi-fetch middleware that authorizes requests with tokens from a TokenManager
+ *
+ * Requests rejected with 401 are replayed once with a refreshed token.
+ * `/auth/login` requests are sent without a token.
+ *
+ * @param tokens - The token manager
+ * @returns Middleware to register with `client.use()`
+ */
+export function createAuthMiddleware(tokens: TokenManager): Middleware {
+  const replays = new Map<string, Request>();
+
+  return {
+    async onRequest({ request, schemaPath, id }) {
+      if (schemaPath === '/auth/login') return undefined;
+
+      request.headers.set('Authorization', await tokens.get());
+      replays.set(id, request.clone());
+      return request;
+    },
+    async onResponse({ request, response, schemaPath, id, options }) {
+      const replay = replays.get(id);
+      replays.delete(id);
+      if (!replay || response.status !== 401) return undefined;
+
+      replay.headers.set('Authorization', await tokens.refresh(replay.headers.get('Authorization')));
+      try {
+        return await options.fetch(replay);
+      } catch (error) {
+        // onError middleware is not invoked for errors raised here, so wrap it ourselves
+        throw createTriliumNetworkError(error, { method: request.method, path: schemaPath, url: request.url, requestId: id });
+      }
+    },
+    onError({ id }) {
+      replays.delete(id);
+      return undefined;
+    },
+  };
+}
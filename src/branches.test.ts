@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { planInsertion, planPositions, sortBranches } from './branches.js';
+import type { TriliumBranch } from './client.js';
+
+function branch(branchId: string, notePosition: number): TriliumBranch {
+  return { branchId, notePosition };
+}
+
+describe('sortBranches', () => {
+  it('should sort by notePosition without changing the input', () => {
+    const branches = [branch('b', 20), branch('a', 10)];
+    expect(sortBranches(branches).map((b) => b.branchId)).toEqual(['a', 'b']);
+    expect(branches[0]!.branchId).toBe('b');
+  });
+});
+
+describe('planInsertion', () => {
+  const siblings = [branch('a', 10), branch('b', 20), branch('c', 21)];
+
+  it('should use a free position between the neighbors', () => {
+    expect(planInsertion(siblings, branch('x', 100), 0)).toEqual([{ branchId: 'x', notePosition: 5 }]);
+    expect(planInsertion(siblings, branch('x', 100), 1)).toEqual([{ branchId: 'x', notePosition: 15 }]);
+  });
+
+  it('should append after the last sibling', () => {
+    expect(planInsertion(siblings, branch('x', 5), 10)).toEqual([{ branchId: 'x', notePosition: 31 }]);
+    expect(planInsertion([], branch('x', 10), 0)).toEqual([]);
+  });
+
+  it('should renumber the children when there is no gap', () => {
+    expect(planInsertion(siblings, branch('x', 0), 2)).toEqual([
+      { branchId: 'x', notePosition: 30 },
+      { branchId: 'c', notePosition: 40 },
+    ]);
+  });
+
+  it('should ignore the branch among its siblings', () => {
+    expect(planInsertion([...siblings, branch('x', 30)], branch('x', 30), 0)).toEqual([{ branchId: 'x', notePosition: 5 }]);
+  });
+});
+
+describe('planPositions', () => {
+  it('should number branches in order, skipping those already in place', () => {
+    expect(planPositions([branch('b', 20), branch('a', 10), branch('c', 30)])).toEqual([
+      { branchId: 'b', notePosition: 10 },
+      { branchId: 'a', notePosition: 20 },
+    ]);
+  });
+});
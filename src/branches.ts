@@ -0,0 +1,114 @@
+/**
+ * Branch Management
+ *
+ * A note appears in the tree through branches, one per parent. Moving a note
+ * replaces a branch, cloning adds one, and the order of children comes from the
+ * branches' notePosition. This module plans those positions; the client sends
+ * the requests.
+ */
+
+import type { TriliumBranch } from './client.js';
+
+/**
+ * Thrown when a branch operation doesn't apply to the tree as it is
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await client.notes.detach(noteId, parentId);
+ * } catch (err) {
+ *   if (err instanceof TriliumBranchError && err.reason === 'last-branch') {
+ *     console.warn('Refusing to delete the note');
+ *   }
+ * }
+ * ```
+ */
+export class TriliumBranchError extends Error {
+  /** Why the operation was refused */
+  readonly reason: 'not-child' | 'last-branch';
+  /** The note the operation was about */
+  readonly noteId: string;
+  /** The parent the operation was about */
+  readonly parentNoteId: string;
+
+  constructor(reason: 'not-child' | 'last-branch', noteId: string, parentNoteId: string) {
+    super(reason === 'not-child'
+      ? `Note ${noteId} is not a child of note ${parentNoteId}`
+      : `Branch of note ${noteId} under note ${parentNoteId} is its last branch; deleting it would delete the note`);
+    this.name = 'TriliumBranchError';
+    this.reason = reason;
+    this.noteId = noteId;
+    this.parentNoteId = parentNoteId;
+  }
+}
+
+/** Options for notes.move() and notes.clone() */
+export interface PlaceNoteOptions {
+  /** Optional: index among the new parent's children (0 for first; default: last) */
+  position?: number;
+  /** Optional: branch prefix shown before the title (move keeps the old prefix by default) */
+  prefix?: string;
+}
+
+/** Options for notes.detach() */
+export interface DetachNoteOptions {
+  /** Optional: delete the branch even if it is the note's last one, which deletes the note */
+  force?: boolean;
+}
+
+/** A notePosition change */
+export interface NotePositionUpdate {
+  branchId: string;
+  notePosition: number;
+}
+
+/** Distance between consecutive notePositions, as Trilium assigns them */
+export const NOTE_POSITION_STEP = 10;
+
+/**
+ * Sorts branches by notePosition
+ *
+ * @param branches - The branches of one parent
+ * @returns A sorted copy
+ */
+export function sortBranches(branches: TriliumBranch[]): TriliumBranch[] {
+  return [...branches].sort((a, b) => (a.notePosition ?? 0) - (b.notePosition ?? 0));
+}
+
+/**
+ * Plans the notePosition updates placing a branch at an index among its siblings.
+ * The branch takes a free position between its neighbors when there is one;
+ * otherwise all children are renumbered.
+ *
+ * @param siblings - The other children of the parent
+ * @param branch - The branch to place
+ * @param index - Index among the children (clamped; 0 for first)
+ * @returns The updates to apply, in order
+ */
+export function planInsertion(siblings: TriliumBranch[], branch: TriliumBranch, index: number): NotePositionUpdate[] {
+  const sorted = sortBranches(siblings.filter((sibling) => sibling.branchId !== branch.branchId));
+  const at = Math.min(Math.max(0, Math.trunc(index)), sorted.length);
+
+  const before = at > 0 ? sorted[at - 1]!.notePosition ?? 0 : 0;
+  const after = at < sorted.length ? sorted[at]!.notePosition ?? 0 : before + 2 * NOTE_POSITION_STEP;
+  if (after - before >= 2) {
+    const notePosition = at < sorted.length ? Math.floor((before + after) / 2) : before + NOTE_POSITION_STEP;
+    return notePosition === branch.notePosition ? [] : [{ branchId: branch.branchId ?? '', notePosition }];
+  }
+
+  return planPositions([...sorted.slice(0, at), branch, ...sorted.slice(at)]);
+}
+
+/**
+ * Plans the notePosition updates numbering branches in the given order
+ * (10, 20, 30, ...), leaving out branches that are already in place
+ *
+ * @param ordered - The branches of one parent, in the desired order
+ * @returns The updates to apply
+ */
+export function planPositions(ordered: TriliumBranch[]): NotePositionUpdate[] {
+  return ordered.flatMap((branch, index) => {
+    const notePosition = (index + 1) * NOTE_POSITION_STEP;
+    return branch.notePosition === notePosition ? [] : [{ branchId: branch.branchId ?? '', notePosition }];
+  });
+}
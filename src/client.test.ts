@@ -1,5 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createTriliumClient, TriliumMapper, transforms, type StandardNote } from './client.js';
+import {
+  createTriliumClient,
+  TriliumMapper,
+  transforms,
+  TriliumApiError,
+  TriliumNetworkError,
+  TriliumResponseParseError,
+  TriliumTimeoutError,
+  search,
+  type StandardNote,
+  type StandardSchemaV1,
+} from './client.js';
 
 // Mock fetch globally - openapi-fetch uses Request objects
 const mockFetch = vi.fn();
@@ -454,6 +465,19 @@ describe('createTriliumClient', () => {
       await expect(client.GET('/app-info')).rejects.toThrow('Network error');
     });
 
+    it('should wrap network errors in TriliumNetworkError', async () => {
+      const cause = new Error('Connection reset');
+      mockFetch.mockRejectedValueOnce(cause);
+
+      const client = createTriliumClient(config);
+      const error = await client.GET('/app-info').catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(TriliumNetworkError);
+      expect(error).toBeInstanceOf(TriliumApiError);
+      expect(error).toMatchObject({ status: 0, code: 'NETWORK_ERROR', method: 'GET', path: '/app-info' });
+      expect((error as Error).cause).toBe(cause);
+    });
+
     it('should handle 500 server errors', async () => {
       mockFetch.mockResolvedValueOnce(createMockResponse({ status: 500, message: 'Internal Server Error' }, 500));
 
@@ -475,6 +499,627 @@ describe('createTriliumClient', () => {
     });
   });
 
+  describe('throwOnError', () => {
+    it('should throw TriliumApiError for error responses', async () => {
+      const errorResponse = { status: 400, code: 'NOTE_IS_PROTECTED', message: "Note 'test123' is protected" };
+      mockFetch.mockResolvedValueOnce(createMockResponse(errorResponse, 400));
+
+      const client = createTriliumClient({ ...config, throwOnError: true });
+      const error = await client
+        .PATCH('/notes/{noteId}', { params: { path: { noteId: 'test123' } }, body: { title: 'New' } })
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(TriliumApiError);
+      expect(error).toMatchObject({
+        status: 400,
+        code: 'NOTE_IS_PROTECTED',
+        message: "Note 'test123' is protected",
+        method: 'PATCH',
+        path: '/notes/{noteId}',
+        url: 'http://localhost:8080/etapi/notes/test123',
+      });
+      expect((error as TriliumApiError).requestId).toBeDefined();
+    });
+
+    it('should prefer the x-request-id response header', async () => {
+      const response = createMockResponse({ status: 404, code: 'NOTE_NOT_FOUND', message: 'Note not found' }, 404);
+      response.headers.set('x-request-id', 'req-42');
+      mockFetch.mockResolvedValueOnce(response);
+
+      const client = createTriliumClient({ ...config, throwOnError: true });
+
+      await expect(client.GET('/app-info')).rejects.toMatchObject({ requestId: 'req-42' });
+    });
+
+    it('should throw TriliumResponseParseError for non-JSON error bodies', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse('<html>Bad Gateway</html>', 502, 'text/html'));
+
+      const client = createTriliumClient({ ...config, throwOnError: true });
+      const error = await client.GET('/app-info').catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(TriliumResponseParseError);
+      expect(error).toMatchObject({ status: 502, code: 'INVALID_ERROR_RESPONSE', body: '<html>Bad Gateway</html>' });
+    });
+
+    it('should not throw for successful responses', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ appVersion: '0.60.0' }));
+
+      const client = createTriliumClient({ ...config, throwOnError: true });
+      const { data } = await client.GET('/app-info');
+
+      expect(data).toEqual({ appVersion: '0.60.0' });
+    });
+  });
+
+  describe('retry', () => {
+    // Retried responses must be real Response objects for openapi-fetch middleware
+    function createRealResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+      return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'content-type': 'application/json', ...headers },
+      });
+    }
+
+    const retry = { baseDelayMs: 0, jitter: false };
+
+    it('should retry retryable status codes until success', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createRealResponse({ message: 'Bad Gateway' }, 502))
+        .mockResolvedValueOnce(createRealResponse({ message: 'Unavailable' }, 503))
+        .mockResolvedValueOnce(createRealResponse({ appVersion: '0.60.0' }));
+
+      const client = createTriliumClient({ ...config, retry });
+      const { data, error } = await client.GET('/app-info');
+
+      expect(error).toBeUndefined();
+      expect(data).toEqual({ appVersion: '0.60.0' });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry network errors', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(createRealResponse({ appVersion: '0.60.0' }));
+
+      const client = createTriliumClient({ ...config, retry });
+      const { data } = await client.GET('/app-info');
+
+      expect(data).toEqual({ appVersion: '0.60.0' });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      mockFetch.mockImplementation(async () => createRealResponse({ message: 'Unavailable' }, 503));
+
+      const client = createTriliumClient({ ...config, retry: { ...retry, maxAttempts: 4 } });
+      const { error, response } = await client.GET('/app-info');
+
+      expect(error).toEqual({ message: 'Unavailable' });
+      expect(response.status).toBe(503);
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should throw TriliumNetworkError when retries are exhausted by network errors', async () => {
+      mockFetch.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      const client = createTriliumClient({ ...config, retry });
+
+      await expect(client.GET('/app-info')).rejects.toBeInstanceOf(TriliumNetworkError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should throw TriliumApiError after retries when throwOnError is set', async () => {
+      mockFetch.mockImplementation(async () =>
+        createRealResponse({ status: 503, code: 'UNAVAILABLE', message: 'Unavailable' }, 503),
+      );
+
+      const client = createTriliumClient({ ...config, retry, throwOnError: true });
+
+      await expect(client.GET('/app-info')).rejects.toMatchObject({ status: 503, code: 'UNAVAILABLE' });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry non-retryable status codes', async () => {
+      mockFetch.mockResolvedValueOnce(createRealResponse({ message: 'Not found' }, 404));
+
+      const client = createTriliumClient({ ...config, retry });
+      await client.GET('/app-info');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry POST by default', async () => {
+      mockFetch.mockResolvedValueOnce(createRealResponse({ message: 'Unavailable' }, 503));
+
+      const client = createTriliumClient({ ...config, retry });
+      await client.POST('/create-note', {
+        body: { parentNoteId: 'root', title: 'New', type: 'text', content: '' },
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry methods allowed by isRetryable', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createRealResponse({ message: 'Unavailable' }, 503))
+        .mockResolvedValueOnce(createRealResponse({ noteId: 'abc' }));
+
+      const client = createTriliumClient({
+        ...config,
+        retry: { ...retry, isRetryable: ({ method, path }) => method === 'PATCH' && path === '/notes/{noteId}' },
+      });
+      const { data } = await client.PATCH('/notes/{noteId}', {
+        params: { path: { noteId: 'abc' } },
+        body: { title: 'Updated' },
+      });
+
+      expect(data).toEqual({ noteId: 'abc' });
+      const retried = mockFetch.mock.calls[1]![0] as Request;
+      expect(retried.method).toBe('PATCH');
+      expect(await retried.text()).toBe(JSON.stringify({ title: 'Updated' }));
+    });
+
+    it('should call onRetry before each retry', async () => {
+      const onRetry = vi.fn();
+      mockFetch
+        .mockResolvedValueOnce(createRealResponse({ message: 'Unavailable' }, 503))
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(createRealResponse({}));
+
+      const client = createTriliumClient({ ...config, retry: { ...retry, onRetry } });
+      await client.GET('/notes/{noteId}', { params: { path: { noteId: 'abc' } } });
+
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[0]![0]).toMatchObject({ attempt: 2, maxAttempts: 3, method: 'GET', path: '/notes/{noteId}', status: 503 });
+      expect(onRetry.mock.calls[1]![0]).toMatchObject({ attempt: 3, error: expect.any(Error) });
+    });
+
+    it('should honour Retry-After headers', async () => {
+      const onRetry = vi.fn();
+      mockFetch
+        .mockResolvedValueOnce(createRealResponse({ message: 'Too many requests' }, 429, { 'retry-after': '0' }))
+        .mockResolvedValueOnce(createRealResponse({}));
+
+      const client = createTriliumClient({ ...config, retry: { baseDelayMs: 1000, jitter: false, onRetry } });
+      await client.GET('/app-info');
+
+      expect(onRetry.mock.calls[0]![0]).toMatchObject({ status: 429, delayMs: 0 });
+    });
+  });
+
+  describe('timeouts and abort signals', () => {
+    // Simulates a server that never responds; rejects once the request is aborted
+    function mockHangingFetch() {
+      mockFetch.mockImplementation(
+        (request: Request) =>
+          new Promise((_resolve, reject) => {
+            if (request.signal.aborted) reject(request.signal.reason);
+            request.signal.addEventListener('abort', () => reject(request.signal.reason));
+          }),
+      );
+    }
+
+    it('should throw TriliumTimeoutError when the default timeout elapses', async () => {
+      mockHangingFetch();
+
+      const client = createTriliumClient({ ...config, timeoutMs: 10 });
+      const error = await client.GET('/app-info').catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(TriliumTimeoutError);
+      expect(error).toBeInstanceOf(TriliumNetworkError);
+      expect(error).toMatchObject({ code: 'TIMEOUT', status: 0, method: 'GET', path: '/app-info' });
+    });
+
+    it('should support per-call timeout overrides', async () => {
+      mockHangingFetch();
+
+      const client = createTriliumClient(config);
+
+      await expect(client.GET('/app-info', { timeoutMs: 10 })).rejects.toBeInstanceOf(TriliumTimeoutError);
+    });
+
+    it('should disable the timeout with timeoutMs: 0', async () => {
+      mockFetch.mockImplementation(
+        () => new Promise((resolve) => setTimeout(() => resolve(createMockResponse({ appVersion: '0.60.0' })), 20)),
+      );
+
+      const client = createTriliumClient({ ...config, timeoutMs: 5 });
+      const { data } = await client.GET('/app-info', { timeoutMs: 0 });
+
+      expect(data).toEqual({ appVersion: '0.60.0' });
+    });
+
+    it('should preserve the request body when a timeout is applied', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ note: { noteId: 'abc' } }, 201));
+
+      const client = createTriliumClient({ ...config, timeoutMs: 1000 });
+      await client.POST('/create-note', {
+        body: { parentNoteId: 'root', title: 'New', type: 'text', content: '' },
+      });
+
+      const request = mockFetch.mock.calls[0]![0] as Request;
+      expect(await request.json()).toEqual({ parentNoteId: 'root', title: 'New', type: 'text', content: '' });
+    });
+
+    it('should clear the timeout once the response arrives', async () => {
+      vi.useFakeTimers();
+      try {
+        mockFetch.mockResolvedValueOnce(createMockResponse({ appVersion: '0.60.0' }));
+
+        const client = createTriliumClient({ ...config, timeoutMs: 1000 });
+        await client.GET('/app-info');
+
+        expect(vi.getTimerCount()).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should surface caller aborts as AbortError', async () => {
+      mockHangingFetch();
+
+      const controller = new AbortController();
+      const client = createTriliumClient({ ...config, timeoutMs: 1000 });
+      const pending = client.GET('/app-info', { signal: controller.signal }).catch((err: unknown) => err);
+      controller.abort();
+      const error = await pending;
+
+      expect(error).not.toBeInstanceOf(TriliumApiError);
+      expect((error as Error).name).toBe('AbortError');
+    });
+
+    it('should not retry timed out requests', async () => {
+      mockHangingFetch();
+
+      const client = createTriliumClient({ ...config, timeoutMs: 10, retry: { baseDelayMs: 0 } });
+
+      await expect(client.GET('/app-info')).rejects.toBeInstanceOf(TriliumTimeoutError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass signal and timeoutMs through searchAndMap', async () => {
+      mockHangingFetch();
+
+      const client = createTriliumClient(config);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.searchAndMap({ query: '#blog', mapping: {}, signal: controller.signal }),
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      await expect(
+        client.searchAndMap({ query: '#blog', mapping: {}, timeoutMs: 10 }),
+      ).rejects.toBeInstanceOf(TriliumTimeoutError);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should not expose a rate limiter unless configured', () => {
+      expect(createTriliumClient(config).rateLimiter).toBeUndefined();
+    });
+
+    it('should cap concurrent requests across verbs', async () => {
+      const pending: (() => void)[] = [];
+      mockFetch.mockImplementation(
+        () => new Promise((resolve) => pending.push(() => resolve(createMockResponse({})))),
+      );
+
+      const client = createTriliumClient({ ...config, rateLimit: { maxConcurrent: 2 } });
+      const requests = [
+        client.GET('/app-info'),
+        client.GET('/notes/{noteId}', { params: { path: { noteId: 'a' } } }),
+        client.DELETE('/notes/{noteId}', { params: { path: { noteId: 'b' } } }),
+      ];
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+
+      expect(client.rateLimiter?.inFlight).toBe(2);
+      expect(client.rateLimiter?.queueLength).toBe(1);
+
+      pending[0]!();
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(3));
+      pending.slice(1).forEach((resolve) => resolve());
+      await Promise.all(requests);
+
+      expect(client.rateLimiter?.stats()).toMatchObject({ queued: 0, inFlight: 0 });
+    });
+
+    it('should rate limit retries too', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('{}', { status: 503 }))
+        .mockResolvedValueOnce(new Response('{}', { status: 200, headers: { 'content-type': 'application/json' } }));
+
+      const client = createTriliumClient({
+        ...config,
+        rateLimit: { maxConcurrent: 1 },
+        retry: { baseDelayMs: 0 },
+      });
+      const acquire = vi.spyOn(client.rateLimiter!, 'acquire');
+      await client.GET('/app-info');
+
+      expect(acquire).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('authentication', () => {
+    const baseUrl = 'http://localhost:8080';
+
+    it('should log in with a password before the first request', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ authToken: 'session-token' }, 201))
+        .mockResolvedValueOnce(createMockResponse({ appVersion: '0.60.0' }));
+
+      const client = createTriliumClient({ baseUrl, password: 'secret' });
+      const { data } = await client.GET('/app-info');
+
+      expect(data).toEqual({ appVersion: '0.60.0' });
+
+      const loginRequest = mockFetch.mock.calls[0]![0] as Request;
+      expect(loginRequest.url).toBe('http://localhost:8080/etapi/auth/login');
+      expect(loginRequest.method).toBe('POST');
+      expect(loginRequest.headers.get('Authorization')).toBeNull();
+      expect(await loginRequest.json()).toEqual({ password: 'secret' });
+
+      const request = mockFetch.mock.calls[1]![0] as Request;
+      expect(request.headers.get('Authorization')).toBe('session-token');
+    });
+
+    it('should log in only once for concurrent requests', async () => {
+      mockFetch.mockImplementation(async (request: Request) =>
+        request.url.endsWith('/auth/login')
+          ? createMockResponse({ authToken: 'session-token' }, 201)
+          : createMockResponse({}),
+      );
+
+      const client = createTriliumClient({ baseUrl, password: 'secret' });
+      await Promise.all([client.GET('/app-info'), client.GET('/app-info'), client.GET('/app-info')]);
+
+      const logins = mockFetch.mock.calls.filter(([request]) => (request as Request).url.endsWith('/auth/login'));
+      expect(logins).toHaveLength(1);
+    });
+
+    it('should re-authenticate once on 401', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ authToken: 'expired-token' }, 201))
+        .mockResolvedValueOnce(new Response('{"message":"Unauthorized"}', { status: 401 }))
+        .mockResolvedValueOnce(createMockResponse({ authToken: 'fresh-token' }, 201))
+        .mockResolvedValueOnce(new Response('{"appVersion":"0.60.0"}', { headers: { 'content-type': 'application/json' } }));
+
+      const client = createTriliumClient({ baseUrl, password: 'secret' });
+      const { data } = await client.GET('/app-info');
+
+      expect(data).toEqual({ appVersion: '0.60.0' });
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      const replayed = mockFetch.mock.calls[3]![0] as Request;
+      expect(replayed.headers.get('Authorization')).toBe('fresh-token');
+    });
+
+    it('should not re-authenticate more than once', async () => {
+      mockFetch.mockImplementation(async (request: Request) =>
+        request.url.endsWith('/auth/login')
+          ? createMockResponse({ authToken: 'token' }, 201)
+          : new Response('{"message":"Unauthorized"}', { status: 401 }),
+      );
+
+      const client = createTriliumClient({ baseUrl, password: 'secret' });
+      const { error, response } = await client.GET('/app-info');
+
+      expect(response.status).toBe(401);
+      expect(error).toEqual({ message: 'Unauthorized' });
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should throw TriliumApiError when login fails', async () => {
+      mockFetch.mockResolvedValueOnce(
+        createMockResponse({ status: 401, code: 'WRONG_PASSWORD', message: 'Wrong password' }, 401),
+      );
+
+      const client = createTriliumClient({ baseUrl, password: 'wrong' });
+
+      await expect(client.GET('/app-info')).rejects.toMatchObject({
+        code: 'WRONG_PASSWORD',
+        path: '/auth/login',
+      });
+    });
+
+    it('should use an async token provider', async () => {
+      const getToken = vi.fn(async () => 'provided-token');
+      mockFetch.mockResolvedValueOnce(createMockResponse({}));
+
+      const client = createTriliumClient({ baseUrl, getToken });
+      await client.GET('/app-info');
+
+      const request = mockFetch.mock.calls[0]![0] as Request;
+      expect(request.headers.get('Authorization')).toBe('provided-token');
+      expect(getToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should revoke the token on logout and log in again afterwards', async () => {
+      mockFetch.mockImplementation(async (request: Request) => {
+        if (request.url.endsWith('/auth/login')) return createMockResponse({ authToken: 'session-token' }, 201);
+        if (request.url.endsWith('/auth/logout')) return createMockResponse('', 204, 'text/plain');
+        return createMockResponse({});
+      });
+
+      const client = createTriliumClient({ baseUrl, password: 'secret' });
+      await client.GET('/app-info');
+      await client.logout();
+
+      const logoutRequest = mockFetch.mock.calls[2]![0] as Request;
+      expect(logoutRequest.url).toBe('http://localhost:8080/etapi/auth/logout');
+      expect(logoutRequest.headers.get('Authorization')).toBe('session-token');
+
+      await client.GET('/app-info');
+      expect((mockFetch.mock.calls[3]![0] as Request).url).toBe('http://localhost:8080/etapi/auth/login');
+    });
+
+    it('should skip logout when no token was obtained', async () => {
+      const client = createTriliumClient({ baseUrl, password: 'secret' });
+      await client.logout();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should throw TriliumApiError when logout fails', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ status: 500, code: 'INTERNAL', message: 'Boom' }, 500));
+
+      const client = createTriliumClient(config);
+
+      await expect(client.logout()).rejects.toMatchObject({ code: 'INTERNAL', path: '/auth/logout' });
+    });
+  });
+
+  describe('searchIterator', () => {
+    function note(noteId: string, utcDateCreated: string, attributes: object[] = []) {
+      return { noteId, title: `Note ${noteId}`, utcDateCreated, utcDateModified: utcDateCreated, attributes };
+    }
+
+    function searchParams(call: number) {
+      return new URL((mockFetch.mock.calls[call]![0] as Request).url).searchParams;
+    }
+
+    async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+      const items: T[] = [];
+      for await (const item of iterator) items.push(item);
+      return items;
+    }
+
+    it('should walk pages using keyset conditions', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ results: [note('a', '2024-01-01'), note('b', '2024-01-02')] }))
+        .mockResolvedValueOnce(createMockResponse({ results: [note('b', '2024-01-02'), note('c', '2024-01-03')] }))
+        .mockResolvedValueOnce(createMockResponse({ results: [note('c', '2024-01-03')] }));
+
+      const client = createTriliumClient(config);
+      const notes = await collect(client.searchIterator({ '#blog': true }, { pageSize: 2 }));
+
+      expect(notes.map((n) => n.noteId)).toEqual(['a', 'b', 'c']);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+
+      expect(searchParams(0).get('search')).toBe('#blog');
+      expect(searchParams(0).get('orderBy')).toBe('utcDateCreated');
+      expect(searchParams(0).get('orderDirection')).toBe('asc');
+      expect(searchParams(0).get('limit')).toBe('2');
+      expect(searchParams(1).get('search')).toBe("note.utcDateCreated >= '2024-01-02' AND (#blog)");
+      expect(searchParams(2).get('search')).toBe("note.utcDateCreated >= '2024-01-03' AND (#blog)");
+    });
+
+    it('should not skip notes sharing the boundary value', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ results: [note('a', '2024-01-01'), note('b', '2024-01-01')] }))
+        .mockResolvedValueOnce(createMockResponse({ results: [note('a', '2024-01-01'), note('b', '2024-01-01')] }))
+        .mockResolvedValueOnce(createMockResponse({
+          results: [note('a', '2024-01-01'), note('b', '2024-01-01'), note('c', '2024-01-01'), note('d', '2024-01-02')],
+        }))
+        .mockResolvedValueOnce(createMockResponse({ results: [note('d', '2024-01-02')] }));
+
+      const client = createTriliumClient(config);
+      const notes = await collect(client.searchIterator('#blog', { pageSize: 2 }));
+
+      expect(notes.map((n) => n.noteId)).toEqual(['a', 'b', 'c', 'd']);
+      // The all-duplicates page doubles the limit
+      expect(searchParams(2).get('limit')).toBe('4');
+      expect(searchParams(3).get('limit')).toBe('2');
+    });
+
+    it('should use <= conditions for descending order', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ results: [note('b', '2024-01-02'), note('a', '2024-01-01')] }))
+        .mockResolvedValueOnce(createMockResponse({ results: [note('a', '2024-01-01')] }));
+
+      const client = createTriliumClient(config);
+      await collect(client.searchIterator('#blog', { pageSize: 2, orderDirection: 'desc', fastSearch: true }));
+
+      expect(searchParams(0).get('fastSearch')).toBe('true');
+      expect(searchParams(1).get('search')).toBe("note.utcDateCreated <= '2024-01-01' AND (#blog)");
+    });
+
+    it('should scope every page to the subtree', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ results: [note('a', '2024-01-01')] }))
+        .mockResolvedValueOnce(createMockResponse({ results: [] }));
+
+      const client = createTriliumClient(config);
+      await collect(client.searchIterator('#blog', { pageSize: 1, ancestorNoteId: 'workspace1', includeArchivedNotes: true }));
+
+      for (const index of [0, 1]) {
+        expect(searchParams(index).get('ancestorNoteId')).toBe('workspace1');
+        expect(searchParams(index).get('includeArchivedNotes')).toBe('true');
+      }
+    });
+
+    it('should stop fetching when the consumer stops', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ results: [note('a', '2024-01-01'), note('b', '2024-01-02')] }));
+
+      const client = createTriliumClient(config);
+      for await (const n of client.searchIterator('#blog', { pageSize: 2 })) {
+        expect(n.noteId).toBe('a');
+        break;
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the settings of a search() builder', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ results: [note('c', '2024-01-03'), note('b', '2024-01-02')] }))
+        .mockResolvedValueOnce(createMockResponse({ results: [note('b', '2024-01-02'), note('a', '2024-01-01')] }));
+
+      const client = createTriliumClient(config);
+      const query = search().label('blog').orderBy('utcDateModified', 'desc').limit(3).fastSearch();
+      const notes = await collect(client.searchIterator(query, { pageSize: 2 }));
+
+      expect(notes.map((n) => n.noteId)).toEqual(['c', 'b', 'a']);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(searchParams(0).get('search')).toBe('#blog');
+      expect(searchParams(0).get('orderBy')).toBe('utcDateModified');
+      expect(searchParams(0).get('orderDirection')).toBe('desc');
+      expect(searchParams(0).get('fastSearch')).toBe('true');
+    });
+
+    it('should reject builder orderings that cannot be paginated', async () => {
+      const client = createTriliumClient(config);
+
+      await expect(collect(client.searchIterator(search().label('blog').orderBy('title')))).rejects.toThrow(
+        "Search results can't be paginated by 'title'",
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should throw TriliumApiError on API error', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ status: 400, code: 'BAD_QUERY', message: 'Bad' }, 400));
+
+      const client = createTriliumClient(config);
+
+      await expect(collect(client.searchIterator('#blog'))).rejects.toBeInstanceOf(TriliumApiError);
+    });
+
+    it('should map notes with searchAndMapIterator and report failures', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        results: [
+          note('a', '2024-01-01T00:00:00.000Z', [{ type: 'label', name: 'slug', value: 'post-a' }]),
+          note('b', '2024-01-02T00:00:00.000Z'),
+        ],
+      }));
+
+      interface Post extends StandardNote {
+        slug: string;
+      }
+
+      const onFailure = vi.fn();
+      const client = createTriliumClient(config);
+      const posts = await collect(client.searchAndMapIterator<Post>({
+        query: '#blog',
+        mapping: { slug: { from: '#slug', required: true } },
+        onFailure,
+      }));
+
+      expect(posts).toHaveLength(1);
+      expect(posts[0]).toMatchObject({ id: 'a', slug: 'post-a' });
+      expect(onFailure).toHaveBeenCalledTimes(1);
+      expect(onFailure.mock.calls[0]![0]).toMatchObject({ noteId: 'b' });
+    });
+  });
+
   describe('searchAndMap', () => {
     const mockNotesWithAttributes = {
       results: [
@@ -567,32 +1212,106 @@ describe('createTriliumClient', () => {
       });
 
       const request = mockFetch.mock.calls[0]![0] as Request;
-      const url = decodeURIComponent(request.url);
-      expect(url).toContain('limit:10');
-      expect(url).toContain('orderBy:dateModified');
-      expect(url).toContain('desc');
-      expect(url).toContain('fastSearch');
+      const params = new URL(request.url).searchParams;
+      expect(params.get('search')).toBe('#blog');
+      expect(params.get('limit')).toBe('10');
+      expect(params.get('orderBy')).toBe('dateModified');
+      expect(params.get('orderDirection')).toBe('desc');
+      expect(params.get('fastSearch')).toBe('true');
     });
 
-    it('should track mapping failures', async () => {
-      const notesWithMissingData = {
-        results: [
-          {
-            noteId: 'note1',
-            title: 'Good Note',
-            utcDateCreated: '2024-01-01T00:00:00.000Z',
-            utcDateModified: '2024-01-02T00:00:00.000Z',
-            attributes: [{ type: 'label', name: 'slug', value: 'good-slug' }],
-          },
-          {
-            noteId: 'note2',
-            title: 'Bad Note',
-            utcDateCreated: '2024-01-01T00:00:00.000Z',
-            utcDateModified: '2024-01-02T00:00:00.000Z',
-            attributes: [], // Missing slug attribute
-          },
-        ],
-      };
+    it('should scope the search to a subtree', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [] }));
+
+      const client = createTriliumClient(config);
+      await client.searchAndMap<BlogPost>({
+        query: '#blog',
+        mapping: blogMapping,
+        ancestorNoteId: 'workspace1',
+        ancestorDepth: 'lt3',
+        includeArchivedNotes: true,
+      });
+
+      const request = mockFetch.mock.calls[0]![0] as Request;
+      const params = new URL(request.url).searchParams;
+      expect(params.get('search')).toBe('#blog');
+      expect(params.get('ancestorNoteId')).toBe('workspace1');
+      expect(params.get('ancestorDepth')).toBe('lt3');
+      expect(params.get('includeArchivedNotes')).toBe('true');
+      expect(params.has('debug')).toBe(false);
+    });
+
+    it('should return debugInfo when debug is set', async () => {
+      const debugInfo = { expression: 'PropertyComparisonExp' };
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [], debugInfo }));
+
+      const client = createTriliumClient(config);
+      const result = await client.searchAndMap<BlogPost>({ query: '#blog', mapping: blogMapping, debug: true });
+
+      const request = mockFetch.mock.calls[0]![0] as Request;
+      expect(new URL(request.url).searchParams.get('debug')).toBe('true');
+      expect(result.debugInfo).toEqual(debugInfo);
+    });
+
+    it('should omit debugInfo when the response has none', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [] }));
+
+      const client = createTriliumClient(config);
+      const result = await client.searchAndMap<BlogPost>({ query: '#blog', mapping: blogMapping });
+
+      expect(result).toEqual({ data: [], failures: [] });
+    });
+
+    it('should accept a search() builder and use its settings', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [] }));
+
+      const client = createTriliumClient(config);
+      await client.searchAndMap<BlogPost>({
+        query: search().label('blog').label('status').eq('published').orderBy('dateModified', 'desc').limit(5).fastSearch(),
+        mapping: blogMapping,
+      });
+
+      const params = new URL((mockFetch.mock.calls[0]![0] as Request).url).searchParams;
+      expect(params.get('search')).toBe("#blog AND #status = 'published'");
+      expect(params.get('orderBy')).toBe('dateModified');
+      expect(params.get('orderDirection')).toBe('desc');
+      expect(params.get('limit')).toBe('5');
+      expect(params.get('fastSearch')).toBe('true');
+    });
+
+    it('should prefer explicit options over the builder settings', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [] }));
+
+      const client = createTriliumClient(config);
+      await client.searchAndMap<BlogPost>({
+        query: search().label('blog').limit(5),
+        mapping: blogMapping,
+        limit: 20,
+      });
+
+      const request = mockFetch.mock.calls[0]![0] as Request;
+      expect(new URL(request.url).searchParams.get('limit')).toBe('20');
+    });
+
+    it('should track mapping failures', async () => {
+      const notesWithMissingData = {
+        results: [
+          {
+            noteId: 'note1',
+            title: 'Good Note',
+            utcDateCreated: '2024-01-01T00:00:00.000Z',
+            utcDateModified: '2024-01-02T00:00:00.000Z',
+            attributes: [{ type: 'label', name: 'slug', value: 'good-slug' }],
+          },
+          {
+            noteId: 'note2',
+            title: 'Bad Note',
+            utcDateCreated: '2024-01-01T00:00:00.000Z',
+            utcDateModified: '2024-01-02T00:00:00.000Z',
+            attributes: [], // Missing slug attribute
+          },
+        ],
+      };
 
       mockFetch.mockResolvedValueOnce(createMockResponse(notesWithMissingData));
 
@@ -641,6 +1360,16 @@ describe('createTriliumClient', () => {
       ).rejects.toBeDefined();
     });
 
+    it('should throw TriliumApiError on API error', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ status: 400, code: 'SEARCH_QUERY_PARAM_MANDATORY', message: 'Bad search' }, 400));
+
+      const client = createTriliumClient(config);
+      const error = await client.searchAndMap<BlogPost>({ query: '#blog', mapping: blogMapping }).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(TriliumApiError);
+      expect(error).toMatchObject({ status: 400, code: 'SEARCH_QUERY_PARAM_MANDATORY', method: 'GET', path: '/notes' });
+    });
+
     it('should throw when no results property returned', async () => {
       mockFetch.mockResolvedValueOnce(createMockResponse({}));
 
@@ -666,5 +1395,1009 @@ describe('createTriliumClient', () => {
       expect(data).toHaveLength(0);
       expect(failures).toHaveLength(0);
     });
+
+    it('should await async transforms and report the failing field', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(mockNotesWithAttributes));
+
+      const client = createTriliumClient(config);
+      const { data, failures } = await client.searchAndMap<BlogPost>({
+        query: '#blog',
+        mapping: {
+          ...blogMapping,
+          slug: {
+            from: '#slug',
+            transform: async (slug: string) => {
+              if (slug === 'blog-post-1') throw new Error('slug taken');
+              return slug.toUpperCase();
+            },
+          },
+        },
+      });
+
+      expect(data.map((post) => post.slug)).toEqual(['BLOG-POST-2']);
+      expect(failures).toEqual([
+        expect.objectContaining({ noteId: 'note1', field: 'slug', reason: expect.stringContaining('slug taken') }),
+      ]);
+    });
+
+    it('should list every failing field in strict mode', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        results: [{
+          noteId: 'note1',
+          title: 'Bad Note',
+          utcDateCreated: '2024-01-01T00:00:00.000Z',
+          utcDateModified: '2024-01-02T00:00:00.000Z',
+          attributes: [{ type: 'label', name: 'wordCount', value: 'many' }],
+        }],
+      }));
+
+      interface CountedPost extends BlogPost {
+        wordCount: number;
+      }
+
+      const client = createTriliumClient(config);
+      const { data, failures } = await client.searchAndMap<CountedPost>({
+        query: '#blog',
+        mapping: {
+          ...blogMapping,
+          slug: { from: '#slug', required: true },
+          wordCount: { from: '#wordCount', transform: transforms.number, default: 0 },
+        },
+        strict: true,
+      });
+
+      expect(data).toEqual([]);
+      expect(failures[0]!.errors).toEqual([
+        expect.objectContaining({ field: 'slug', kind: 'required', rawValue: undefined }),
+        expect.objectContaining({ field: 'wordCount', path: '#wordCount', kind: 'type', rawValue: 'many' }),
+      ]);
+    });
+
+    it('should infer the type from a schema and report validation failures', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(mockNotesWithAttributes));
+
+      const postSchema: StandardSchemaV1<unknown, { slug: string }> = {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: async (value) => {
+            const { slug } = value as { slug: string };
+            return slug.endsWith('-1') ? { issues: [{ message: 'Reserved slug', path: ['slug'] }] } : { value: { slug: slug.toUpperCase() } };
+          },
+        },
+      };
+
+      const client = createTriliumClient(config);
+      const { data, failures } = await client.searchAndMap({ query: '#blog', schema: postSchema, mapping: { slug: '#slug' } });
+
+      const slugs: string[] = data.map((post) => post.slug);
+      expect(slugs).toEqual(['BLOG-POST-2']);
+      expect(data[0]!.id).toBe('note2');
+      expect(failures).toEqual([
+        expect.objectContaining({
+          noteId: 'note1',
+          field: 'slug',
+          errors: [expect.objectContaining({ kind: 'schema', path: '#slug', rawValue: 'blog-post-1' })],
+        }),
+      ]);
+    });
+
+    describe('relation resolution', () => {
+      interface Author {
+        id: string;
+        name: string;
+        avatar: string;
+      }
+
+      interface Post extends StandardNote {
+        author: Author;
+      }
+
+      const relation = (name: string, value: string) => ({ type: 'relation', name, value });
+      const post = (noteId: string, authorId: string) => ({
+        noteId,
+        title: noteId,
+        utcDateCreated: '2024-01-01T00:00:00.000Z',
+        utcDateModified: '2024-01-02T00:00:00.000Z',
+        attributes: [relation('author', authorId)],
+      });
+      const author = (noteId: string) => ({
+        noteId,
+        title: `Author ${noteId}`,
+        attributes: [{ type: 'label', name: 'avatarUrl', value: `/${noteId}.png` }],
+      });
+
+      const mapping = {
+        author: { from: '~author', resolve: { id: 'note.noteId', name: 'note.title', avatar: '#avatarUrl' } },
+      };
+
+      function respondWith(search: object, notes: Record<string, object>) {
+        mockFetch.mockImplementation(async (request: Request) => {
+          const path = new URL(request.url).pathname;
+          if (path === '/etapi/notes') return createMockResponse(search);
+          const note = notes[path.slice('/etapi/notes/'.length)];
+          return note ? createMockResponse(note) : createMockResponse({ status: 404, code: 'NOTE_NOT_FOUND', message: 'Not found' }, 404);
+        });
+      }
+
+      it('should fetch each referenced note once and map it with the nested mapping', async () => {
+        respondWith({ results: [post('p1', 'a1'), post('p2', 'a1'), post('p3', 'a2')] }, { a1: author('a1'), a2: author('a2') });
+
+        const client = createTriliumClient(config);
+        const { data, failures } = await client.searchAndMap<Post>({ query: '#blog', mapping });
+
+        const paths = mockFetch.mock.calls.map((call) => new URL((call[0] as Request).url).pathname);
+        expect(paths).toEqual(['/etapi/notes', '/etapi/notes/a1', '/etapi/notes/a2']);
+        expect(failures).toEqual([]);
+        expect(data.map((p) => p.author)).toEqual([
+          { id: 'a1', name: 'Author a1', avatar: '/a1.png' },
+          { id: 'a1', name: 'Author a1', avatar: '/a1.png' },
+          { id: 'a2', name: 'Author a2', avatar: '/a2.png' },
+        ]);
+      });
+
+      it('should leave deleted targets undefined', async () => {
+        respondWith({ results: [post('p1', 'gone')] }, {});
+
+        const client = createTriliumClient(config);
+        const { data } = await client.searchAndMap<Post>({ query: '#blog', mapping });
+
+        expect(data[0]!.author).toBeUndefined();
+      });
+
+      it('should keep noteIds beyond resolveDepth', async () => {
+        respondWith({ results: [post('p1', 'a1')] }, { a1: author('a1') });
+
+        const client = createTriliumClient(config);
+        const { data } = await client.searchAndMap<Post>({ query: '#blog', mapping, resolveDepth: 0 });
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(data[0]!.author).toBe('a1');
+      });
+
+      it('should cache targets across searchAndMapIterator pages', async () => {
+        respondWith({ results: [post('p1', 'a1'), post('p2', 'a1')] }, { a1: author('a1') });
+
+        const client = createTriliumClient(config);
+        const posts: Post[] = [];
+        for await (const p of client.searchAndMapIterator<Post>({ query: '#blog', mapping, pageSize: 10 })) {
+          posts.push(p);
+        }
+
+        const paths = mockFetch.mock.calls.map((call) => new URL((call[0] as Request).url).pathname);
+        expect(paths.filter((path) => path === '/etapi/notes/a1')).toHaveLength(1);
+        expect(posts.map((p) => p.author.name)).toEqual(['Author a1', 'Author a1']);
+      });
+    });
+    describe('attribute inheritance', () => {
+      interface Setting extends StandardNote {
+        theme: string;
+        icon: string;
+      }
+
+      const attr = (noteId: string, type: string, name: string, value: string, isInheritable = false) =>
+        ({ attributeId: `${noteId}-${name}`, noteId, type, name, value, isInheritable });
+
+      const notes: Record<string, object> = {
+        folder: { noteId: 'folder', title: 'Folder', parentNoteIds: ['root'], attributes: [attr('folder', 'label', 'theme', 'dark', true)] },
+        root: { noteId: 'root', title: 'root', parentNoteIds: ['none'], attributes: [] },
+        tpl: { noteId: 'tpl', title: 'Template', parentNoteIds: ['root'], attributes: [attr('tpl', 'label', 'icon', 'bx-cog')] },
+      };
+      const child = (noteId: string) => ({
+        noteId,
+        title: noteId,
+        utcDateCreated: '2024-01-01T00:00:00.000Z',
+        utcDateModified: '2024-01-02T00:00:00.000Z',
+        parentNoteIds: ['folder'],
+        attributes: [attr(noteId, 'relation', 'template', 'tpl')],
+      });
+
+      beforeEach(() => {
+        mockFetch.mockImplementation(async (request: Request) => {
+          const path = new URL(request.url).pathname;
+          if (path === '/etapi/notes') return createMockResponse({ results: [child('c1'), child('c2')] });
+          const note = notes[path.slice('/etapi/notes/'.length)];
+          return note ? createMockResponse(note) : createMockResponse({ status: 404, code: 'NOTE_NOT_FOUND', message: 'Not found' }, 404);
+        });
+      });
+
+      it('should map inherited and template attributes, loading each ancestor once', async () => {
+        const client = createTriliumClient(config);
+        const { data } = await client.searchAndMap<Setting>({
+          query: '#setting',
+          mapping: { theme: '#theme', icon: '#icon' },
+          inheritance: true,
+        });
+
+        const paths = mockFetch.mock.calls.map((call) => new URL((call[0] as Request).url).pathname);
+        expect(paths).toEqual(['/etapi/notes', '/etapi/notes/tpl', '/etapi/notes/folder', '/etapi/notes/root']);
+        expect(data.map(({ theme, icon }) => ({ theme, icon }))).toEqual([
+          { theme: 'dark', icon: 'bx-cog' },
+          { theme: 'dark', icon: 'bx-cog' },
+        ]);
+      });
+
+      it('should only read owned attributes by default', async () => {
+        const client = createTriliumClient(config);
+        const { data } = await client.searchAndMap<Setting>({ query: '#setting', mapping: { theme: '#theme', icon: '#icon' } });
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(data[0]!.theme).toBeUndefined();
+      });
+    });
+
+    describe('child notes', () => {
+      interface Chapter {
+        title: string;
+        prefix?: string;
+      }
+
+      interface Book extends StandardNote {
+        chapters: Chapter[];
+      }
+
+      const note = (noteId: string, childBranchIds: string[] = []) => ({
+        noteId,
+        title: noteId,
+        utcDateCreated: '2024-01-01T00:00:00.000Z',
+        utcDateModified: '2024-01-02T00:00:00.000Z',
+        childBranchIds,
+        attributes: [],
+      });
+      const branches: Record<string, object> = {
+        b_c2: { branchId: 'b_c2', noteId: 'c2', parentNoteId: 'book', notePosition: 20, prefix: 'II' },
+        b_c1: { branchId: 'b_c1', noteId: 'c1', parentNoteId: 'book', notePosition: 10, prefix: 'I' },
+        c1_s1: { branchId: 'c1_s1', noteId: 's1', parentNoteId: 'c1', notePosition: 10 },
+      };
+      const notes: Record<string, object> = { c1: note('c1', ['c1_s1']), c2: note('c2'), s1: note('s1') };
+
+      beforeEach(() => {
+        mockFetch.mockImplementation(async (request: Request) => {
+          const url = new URL(request.url);
+          if (url.pathname === '/etapi/notes') {
+            const search = url.searchParams.get('search');
+            return createMockResponse({ results: search === '#book' ? [note('book', ['b_c2', 'b_c1', 'gone'])] : [note('c2'), note('s1')] });
+          }
+          const [, , kind, id] = url.pathname.split('/');
+          const found = (kind === 'branches' ? branches : notes)[id!];
+          return found ? createMockResponse(found) : createMockResponse({ status: 404, code: 'NOT_FOUND', message: 'Not found' }, 404);
+        });
+      });
+
+      it('should map children in branch order with their prefix, skipping deleted branches', async () => {
+        const client = createTriliumClient(config);
+        const { data, failures } = await client.searchAndMap<Book>({
+          query: '#book',
+          mapping: { chapters: { children: { title: 'note.title', prefix: 'branch.prefix' } } },
+        });
+
+        expect(failures).toEqual([]);
+        expect(data[0]!.chapters).toEqual([{ title: 'c1', prefix: 'I' }, { title: 'c2', prefix: 'II' }]);
+      });
+
+      it('should include matching descendants up to depth, in tree order', async () => {
+        const client = createTriliumClient(config);
+        const { data } = await client.searchAndMap<Book>({
+          query: '#book',
+          mapping: { chapters: { children: { title: 'note.title' }, filter: { '#published': true }, depth: 2 } },
+        });
+
+        const filterSearch = mockFetch.mock.calls
+          .map((call) => new URL((call[0] as Request).url))
+          .find((url) => url.pathname === '/etapi/notes' && url.searchParams.get('search') === '#published');
+        expect(filterSearch?.searchParams.get('ancestorNoteId')).toBe('book');
+        expect(filterSearch?.searchParams.get('ancestorDepth')).toBe('lt3');
+        expect(data[0]!.chapters.map((chapter) => chapter.title)).toEqual(['s1', 'c2']);
+      });
+    });
+
+    describe('note content', () => {
+      interface Page extends StandardNote {
+        body: string;
+      }
+
+      const page = (noteId: string) => ({
+        noteId,
+        title: noteId,
+        type: 'text',
+        utcDateCreated: '2024-01-01T00:00:00.000Z',
+        utcDateModified: '2024-01-02T00:00:00.000Z',
+        attributes: [],
+      });
+
+      it('should fetch content with bounded concurrency when the mapping reads it', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        mockFetch.mockImplementation(async (request: Request) => {
+          const path = new URL(request.url).pathname;
+          if (path === '/etapi/notes') return createMockResponse({ results: ['p1', 'p2', 'p3', 'p4'].map(page) });
+
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          inFlight--;
+          const noteId = path.split('/')[3];
+          return createMockResponse(`<p>Body of <b>${noteId}</b></p>`, 200, 'text/html');
+        });
+
+        const client = createTriliumClient(config);
+        const { data } = await client.searchAndMap<Page>({
+          query: '#page',
+          mapping: { body: { from: 'note.content', as: 'markdown' } },
+          contentConcurrency: 2,
+          contentTransform: (content) => content.replace('Body', 'Text'),
+        });
+
+        expect(maxInFlight).toBe(2);
+        expect(data.map((p) => p.body)).toEqual(['Text of **p1**', 'Text of **p2**', 'Text of **p3**', 'Text of **p4**']);
+      });
+
+      it('should not fetch content when the mapping does not read it', async () => {
+        mockFetch.mockResolvedValueOnce(createMockResponse({ results: [page('p1')] }));
+
+        const client = createTriliumClient(config);
+        await client.searchAndMap<BlogPost>({ query: '#page', mapping: blogMapping });
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should throw TriliumApiError when content cannot be fetched', async () => {
+        mockFetch
+          .mockResolvedValueOnce(createMockResponse({ results: [page('p1')] }))
+          .mockResolvedValueOnce(createMockResponse({ status: 404, code: 'NOTE_NOT_FOUND', message: 'Not found' }, 404));
+
+        const client = createTriliumClient(config);
+        const error = await client
+          .searchAndMap<Page>({ query: '#page', mapping: { body: 'note.content' } })
+          .catch((err: unknown) => err);
+
+        expect(error).toBeInstanceOf(TriliumApiError);
+        expect(error).toMatchObject({ status: 404, path: '/notes/{noteId}/content' });
+      });
+    });
+  });
+
+  describe('applyNoteDiff', () => {
+    it('should patch properties and create, update and delete attributes', async () => {
+      mockFetch.mockImplementation(async (request: Request) =>
+        request.method === 'DELETE' ? createMockResponse('', 204, 'text/plain') : createMockResponse({}),
+      );
+
+      const client = createTriliumClient(config);
+      await client.applyNoteDiff({
+        noteId: 'note1',
+        properties: { title: 'New title' },
+        create: [{ type: 'label', name: 'published', value: 'true' }],
+        update: [{ attributeId: 'attr1', type: 'label', name: 'slug', value: 'new-slug' }],
+        delete: [{ attributeId: 'attr2', type: 'relation', name: 'author' }],
+      });
+
+      const requests = mockFetch.mock.calls.map((call) => call[0] as Request);
+      expect(requests.map((r) => `${r.method} ${new URL(r.url).pathname}`)).toEqual([
+        'PATCH /etapi/notes/note1',
+        'POST /etapi/attributes',
+        'PATCH /etapi/attributes/attr1',
+        'DELETE /etapi/attributes/attr2',
+      ]);
+      expect(await requests[0]!.json()).toEqual({ title: 'New title' });
+      expect(await requests[1]!.json()).toEqual({ noteId: 'note1', type: 'label', name: 'published', value: 'true' });
+      expect(await requests[2]!.json()).toEqual({ value: 'new-slug' });
+    });
+
+    it('should not send requests for an empty diff', async () => {
+      const client = createTriliumClient(config);
+      await client.applyNoteDiff({ noteId: 'note1', properties: {}, create: [], update: [], delete: [] });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should apply a diff computed by TriliumMapper', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({}));
+
+      const mapper = new TriliumMapper<{ title: string; published: boolean }>({
+        title: 'note.title',
+        published: { from: '#published', transform: transforms.boolean, default: false },
+      });
+      const note = { noteId: 'note1', title: 'Post', attributes: [] };
+
+      const client = createTriliumClient(config);
+      await client.applyNoteDiff(mapper.diff(note, { published: true }));
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(await (mockFetch.mock.calls[0]![0] as Request).json()).toEqual({
+        noteId: 'note1',
+        type: 'label',
+        name: 'published',
+        value: 'true',
+      });
+    });
+
+    it('should replace a relation whose target changes instead of patching it', async () => {
+      mockFetch.mockImplementation(async (request: Request) =>
+        request.method === 'DELETE' ? createMockResponse('', 204, 'text/plain') : createMockResponse({}, 201),
+      );
+
+      const mapper = new TriliumMapper<{ author: string }>({ author: '~author' });
+      const note = { noteId: 'note1', attributes: [{ attributeId: 'r1', noteId: 'note1', type: 'relation' as const, name: 'author', value: 'ann' }] };
+
+      const client = createTriliumClient(config);
+      await client.applyNoteDiff(mapper.diff(note, { author: 'bob' }));
+      // Relation updates in hand-built diffs are replaced too
+      await client.applyNoteDiff({
+        noteId: 'note1',
+        properties: {},
+        create: [],
+        update: [{ attributeId: 'r1', type: 'relation', name: 'author', value: 'cat' }],
+        delete: [],
+      });
+
+      const requests = mockFetch.mock.calls.map((call) => call[0] as Request);
+      expect(requests.map((r) => `${r.method} ${new URL(r.url).pathname}`)).toEqual([
+        'POST /etapi/attributes',
+        'DELETE /etapi/attributes/r1',
+        'POST /etapi/attributes',
+        'DELETE /etapi/attributes/r1',
+      ]);
+      expect(await requests[0]!.json()).toEqual({ noteId: 'note1', type: 'relation', name: 'author', value: 'bob' });
+      expect(await requests[2]!.json()).toEqual({ noteId: 'note1', type: 'relation', name: 'author', value: 'cat' });
+    });
+
+    it('should throw TriliumApiError when a request fails', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ status: 404, code: 'ATTRIBUTE_NOT_FOUND', message: 'Not found' }, 404));
+
+      const client = createTriliumClient(config);
+
+      await expect(
+        client.applyNoteDiff({
+          noteId: 'note1',
+          properties: {},
+          create: [],
+          update: [{ attributeId: 'missing', type: 'label', name: 'slug', value: 'x' }],
+          delete: [],
+        }),
+      ).rejects.toMatchObject({ code: 'ATTRIBUTE_NOT_FOUND', method: 'PATCH', path: '/attributes/{attributeId}' });
+    });
+  });
+
+  describe('repository', () => {
+    interface Post extends StandardNote {
+      slug: string;
+      published: boolean;
+    }
+
+    const postMapping = {
+      slug: { from: '#slug', required: true },
+      published: { from: '#published', transform: transforms.boolean, default: false },
+    };
+
+    const attr = (attributeId: string, name: string, value: string) =>
+      ({ attributeId, type: 'label', name, value });
+
+    const storedNote = (attributes: object[]) => ({
+      noteId: 'post1',
+      title: 'Hello',
+      utcDateCreated: '2024-01-01T00:00:00.000Z',
+      utcDateModified: '2024-01-02T00:00:00.000Z',
+      attributes,
+    });
+
+    function requestLog() {
+      return mockFetch.mock.calls.map((call) => {
+        const request = call[0] as Request;
+        return `${request.method} ${new URL(request.url).pathname}`;
+      });
+    }
+
+    it('should find all notes with the discriminator below the parent', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        results: [storedNote([attr('a1', 'blog', ''), attr('a2', 'slug', 'hello')]), { ...storedNote([]), noteId: 'bad' }],
+      }));
+
+      const onFailure = vi.fn();
+      const client = createTriliumClient(config);
+      const posts = client.repository<Post>({ parentNoteId: 'blogRoot', mapping: postMapping, discriminator: '#blog', onFailure });
+      const { data, failures } = await posts.findAll({ orderBy: 'dateCreated' });
+
+      const params = new URL((mockFetch.mock.calls[0]![0] as Request).url).searchParams;
+      expect(params.get('search')).toBe('#blog');
+      expect(params.get('ancestorNoteId')).toBe('blogRoot');
+      expect(params.get('orderBy')).toBe('dateCreated');
+      expect(data).toEqual([expect.objectContaining({ id: 'post1', slug: 'hello', published: false })]);
+      expect(failures).toHaveLength(1);
+      expect(onFailure).toHaveBeenCalledWith(expect.objectContaining({ noteId: 'bad' }));
+    });
+
+    it('should combine findOne queries with the discriminator', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [storedNote([attr('a1', 'blog', ''), attr('a2', 'slug', 'hello')])] }));
+
+      const client = createTriliumClient(config);
+      const posts = client.repository<Post>({ parentNoteId: 'blogRoot', mapping: postMapping, discriminator: '#blog' });
+      const post = await posts.findOne({ '#slug': 'hello' });
+
+      const params = new URL((mockFetch.mock.calls[0]![0] as Request).url).searchParams;
+      expect(params.get('search')).toBe("#blog AND (#slug = 'hello')");
+      expect(params.get('limit')).toBe('1');
+      expect(post?.slug).toBe('hello');
+    });
+
+    it('should return undefined from findOne when nothing matches', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [] }));
+
+      const client = createTriliumClient(config);
+      const posts = client.repository<Post>({ parentNoteId: 'blogRoot', mapping: postMapping, discriminator: '#blog' });
+
+      expect(await posts.findOne("#slug = 'missing'")).toBeUndefined();
+    });
+
+    it('should find by ID within the parent subtree', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ results: [storedNote([attr('a1', 'blog', ''), attr('a2', 'slug', 'hello')])] }))
+        .mockResolvedValueOnce(createMockResponse({ results: [] }));
+
+      const client = createTriliumClient(config);
+      const posts = client.repository<Post>({ parentNoteId: 'blogRoot', mapping: postMapping, discriminator: '#blog' });
+
+      expect(await posts.findById('post1')).toMatchObject({ id: 'post1', slug: 'hello' });
+      expect(await posts.findById('elsewhere')).toBeUndefined();
+
+      const params = new URL((mockFetch.mock.calls[1]![0] as Request).url).searchParams;
+      expect(params.get('search')).toBe("#blog AND (note.noteId = 'elsewhere')");
+      expect(params.get('ancestorNoteId')).toBe('blogRoot');
+      expect(params.get('includeArchivedNotes')).toBe('true');
+      expect(params.get('limit')).toBe('1');
+    });
+
+    it('should report mapping failures from findById', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [storedNote([attr('a1', 'blog', '')])] }));
+
+      const onFailure = vi.fn();
+      const client = createTriliumClient(config);
+      const posts = client.repository<Post>({ parentNoteId: 'blogRoot', mapping: postMapping, discriminator: '#blog', onFailure });
+
+      expect(await posts.findById('post1')).toBeUndefined();
+      expect(onFailure.mock.calls[0]![0]).toMatchObject({ noteId: 'post1', reason: expect.stringContaining("'slug'") });
+    });
+
+    it('should create the note with the discriminator and mapped attributes', async () => {
+      mockFetch.mockImplementation(async (request: Request) => {
+        const path = new URL(request.url).pathname;
+        if (path.endsWith('/create-note')) return createMockResponse({ note: { noteId: 'post1' } }, 201);
+        if (path.endsWith('/attributes')) return createMockResponse({}, 201);
+        return createMockResponse(storedNote([attr('a1', 'blog', ''), attr('a2', 'slug', 'hello'), attr('a3', 'published', 'true')]));
+      });
+
+      const client = createTriliumClient(config);
+      const posts = client.repository<Post>({ parentNoteId: 'blogRoot', mapping: postMapping, discriminator: '#blog' });
+      const post = await posts.create({ title: 'Hello', slug: 'hello', published: true }, { content: '<p>Hi</p>' });
+
+      expect(requestLog()).toEqual([
+        'POST /etapi/create-note',
+        'POST /etapi/attributes',
+        'POST /etapi/attributes',
+        'POST /etapi/attributes',
+        'GET /etapi/notes/post1',
+      ]);
+      const bodies = await Promise.all(mockFetch.mock.calls.slice(0, 4).map((call) => (call[0] as Request).json()));
+      expect(bodies[0]).toEqual({ parentNoteId: 'blogRoot', title: 'Hello', type: 'text', content: '<p>Hi</p>' });
+      expect(bodies.slice(1).map((b) => [b.name, b.value])).toEqual([['blog', ''], ['slug', 'hello'], ['published', 'true']]);
+      expect(post).toMatchObject({ id: 'post1', title: 'Hello', slug: 'hello', published: true });
+    });
+
+    it('should update only the changed fields', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse(storedNote([attr('a1', 'blog', ''), attr('a2', 'slug', 'hello')])))
+        .mockResolvedValueOnce(createMockResponse({}, 201))
+        .mockResolvedValueOnce(createMockResponse(storedNote([attr('a1', 'blog', ''), attr('a2', 'slug', 'hello'), attr('a3', 'published', 'true')])));
+
+      const client = createTriliumClient(config);
+      const posts = client.repository<Post>({ parentNoteId: 'blogRoot', mapping: postMapping, discriminator: '#blog' });
+      const post = await posts.update('post1', { slug: 'hello', published: true });
+
+      expect(requestLog()).toEqual(['GET /etapi/notes/post1', 'POST /etapi/attributes', 'GET /etapi/notes/post1']);
+      expect(post.published).toBe(true);
+    });
+
+    it('should skip writes when nothing changed', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(storedNote([attr('a1', 'blog', ''), attr('a2', 'slug', 'hello')])));
+
+      const client = createTriliumClient(config);
+      const posts = client.repository<Post>({ parentNoteId: 'blogRoot', mapping: postMapping, discriminator: '#blog' });
+      const post = await posts.update('post1', { title: 'Hello' });
+
+      expect(requestLog()).toEqual(['GET /etapi/notes/post1']);
+      expect(post.slug).toBe('hello');
+    });
+
+    it('should delete notes and surface errors', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse('', 204, 'text/plain'))
+        .mockResolvedValueOnce(createMockResponse({ status: 404, code: 'NOTE_NOT_FOUND', message: 'Not found' }, 404));
+
+      const client = createTriliumClient(config);
+      const posts = client.repository<Post>({ parentNoteId: 'blogRoot', mapping: postMapping, discriminator: '#blog' });
+
+      await posts.delete('post1');
+      expect(requestLog()).toEqual(['DELETE /etapi/notes/post1']);
+      await expect(posts.delete('missing')).rejects.toMatchObject({ code: 'NOTE_NOT_FOUND', method: 'DELETE' });
+    });
+  });
+
+  describe('tree', () => {
+    // root > (a > shared, b > shared); 'shared' is cloned under a and b
+    const notes: Record<string, object> = {
+      root: { noteId: 'root', title: 'root', childBranchIds: ['root_b', 'root_a'] },
+      a: { noteId: 'a', title: 'A', childBranchIds: ['a_shared'] },
+      b: { noteId: 'b', title: 'B', childBranchIds: ['b_shared', 'b_gone'] },
+      shared: { noteId: 'shared', title: 'Shared', childBranchIds: [] },
+    };
+    const branches: Record<string, object> = {
+      root_a: { branchId: 'root_a', noteId: 'a', parentNoteId: 'root', notePosition: 10 },
+      root_b: { branchId: 'root_b', noteId: 'b', parentNoteId: 'root', notePosition: 20 },
+      a_shared: { branchId: 'a_shared', noteId: 'shared', parentNoteId: 'a', notePosition: 10, prefix: 'clone' },
+      b_shared: { branchId: 'b_shared', noteId: 'shared', parentNoteId: 'b', notePosition: 10 },
+    };
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(async (request: Request) => {
+        const [, , kind, id] = new URL(request.url).pathname.split('/');
+        const found = (kind === 'branches' ? branches : notes)[id!];
+        return found ? createMockResponse(found) : createMockResponse({ status: 404, code: 'NOT_FOUND', message: 'Not found' }, 404);
+      });
+    });
+
+    it('should walk the tree in branch order, yielding clones once', async () => {
+      const client = createTriliumClient(config);
+      const entries: string[] = [];
+      for await (const { note, branch, depth } of client.tree.walk('root')) {
+        entries.push(`${note.noteId}@${depth}${branch?.prefix ? ` (${branch.prefix})` : ''}`);
+      }
+
+      expect(entries).toEqual(['root@0', 'a@1', 'shared@2 (clone)', 'b@1']);
+    });
+
+    it('should load the subtree into memory', async () => {
+      const client = createTriliumClient(config);
+      const tree = await client.tree.loadSubtree('root', { maxDepth: 1 });
+
+      expect(tree.note.title).toBe('root');
+      expect(tree.children.map((child) => [child.note.title, child.children.length])).toEqual([['A', 0], ['B', 0]]);
+    });
+
+    it('should throw when the root note is missing', async () => {
+      const client = createTriliumClient(config);
+      await expect(client.tree.loadSubtree('missing')).rejects.toBeInstanceOf(TriliumApiError);
+    });
+  });
+
+  describe('paths', () => {
+    // root > Projects > Acme > Meeting Notes, with Meeting Notes cloned under root as '2024 - Meeting Notes'
+    const notes: Record<string, object> = {
+      root: { noteId: 'root', title: 'root', parentBranchIds: ['none_root'], childBranchIds: ['root_projects', 'root_meeting'] },
+      projects: { noteId: 'projects', title: 'Projects', parentBranchIds: ['root_projects'], childBranchIds: ['projects_acme'] },
+      acme: { noteId: 'acme', title: 'Acme', parentBranchIds: ['projects_acme'], childBranchIds: ['acme_meeting'] },
+      meeting: { noteId: 'meeting', title: 'Meeting Notes', parentBranchIds: ['acme_meeting', 'root_meeting'], childBranchIds: [] },
+    };
+    const branches: Record<string, object> = {
+      none_root: { branchId: 'none_root', noteId: 'root', parentNoteId: 'none' },
+      root_projects: { branchId: 'root_projects', noteId: 'projects', parentNoteId: 'root', notePosition: 10 },
+      root_meeting: { branchId: 'root_meeting', noteId: 'meeting', parentNoteId: 'root', notePosition: 20, prefix: '2024' },
+      projects_acme: { branchId: 'projects_acme', noteId: 'acme', parentNoteId: 'projects', notePosition: 10 },
+      acme_meeting: { branchId: 'acme_meeting', noteId: 'meeting', parentNoteId: 'acme', notePosition: 10 },
+    };
+    const created: { parentNoteId: string; title: string }[] = [];
+
+    beforeEach(() => {
+      created.length = 0;
+      mockFetch.mockImplementation(async (request: Request) => {
+        const [, , kind, id] = new URL(request.url).pathname.split('/');
+        if (kind === 'create-note') {
+          const body = await request.json() as { parentNoteId: string; title: string };
+          created.push(body);
+          return createMockResponse({ note: { noteId: `new${created.length}`, title: body.title }, branch: {} }, 201);
+        }
+        const found = (kind === 'branches' ? branches : notes)[id!];
+        return found ? createMockResponse(found) : createMockResponse({ status: 404, code: 'NOT_FOUND', message: 'Not found' }, 404);
+      });
+    });
+
+    it('should resolve title paths, including prefixed titles', async () => {
+      const client = createTriliumClient(config);
+
+      expect(await client.paths.resolve('Projects/Acme/Meeting Notes')).toBe('meeting');
+      expect(await client.paths.resolve('2024 - Meeting Notes')).toBe('meeting');
+      expect(await client.paths.resolve('Acme/Meeting Notes', { root: 'projects' })).toBe('meeting');
+      expect(await client.paths.resolve('Projects/Other')).toBeUndefined();
+      expect(await client.paths.resolve('')).toBe('root');
+    });
+
+    it('should list every path of a cloned note', async () => {
+      const client = createTriliumClient(config);
+      const paths = await client.paths.of('meeting');
+
+      expect(paths.map(({ path, notePath }) => [path, notePath])).toEqual([
+        ['Projects/Acme/Meeting Notes', 'root/projects/acme/meeting'],
+        ['Meeting Notes', 'root/meeting'],
+      ]);
+      expect(paths[1]!.segments).toEqual([{ noteId: 'meeting', title: 'Meeting Notes', branchId: 'root_meeting', prefix: '2024' }]);
+      expect((await client.paths.of('meeting', { root: 'projects' })).map(({ path }) => path)).toEqual(['Acme/Meeting Notes']);
+    });
+
+    it('should create the missing notes of a path', async () => {
+      const client = createTriliumClient(config);
+      const noteId = await client.paths.ensure('Projects/Acme/Minutes/March');
+
+      expect(noteId).toBe('new2');
+      expect(created.map(({ parentNoteId, title }) => `${parentNoteId}>${title}`)).toEqual(['acme>Minutes', 'new1>March']);
+      expect(await client.paths.ensure('Projects/Acme')).toBe('acme');
+      expect(created).toHaveLength(2);
+    });
+  });
+
+  describe('notes', () => {
+    // inbox > (a, b, c); b is also cloned under archive
+    const notes: Record<string, object> = {
+      inbox: { noteId: 'inbox', childBranchIds: ['inbox_a', 'inbox_b', 'inbox_c'] },
+      archive: { noteId: 'archive', childBranchIds: ['archive_x', 'archive_b'] },
+      a: { noteId: 'a', parentBranchIds: ['inbox_a'] },
+      b: { noteId: 'b', parentBranchIds: ['inbox_b', 'archive_b'] },
+      c: { noteId: 'c', parentBranchIds: ['inbox_c'] },
+    };
+    const branches: Record<string, object> = {
+      inbox_a: { branchId: 'inbox_a', noteId: 'a', parentNoteId: 'inbox', notePosition: 10, prefix: 'todo' },
+      inbox_b: { branchId: 'inbox_b', noteId: 'b', parentNoteId: 'inbox', notePosition: 20 },
+      inbox_c: { branchId: 'inbox_c', noteId: 'c', parentNoteId: 'inbox', notePosition: 30 },
+      archive_x: { branchId: 'archive_x', noteId: 'x', parentNoteId: 'archive', notePosition: 10 },
+      archive_b: { branchId: 'archive_b', noteId: 'b', parentNoteId: 'archive', notePosition: 11 },
+      archive_a: { branchId: 'archive_a', noteId: 'a', parentNoteId: 'archive', notePosition: 20, prefix: 'todo' },
+    };
+    const bodies: unknown[] = [];
+
+    function requestLog() {
+      return mockFetch.mock.calls
+        .map((call) => call[0] as Request)
+        .filter((request) => request.method !== 'GET')
+        .map((request) => `${request.method} ${new URL(request.url).pathname}`);
+    }
+
+    beforeEach(() => {
+      bodies.length = 0;
+      mockFetch.mockImplementation(async (request: Request) => {
+        const [, , kind, id] = new URL(request.url).pathname.split('/');
+        if (request.method === 'POST' && kind === 'branches') {
+          const body = await request.json() as { noteId: string; parentNoteId: string };
+          bodies.push(body);
+          return createMockResponse({ ...branches[`${body.parentNoteId}_${body.noteId}`], ...body }, 201);
+        }
+        if (request.method === 'PATCH') {
+          bodies.push(await request.json());
+          return createMockResponse({ ...branches[id!] });
+        }
+        if (request.method !== 'GET') return createMockResponse('', 204, 'text/plain');
+
+        const found = (kind === 'branches' ? branches : notes)[id!];
+        return found ? createMockResponse(found) : createMockResponse({ status: 404, code: 'NOT_FOUND', message: 'Not found' }, 404);
+      });
+    });
+
+    it('should move a note by creating the new branch before deleting the old one', async () => {
+      const client = createTriliumClient(config);
+      const branch = await client.notes.move('a', 'inbox', 'archive');
+
+      expect(requestLog()).toEqual(['POST /etapi/branches', 'DELETE /etapi/branches/inbox_a']);
+      expect(bodies).toEqual([{ noteId: 'a', parentNoteId: 'archive', prefix: 'todo' }]);
+      expect(branch.branchId).toBe('archive_a');
+    });
+
+    it('should place a moved note at a position, renumbering when there is no gap', async () => {
+      const client = createTriliumClient(config);
+      const branch = await client.notes.move('a', 'inbox', 'archive', { position: 1, prefix: '' });
+
+      expect(requestLog()).toEqual([
+        'POST /etapi/branches',
+        'DELETE /etapi/branches/inbox_a',
+        'PATCH /etapi/branches/archive_b',
+        'POST /etapi/refresh-note-ordering/archive',
+      ]);
+      // The new branch already sits at 20; the sibling after it is pushed back
+      expect(bodies.slice(1)).toEqual([{ notePosition: 30 }]);
+      expect(branch.notePosition).toBe(20);
+    });
+
+    it('should clone a note with a prefix', async () => {
+      const client = createTriliumClient(config);
+      await client.notes.clone('c', 'archive', { prefix: 'old' });
+
+      expect(requestLog()).toEqual(['POST /etapi/branches']);
+      expect(bodies).toEqual([{ noteId: 'c', parentNoteId: 'archive', prefix: 'old' }]);
+    });
+
+    it('should reorder children, updating only moved branches', async () => {
+      const client = createTriliumClient(config);
+      await client.notes.reorder('inbox', ['c']);
+
+      expect(requestLog()).toEqual([
+        'PATCH /etapi/branches/inbox_c',
+        'PATCH /etapi/branches/inbox_a',
+        'PATCH /etapi/branches/inbox_b',
+        'POST /etapi/refresh-note-ordering/inbox',
+      ]);
+      expect(bodies).toEqual([{ notePosition: 10 }, { notePosition: 20 }, { notePosition: 30 }]);
+
+      mockFetch.mockClear();
+      await client.notes.reorder('inbox', ['a', 'b']);
+      expect(requestLog()).toEqual([]);
+    });
+
+    it('should refuse notes that are not children', async () => {
+      const client = createTriliumClient(config);
+
+      await expect(client.notes.reorder('inbox', ['x'])).rejects.toMatchObject({ name: 'TriliumBranchError', reason: 'not-child' });
+      await expect(client.notes.move('c', 'archive', 'inbox')).rejects.toMatchObject({ reason: 'not-child', noteId: 'c', parentNoteId: 'archive' });
+    });
+
+    it('should detach clones but refuse the last branch unless forced', async () => {
+      const client = createTriliumClient(config);
+
+      await client.notes.detach('b', 'archive');
+      expect(requestLog()).toEqual(['DELETE /etapi/branches/archive_b']);
+
+      await expect(client.notes.detach('c', 'inbox')).rejects.toMatchObject({ reason: 'last-branch' });
+      expect(requestLog()).toHaveLength(1);
+
+      await client.notes.detach('c', 'inbox', { force: true });
+      expect(requestLog()).toEqual(['DELETE /etapi/branches/archive_b', 'DELETE /etapi/branches/inbox_c']);
+    });
+  });
+
+  describe('attributes', () => {
+    const attr = (attributeId: string, noteId: string, name: string, value: string) =>
+      ({ attributeId, noteId, type: 'label', name, value, position: 0, isInheritable: false });
+    const notes: Record<string, object> = {
+      n1: { noteId: 'n1', title: 'One', utcDateCreated: '2024-01-01', attributes: [attr('a1', 'n1', 'status', 'draft'), attr('a2', 'n1', 'tag', 'js')] },
+      n2: { noteId: 'n2', title: 'Two', utcDateCreated: '2024-01-02', attributes: [attr('a3', 'n2', 'tag', 'js'), attr('a4', 'n2', 'tag', 'javascript')] },
+      n3: { noteId: 'n3', title: 'Three', utcDateCreated: '2024-01-03', attributes: [attr('a5', 'n3', 'tag', 'js')] },
+    };
+    const bodies: unknown[] = [];
+
+    function requestLog() {
+      return mockFetch.mock.calls
+        .map((call) => call[0] as Request)
+        .filter((request) => request.method !== 'GET')
+        .map((request) => `${request.method} ${new URL(request.url).pathname}`);
+    }
+
+    beforeEach(() => {
+      bodies.length = 0;
+      mockFetch.mockImplementation(async (request: Request) => {
+        const [, , kind, id] = new URL(request.url).pathname.split('/');
+        if (request.method === 'GET') {
+          if (kind === 'notes' && !id) return createMockResponse({ results: Object.values(notes) });
+          return createMockResponse(notes[id!]);
+        }
+        if (request.method === 'POST') {
+          const body = await request.json() as { noteId: string };
+          bodies.push(body);
+          return body.noteId === 'n3'
+            ? createMockResponse({ status: 500, code: 'INTERNAL', message: 'Boom' }, 500)
+            : createMockResponse({ attributeId: 'new', ...body }, 201);
+        }
+        if (request.method === 'PATCH') bodies.push(await request.json());
+        return request.method === 'PATCH' ? createMockResponse({}) : createMockResponse('', 204, 'text/plain');
+      });
+    });
+
+    it('should update an existing label or create a missing one', async () => {
+      const client = createTriliumClient(config);
+
+      await client.attributes.setLabel('n1', 'status', 'done');
+      await client.attributes.setLabel('n1', 'archived');
+      expect(requestLog()).toEqual(['PATCH /etapi/attributes/a1', 'POST /etapi/attributes']);
+      expect(bodies).toEqual([{ value: 'done' }, { noteId: 'n1', type: 'label', name: 'archived', value: '' }]);
+    });
+
+    it('should skip requests when nothing changes', async () => {
+      const client = createTriliumClient(config);
+
+      const diff = await client.attributes.addLabel('n2', 'tag', 'js');
+      await client.attributes.removeLabel('n1', 'missing');
+      expect(requestLog()).toEqual([]);
+      expect(diff).toEqual({ noteId: 'n2', properties: {}, create: [], update: [], delete: [] });
+    });
+
+    it('should remove labels and set relations', async () => {
+      const client = createTriliumClient(config);
+
+      await client.attributes.removeLabel('n2', 'tag', { all: true });
+      await client.attributes.setRelation('n1', 'author', 'jane', { isInheritable: true });
+      expect(requestLog()).toEqual(['DELETE /etapi/attributes/a3', 'DELETE /etapi/attributes/a4', 'POST /etapi/attributes']);
+      expect(bodies).toEqual([{ noteId: 'n1', type: 'relation', name: 'author', value: 'jane', isInheritable: true }]);
+    });
+
+    const retag = [
+      { op: 'remove', type: 'label', name: 'tag', value: 'js' },
+      { op: 'add', type: 'label', name: 'tag', value: 'javascript' },
+    ] as const;
+
+    it('should report planned changes in a dry run without writing', async () => {
+      const client = createTriliumClient(config);
+      const report = await client.attributes.bulk({ '#tag': 'js' }, [...retag], { dryRun: true });
+
+      expect(requestLog()).toEqual([]);
+      expect(report.dryRun).toBe(true);
+      expect(report.matched).toBe(3);
+      expect(report.failures).toEqual([]);
+      expect(report.changed.map(({ noteTitle, create, delete: deleted }) => [noteTitle, create.length, deleted.length])).toEqual([
+        ['One', 1, 1],
+        ['Two', 0, 1],
+        ['Three', 1, 1],
+      ]);
+    });
+
+    it('should apply changes to every match and report failed notes', async () => {
+      const client = createTriliumClient(config);
+      const report = await client.attributes.bulk('#tag=js', [...retag], { concurrency: 1 });
+
+      expect(report.changed.map((diff) => diff.noteId)).toEqual(['n1', 'n2']);
+      expect(report.failures).toEqual([expect.objectContaining({ noteId: 'n3', noteTitle: 'Three', reason: expect.stringContaining('Boom') })]);
+      expect(report.failures[0]!.error).toBeInstanceOf(TriliumApiError);
+      expect(requestLog()).toEqual([
+        'POST /etapi/attributes',
+        'DELETE /etapi/attributes/a2',
+        'DELETE /etapi/attributes/a3',
+        'POST /etapi/attributes',
+      ]);
+    });
+
+    it('should replace changed relations instead of patching them', async () => {
+      const reviewed = {
+        noteId: 'n4', title: 'Four', utcDateCreated: '2024-01-04',
+        attributes: [{ attributeId: 'r1', noteId: 'n4', type: 'relation', name: 'reviewer', value: 'ann', position: 0, isInheritable: true }],
+      };
+      const fallback = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation(async (request: Request) =>
+        request.method === 'GET' ? createMockResponse({ results: [reviewed] }) : fallback(request));
+
+      const client = createTriliumClient(config);
+      const report = await client.attributes.bulk('~reviewer=ann', [{ op: 'set', type: 'relation', name: 'reviewer', value: 'bob' }]);
+
+      expect(report.failures).toEqual([]);
+      expect(requestLog()).toEqual(['POST /etapi/attributes', 'DELETE /etapi/attributes/r1']);
+      expect(bodies).toEqual([{ noteId: 'n4', type: 'relation', name: 'reviewer', value: 'bob', isInheritable: true }]);
+    });
+
+    it('should collect every page of matches before changing notes', async () => {
+      const pages = [[notes.n1, notes.n2], [notes.n3]];
+      const fallback = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation(async (request: Request) =>
+        request.method === 'GET' ? createMockResponse({ results: pages.shift() ?? [] }) : fallback(request));
+
+      const client = createTriliumClient(config);
+      const report = await client.attributes.bulk('#tag=js', [...retag], { pageSize: 2, concurrency: 1 });
+
+      const log = mockFetch.mock.calls.map((call) => (call[0] as Request).method);
+      expect(log.slice(0, 2)).toEqual(['GET', 'GET']);
+      expect(log.slice(2)).not.toContain('GET');
+      expect(report.matched).toBe(3);
+    });
+
+    it('should reject with the abort reason without leaving unhandled rejections', async () => {
+      const controller = new AbortController();
+      const pages = [[notes.n1, notes.n2]];
+      const fallback = mockFetch.getMockImplementation()!;
+      mockFetch.mockImplementation(async (request: Request) => {
+        if (request.method !== 'GET') return fallback(request);
+        const page = pages.shift();
+        if (page) return createMockResponse({ results: page });
+        // Abort while the second page loads
+        controller.abort();
+        throw controller.signal.reason;
+      });
+
+      const client = createTriliumClient(config);
+      const pending = client.attributes.bulk('#tag=js', [...retag], { pageSize: 2, concurrency: 1, signal: controller.signal });
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+      expect(requestLog()).toEqual([]);
+    });
   });
 });
@@ -5,9 +5,21 @@
  * Types are auto-generated from the OpenAPI specification.
  */
 
-import createClient, { type Client } from 'openapi-fetch';
+import createClient, { type Client, type Middleware } from 'openapi-fetch';
 import type { paths, components } from './generated/trilium.js';
-import { TriliumMapper, buildSearchQuery, StandardNoteMapping, type MappingConfig, type TriliumSearchHelpers, type StandardNote, type CustomMapping } from './mapper.js';
+import { TriliumApiError, createTriliumApiError, createTriliumNetworkError } from './errors.js';
+import { createRetryMiddleware, type RetryOptions } from './retry.js';
+import { createTimeoutMiddleware, type RequestControlOptions } from './timeout.js';
+import { RateLimiter, createRateLimitedFetch, type RateLimitOptions } from './rate-limit.js';
+import { TokenManager, createAuthMiddleware, type TokenProvider } from './auth.js';
+import { SearchBuilder, type SearchBuilderOptions } from './search-builder.js';
+import type { StandardSchemaV1 } from './schema.js';
+import { resolveInheritedAttributes } from './inheritance.js';
+import { walkTree, loadTree, type ChildEntry, type TreeEntry, type TreeNode, type TreeWalkOptions } from './tree.js';
+import { hasChanges, planAttributeChanges, type AttributeChange, type RemoveAttributeOptions, type SetAttributeOptions } from './attributes.js';
+import { TriliumBranchError, planInsertion, planPositions, sortBranches, type DetachNoteOptions, type NotePositionUpdate, type PlaceNoteOptions } from './branches.js';
+import { ROOT_NOTE_ID, findChild, formatNotePath, parseNotePath, type EnsurePathOptions, type NotePath, type NotePathOptions, type NotePathSegment } from './paths.js';
+import { TriliumMapper, TriliumMappingError, buildSearchQuery, combineSearchQueries, StandardNoteMapping, type NoteDiff, type MappedAttribute, type MappedObjectPatch, type NoteWithContent, type NoteWithBranch, type ChildrenQuery, type ResolvedRelations, type MappingFieldError, type MappingConfig, type TriliumSearchHelpers, type StandardNote, type CustomMapping } from './mapper.js';
 
 // Re-export common types for convenience
 export type TriliumNote = components['schemas']['Note'];
@@ -23,22 +35,188 @@ export type { paths, components };
 export {
   TriliumMapper,
   buildSearchQuery,
+  raw,
+  quoteSearchString,
+  RawSearchFragment,
   transforms,
   StandardNoteMapping,
   type StandardNote,
   type CustomMapping,
   type MappingConfig,
   type TriliumSearchHelpers,
+  type NoteDiff,
+  type MappedNoteData,
+  type MappedObjectPatch,
+  type MappedAttribute,
+  type WritableNoteProperties,
+  TriliumMappingError,
+  type MappingFieldError,
+  type TriliumMapperOptions,
+  type MapAsyncOptions,
+  type RelationLoader,
+  type ResolveOptions,
+  type ResolvedRelations,
+  type NoteWithContent,
+  type NoteWithBranch,
+  type ChildrenLoader,
+  type ChildrenQuery,
+  type LoadedChildren,
 } from './mapper.js';
 
-export interface TriliumClientConfig {
+// Re-export attribute inheritance
+export { resolveInheritedAttributes, ownedAttributes, type NoteLoader, type InheritanceOptions } from './inheritance.js';
+
+// Re-export tree traversal
+export { walkTree, loadTree, type TreeEntry, type TreeNode, type TreeWalkOptions, type ChildEntry, type ChildEntryLoader } from './tree.js';
+
+// Re-export note paths
+export {
+  TriliumPathError,
+  parseNotePath,
+  formatNotePath,
+  type NotePath,
+  type NotePathSegment,
+  type NotePathOptions,
+  type EnsurePathOptions,
+} from './paths.js';
+
+// Re-export branch management
+export { TriliumBranchError, type PlaceNoteOptions, type DetachNoteOptions } from './branches.js';
+
+// Re-export attribute changes
+export {
+  planAttributeChanges,
+  hasChanges,
+  type AttributeChange,
+  type SetAttributeOptions,
+  type RemoveAttributeOptions,
+} from './attributes.js';
+
+// Re-export schema validation types
+export type { StandardSchemaV1 } from './schema.js';
+
+// Re-export content conversion
+export { htmlToText, htmlToMarkdown, type ContentFormat } from './content.js';
+
+// Re-export search parser and fluent builder
+export { parseSearchQuery, TriliumSearchParseError } from './search-parser.js';
+export {
+  search,
+  SearchBuilder,
+  type SearchBuilderOptions,
+  type SearchBuilderValue,
+  type SearchBuilderGroup,
+} from './search-builder.js';
+
+// Re-export error types
+export {
+  TriliumApiError,
+  TriliumNetworkError,
+  TriliumResponseParseError,
+  TriliumTimeoutError,
+  type TriliumErrorBody,
+  type TriliumRequestInfo,
+} from './errors.js';
+
+// Re-export retry types
+export { type RetryOptions, type RetryInfo } from './retry.js';
+export { type RequestControlOptions } from './timeout.js';
+export { RateLimiter, type RateLimitOptions, type RateLimiterStats } from './rate-limit.js';
+export { type TokenProvider } from './auth.js';
+
+/** Options shared by all authentication modes */
+export interface TriliumClientBaseConfig {
   baseUrl: string;
-  apiKey: string;
+  /**
+   * Optional: throw a TriliumApiError for error responses instead of returning `{ error }`.
+   * Network failures always throw a TriliumNetworkError.
+   */
+  throwOnError?: boolean;
+  /**
+   * Optional: retry transient failures (network errors, 429/5xx) with exponential backoff.
+   * Pass `true` for defaults. Only idempotent methods are retried unless configured otherwise.
+   */
+  retry?: boolean | RetryOptions;
+  /**
+   * Optional: default timeout in milliseconds for every request to respond, including
+   * retries. Override per call with the `timeoutMs` option (0 disables it).
+   * Timed out requests throw a TriliumTimeoutError.
+   */
+  timeoutMs?: number;
+  /**
+   * Optional: limit request rate and concurrency across all verbs and helpers.
+   * Queued requests are paused when the server answers 429 with a Retry-After header.
+   */
+  rateLimit?: RateLimitOptions;
+}
+
+/**
+ * Client configuration. Authenticate with exactly one of:
+ * - `apiKey`: a pre-made ETAPI token
+ * - `password`: logs in via `/auth/login` on first use and caches the token
+ * - `getToken`: a custom (possibly async) token provider
+ *
+ * With `password` or `getToken`, a 401 response triggers one re-authentication and retry.
+ */
+export type TriliumClientConfig = TriliumClientBaseConfig &
+  (
+    | { apiKey: string; password?: never; getToken?: never }
+    | { password: string; apiKey?: never; getToken?: never }
+    | { getToken: TokenProvider; apiKey?: never; password?: never }
+  );
+
+/** Options that restrict which notes a search considers */
+export interface SearchScopeOptions {
+  /** Optional: search only in the subtree of this note (default: whole tree) */
+  ancestorNoteId?: string;
+  /** Optional: how deep below `ancestorNoteId` to search (e.g., 'eq1' for direct children, 'lt4') */
+  ancestorDepth?: string;
+  /** Optional: include archived notes, which are ignored by default */
+  includeArchivedNotes?: boolean;
+}
+
+/** Options for fetching note content for 'note.content' fields */
+export interface NoteContentOptions {
+  /** Optional: maximum number of content requests in flight (default: 4) */
+  contentConcurrency?: number;
+  /**
+   * Optional: rewrites fetched content before it is mapped (e.g., to make image URLs absolute).
+   * Runs before the `as` conversion.
+   */
+  contentTransform?: (content: string, note: TriliumNote) => string | Promise<string>;
+}
+
+/** Options shared by every helper that maps notes */
+export interface MappingBehaviourOptions<T extends StandardNote> {
+  /**
+   * Optional: maximum number of relation hops followed by `resolve` fields (default: 3).
+   * Targets are fetched together, one level at a time, and each note is fetched once
+   * per call (per iteration for iterators).
+   */
+  resolveDepth?: number;
+  /**
+   * Optional: map effective attributes, including those inherited from parents
+   * (inheritable attributes) and from `~template` / `~inherit` targets.
+   * Ancestors are fetched together, and each note is fetched once per call
+   * (per iteration for iterators).
+   */
+  inheritance?: boolean;
+  /** Optional: report values a transform can't convert (e.g., `transforms.number('abc')`) as failures */
+  strict?: boolean;
+  /**
+   * Optional: a Standard Schema validator (Zod, Valibot, ArkType, ...) for the mapped objects.
+   * Notes failing validation are reported as failures with 'schema' errors.
+   * Fields the schema doesn't declare (e.g., the StandardNote fields) are kept.
+   */
+  schema?: StandardSchemaV1<unknown, Partial<T>>;
 }
 
-export interface SearchAndMapOptions<T extends StandardNote> {
-  /** Search query - either a string or structured search helpers */
-  query: string | TriliumSearchHelpers;
+export interface SearchAndMapOptions<T extends StandardNote> extends RequestControlOptions, SearchScopeOptions, NoteContentOptions, MappingBehaviourOptions<T> {
+  /**
+   * Search query - a string, structured search helpers, or a search() builder.
+   * A builder's orderBy/limit/fastSearch are used unless given as options here.
+   */
+  query: string | TriliumSearchHelpers | SearchBuilder;
   /** 
    * Mapping configuration for your custom fields only.
    * StandardNoteMapping (id, title, dates) is automatically merged.
@@ -52,6 +230,48 @@ export interface SearchAndMapOptions<T extends StandardNote> {
   orderDirection?: 'asc' | 'desc';
   /** Optional: fast search mode (less accurate but faster) */
   fastSearch?: boolean;
+  /** Optional: return Trilium's query parsing details as `debugInfo` */
+  debug?: boolean;
+  /** Optional: maximum number of notes mapped at the same time with async transforms (default: 4) */
+  mapConcurrency?: number;
+}
+
+/** The mapped type of a searchAndMap call with a schema: StandardNote plus the schema's output */
+export type SchemaNote<S extends StandardSchemaV1> = StandardNote & StandardSchemaV1.InferOutput<S>;
+
+/** Note properties usable as a stable pagination key */
+export type SearchIteratorOrderBy = 'utcDateCreated' | 'utcDateModified' | 'dateCreated' | 'dateModified' | 'noteId';
+
+export interface SearchIteratorOptions extends RequestControlOptions, SearchScopeOptions {
+  /** Optional: number of notes fetched per request (default: 100) */
+  pageSize?: number;
+  /**
+   * Optional: note property used to walk pages (default: 'utcDateCreated').
+   * Prefer a value that doesn't change during iteration - notes modified while
+   * iterating by 'utcDateModified' can be yielded again.
+   */
+  orderBy?: SearchIteratorOrderBy;
+  /** Optional: order direction (default: 'asc') */
+  orderDirection?: 'asc' | 'desc';
+  /** Optional: stop after this many notes (default: all matches) */
+  limit?: number;
+  /** Optional: fast search mode (less accurate but faster) */
+  fastSearch?: boolean;
+}
+
+export interface SearchAndMapIteratorOptions<T extends StandardNote> extends SearchIteratorOptions, NoteContentOptions, MappingBehaviourOptions<T> {
+  /**
+   * Search query - a string, structured search helpers, or a search() builder.
+   * A builder's orderBy/limit/fastSearch are used unless given as options here.
+   */
+  query: string | TriliumSearchHelpers | SearchBuilder;
+  /**
+   * Mapping configuration for your custom fields only.
+   * StandardNoteMapping (id, title, dates) is automatically merged.
+   */
+  mapping: CustomMapping<T>;
+  /** Optional: called for each note that fails to map (failed notes are skipped) */
+  onFailure?: (failure: MappingFailure) => void;
 }
 
 /** Details about a note that failed to map */
@@ -62,24 +282,145 @@ export interface MappingFailure {
   noteTitle: string;
   /** The error message explaining why mapping failed */
   reason: string;
+  /** The first field that failed to map, if known */
+  field?: string;
+  /** Every field that failed to map (empty if the note failed for another reason, e.g., loading content) */
+  errors: MappingFieldError[];
   /** The original note object */
   note: TriliumNote;
 }
 
+/** Options for attributes.bulk() */
+export interface BulkAttributeOptions extends SearchIteratorOptions {
+  /** Optional: plan the changes and report them without applying them */
+  dryRun?: boolean;
+  /** Optional: maximum number of notes changed at the same time (default: 4) */
+  concurrency?: number;
+}
+
+/** A note that attributes.bulk() failed to change */
+export interface BulkAttributeFailure {
+  noteId: string;
+  noteTitle: string;
+  /** The error message */
+  reason: string;
+  /** The error thrown (usually a TriliumApiError) */
+  error: unknown;
+}
+
+/** The outcome of attributes.bulk() */
+export interface BulkAttributeReport {
+  /** Whether the changes were only planned */
+  dryRun: boolean;
+  /** Number of notes matching the query */
+  matched: number;
+  /** The changes of each note that changes (planned in a dry run, applied otherwise), in search order */
+  changed: (NoteDiff & { noteTitle: string })[];
+  /** Notes whose changes failed; the other notes are still changed */
+  failures: BulkAttributeFailure[];
+}
+
 export interface SearchAndMapResult<T extends StandardNote> {
   /** Mapped results as typed objects */
   data: T[];
   /** Notes that failed to map (e.g., missing required fields) */
   failures: MappingFailure[];
+  /** Query parsing details, present when the `debug` option is set */
+  debugInfo?: Record<string, unknown>;
+}
+
+/** Search options accepted by NoteRepository reads */
+export type NoteRepositoryFindOptions = Pick<
+  SearchAndMapOptions<StandardNote>,
+  'limit' | 'orderBy' | 'orderDirection' | 'fastSearch' | 'includeArchivedNotes' | 'ancestorDepth' | 'resolveDepth' | 'inheritance' | 'signal' | 'timeoutMs'
+>;
+
+/** Fields accepted when creating a note through a NoteRepository (server-assigned fields excluded) */
+export type NoteRepositoryInput<T extends StandardNote> = Omit<T, 'id' | 'dateCreatedUtc' | 'dateLastModifiedUtc'>;
+
+export interface NoteRepositoryOptions<T extends StandardNote> extends NoteContentOptions, MappingBehaviourOptions<T> {
+  /**
+   * Note under which new notes are created; reads (including findById) are scoped to its subtree.
+   * update() and delete() act on the note with the given ID wherever it is.
+   */
+  parentNoteId: string;
+  /**
+   * Mapping configuration for your custom fields only.
+   * StandardNoteMapping (id, title, dates) is automatically merged.
+   */
+  mapping: CustomMapping<T>;
+  /** Label identifying notes of this type (e.g., '#blog'). Set on create and required by every read. */
+  discriminator: `#${string}`;
+  /** Optional: called for each note that fails to map (failed notes are skipped) */
+  onFailure?: (failure: MappingFailure) => void;
+}
+
+/** Typed CRUD access to notes of one kind, created with `client.repository()` */
+export interface NoteRepository<T extends StandardNote> {
+  /**
+   * Finds all notes with the discriminator label below the parent note
+   * @returns Mapped notes and the notes that failed to map
+   */
+  findAll(options?: NoteRepositoryFindOptions): Promise<SearchAndMapResult<T>>;
+
+  /**
+   * Finds a note by ID, if it is below the parent note
+   * @returns The mapped note, or undefined if it doesn't exist, is outside the parent's subtree, lacks the discriminator or fails to map
+   */
+  findById(id: string, options?: RequestControlOptions): Promise<T | undefined>;
+
+  /**
+   * Finds the first note matching a query (combined with the discriminator)
+   * @returns The mapped note, or undefined if none matches or it fails to map
+   */
+  findOne(query: string | TriliumSearchHelpers | SearchBuilder, options?: NoteRepositoryFindOptions): Promise<T | undefined>;
+
+  /**
+   * Creates a note under the parent with the discriminator label and the mapped labels/relations
+   * @param obj - The fields to write (title and mapped attributes)
+   * @param options - Optional: note content (default: empty) and request control
+   * @returns The created note, mapped
+   */
+  create(obj: NoteRepositoryInput<T>, options?: RequestControlOptions & { content?: string }): Promise<T>;
+
+  /**
+   * Writes the given fields to a note. Fields set to undefined or null delete their attribute.
+   * @returns The updated note, mapped
+   */
+  update(id: string, partial: MappedObjectPatch<NoteRepositoryInput<T>>, options?: RequestControlOptions): Promise<T>;
+
+  /** Deletes a note */
+  delete(id: string, options?: RequestControlOptions): Promise<void>;
 }
 
 /** Extended Trilium client with search and map helper */
 export interface TriliumClient extends Client<paths> {
+  /**
+   * Search notes and map results to objects validated by a Standard Schema (Zod, Valibot, ...).
+   * The mapped type is inferred from the schema: StandardNote plus the schema's output.
+   * Notes failing validation are reported in `failures` with 'schema' errors.
+   *
+   * @example
+   * ```ts
+   * const Book = z.object({ isbn: z.string().length(13), pages: z.number().int().positive() });
+   *
+   * const { data: books } = await client.searchAndMap({
+   *   query: '#book',
+   *   schema: Book,
+   *   mapping: {
+   *     isbn: '#isbn',
+   *     pages: { from: '#pages', transform: transforms.number },
+   *   },
+   * });
+   * ```
+   */
+  searchAndMap<S extends StandardSchemaV1>(options: SearchAndMapOptions<SchemaNote<S>> & { schema: S }): Promise<SearchAndMapResult<SchemaNote<S>>>;
+
   /**
    * Search notes and automatically map results to typed objects.
    * Type T must extend StandardNote to ensure consistent base fields.
    * StandardNoteMapping is automatically included - just define your custom fields!
-   * Throws on API/network errors.
+   * Throws a TriliumApiError on API/network errors.
    * 
    * @see {@link https://triliumnext.github.io/Docs/Wiki/search.html} for Trilium search syntax
    * 
@@ -113,6 +454,353 @@ export interface TriliumClient extends Client<paths> {
    * ```
    */
   searchAndMap<T extends StandardNote>(options: SearchAndMapOptions<T>): Promise<SearchAndMapResult<T>>;
+
+  /**
+   * Lazily iterate over all notes matching a query, fetching one page at a time.
+   * Trilium search has no offset, so pages are walked by keyset: each page re-queries
+   * for notes ordered after the last one seen (by `orderBy`).
+   * A search() builder's orderBy/limit/fastSearch are used unless given as options;
+   * its orderBy must be a pagination key.
+   * Throws a TriliumApiError on API/network errors.
+   *
+   * @example
+   * ```ts
+   * for await (const note of client.searchIterator({ '#blog': true }, { pageSize: 200 })) {
+   *   console.log(note.title);
+   * }
+   * ```
+   */
+  searchIterator(query: string | TriliumSearchHelpers | SearchBuilder, options?: SearchIteratorOptions): AsyncGenerator<TriliumNote, void, undefined>;
+
+  /**
+   * Lazily iterate over all notes matching a query, mapped to typed objects.
+   * Notes that fail to map are skipped and reported through `onFailure`.
+   *
+   * @example
+   * ```ts
+   * for await (const post of client.searchAndMapIterator<BlogPost>({
+   *   query: '#blog',
+   *   mapping: { slug: '#slug' },
+   *   onFailure: (failure) => console.warn(failure.reason),
+   * })) {
+   *   console.log(post.slug);
+   * }
+   * ```
+   */
+  searchAndMapIterator<T extends StandardNote>(options: SearchAndMapIteratorOptions<T>): AsyncGenerator<T, void, undefined>;
+
+  /**
+   * The shared rate limiter, when `rateLimit` is configured.
+   * Use it to inspect queue length and in-flight requests.
+   *
+   * @example
+   * ```ts
+   * console.log(`${client.rateLimiter?.queueLength ?? 0} requests queued`);
+   * ```
+   */
+  readonly rateLimiter: RateLimiter | undefined;
+
+  /**
+   * Revokes the ETAPI token currently in use via `/auth/logout`.
+   * With `password` or `getToken`, the cached token is cleared and the next request
+   * authenticates again. With `apiKey`, the key itself is revoked.
+   * Throws a TriliumApiError if the server rejects the logout.
+   */
+  logout(): Promise<void>;
+
+  /**
+   * Applies the changes computed by `TriliumMapper.diff()`: patches note properties,
+   * then creates, updates and deletes attributes.
+   * Throws a TriliumApiError on the first failed request; earlier changes are kept.
+   *
+   * @example
+   * ```ts
+   * const mapper = new TriliumMapper<BlogPost>(TriliumMapper.merge(StandardNoteMapping, blogMapping));
+   * await client.applyNoteDiff(mapper.diff(note, { ...post, published: true }));
+   * ```
+   */
+  applyNoteDiff(diff: NoteDiff, options?: RequestControlOptions): Promise<void>;
+
+  /**
+   * Creates a typed repository for notes of one kind, identified by a discriminator label
+   * and kept below a parent note. Reads report mapping failures via `onFailure`.
+   *
+   * @example
+   * ```ts
+   * const posts = client.repository<BlogPost>({ parentNoteId: 'blogRoot', mapping: blogMapping, discriminator: '#blog' });
+   *
+   * const post = await posts.create({ title: 'Hello', slug: 'hello', published: false });
+   * await posts.update(post.id, { published: true });
+   * const { data } = await posts.findAll({ orderBy: 'dateCreated' });
+   * ```
+   */
+  repository<T extends StandardNote>(options: NoteRepositoryOptions<T>): NoteRepository<T>;
+
+  /**
+   * Note tree traversal: walk a subtree lazily or load it into memory.
+   *
+   * @example
+   * ```ts
+   * for await (const { note, depth } of client.tree.walk('root', { maxDepth: 3 })) {
+   *   console.log(`${'  '.repeat(depth)}${note.title}`);
+   * }
+   * ```
+   */
+  readonly tree: TriliumTree;
+
+  /**
+   * Note paths: find notes by title path, list the paths of a note and create missing notes.
+   *
+   * @example
+   * ```ts
+   * const noteId = await client.paths.resolve('Projects/Acme/Meeting Notes');
+   * ```
+   */
+  readonly paths: TriliumPaths;
+
+  /**
+   * Branch management: move, clone, reorder and detach notes.
+   *
+   * @example
+   * ```ts
+   * await client.notes.move(noteId, 'inbox', 'archive', { position: 0 });
+   * ```
+   */
+  readonly notes: TriliumNotes;
+
+  /**
+   * Label and relation helpers: set, add, remove and bulk-edit attributes.
+   *
+   * @example
+   * ```ts
+   * await client.attributes.setLabel(noteId, 'status', 'done');
+   * ```
+   */
+  readonly attributes: TriliumAttributes;
+}
+
+/**
+ * Label and relation helpers, available as `client.attributes`.
+ * Changes apply to the attributes a note owns, with the fewest requests; each
+ * method returns the changes made (empty lists if nothing changed).
+ * Throws a TriliumApiError if the note can't be loaded or a request fails.
+ */
+export interface TriliumAttributes {
+  /**
+   * Sets a label's value, updating the first label with the name or creating it
+   *
+   * @example
+   * ```ts
+   * await client.attributes.setLabel(noteId, 'status', 'done');
+   * ```
+   */
+  setLabel(noteId: string, name: string, value?: string, options?: SetAttributeOptions & RequestControlOptions): Promise<NoteDiff>;
+
+  /**
+   * Adds a label, unless the note already has one with the same value
+   * (for multi-valued labels such as '#tag')
+   *
+   * @example
+   * ```ts
+   * await client.attributes.addLabel(noteId, 'tag', 'typescript');
+   * ```
+   */
+  addLabel(noteId: string, name: string, value?: string, options?: SetAttributeOptions & RequestControlOptions): Promise<NoteDiff>;
+
+  /**
+   * Removes the first label with the name, or all of them with `all`.
+   * With `value`, only labels with that value are removed.
+   *
+   * @example
+   * ```ts
+   * await client.attributes.removeLabel(noteId, 'tag', { all: true });
+   * ```
+   */
+  removeLabel(noteId: string, name: string, options?: RemoveAttributeOptions & RequestControlOptions): Promise<NoteDiff>;
+
+  /**
+   * Points a relation at a note, updating the first relation with the name or creating it
+   *
+   * @example
+   * ```ts
+   * await client.attributes.setRelation(noteId, 'author', authorNoteId);
+   * ```
+   */
+  setRelation(noteId: string, name: string, targetId: string, options?: SetAttributeOptions & RequestControlOptions): Promise<NoteDiff>;
+
+  /**
+   * Applies several changes to a note, in order
+   *
+   * @example
+   * ```ts
+   * await client.attributes.change(noteId, [
+   *   { op: 'remove', type: 'relation', name: 'reviewer' },
+   *   { op: 'add', type: 'label', name: 'tag', value: 'reviewed' },
+   * ]);
+   * ```
+   */
+  change(noteId: string, changes: AttributeChange[], options?: RequestControlOptions): Promise<NoteDiff>;
+
+  /**
+   * Applies changes to every note matching a query. All matches are fetched page by
+   * page before any note changes, then changed a few at a time; a note that fails to
+   * change is reported in `failures` and the others are still changed. With `dryRun`,
+   * nothing is written and the report lists the planned changes.
+   * Throws a TriliumApiError if the search fails, and the signal's reason if it aborts.
+   *
+   * @example
+   * ```ts
+   * const report = await client.attributes.bulk({ '#tag': 'js' }, [
+   *   { op: 'remove', type: 'label', name: 'tag', value: 'js' },
+   *   { op: 'add', type: 'label', name: 'tag', value: 'javascript' },
+   * ], { dryRun: true });
+   * console.log(`${report.changed.length} of ${report.matched} notes would change`);
+   * ```
+   */
+  bulk(query: string | TriliumSearchHelpers | SearchBuilder, changes: AttributeChange[], options?: BulkAttributeOptions): Promise<BulkAttributeReport>;
+}
+
+/** Branch management helpers, available as `client.notes` */
+export interface TriliumNotes {
+  /**
+   * Moves a note from one parent to another. The new branch is created before the
+   * old one is deleted, so the note is never left without a parent. The prefix is
+   * kept unless a new one is given.
+   * Throws a TriliumBranchError if the note isn't a child of `fromParentId`, and a
+   * TriliumApiError if a request fails.
+   *
+   * @returns The branch placing the note below its new parent
+   *
+   * @example
+   * ```ts
+   * await client.notes.move(noteId, 'inbox', 'archive', { position: 0 });
+   * ```
+   */
+  move(noteId: string, fromParentId: string, toParentId: string, options?: PlaceNoteOptions & RequestControlOptions): Promise<TriliumBranch>;
+
+  /**
+   * Clones a note below another parent, keeping its existing placements.
+   * If the note is already a child of the parent, its branch is updated instead.
+   * Throws a TriliumApiError if a request fails.
+   *
+   * @returns The branch placing the note below the parent
+   *
+   * @example
+   * ```ts
+   * await client.notes.clone(noteId, 'favorites', { prefix: '⭐' });
+   * ```
+   */
+  clone(noteId: string, toParentId: string, options?: PlaceNoteOptions & RequestControlOptions): Promise<TriliumBranch>;
+
+  /**
+   * Orders a note's children: the given notes first, in that order, then the others
+   * in their current order. Only branches whose notePosition changes are updated,
+   * then connected clients are told to refresh the ordering.
+   * Throws a TriliumBranchError if a note isn't a child of the parent, and a
+   * TriliumApiError if a request fails.
+   *
+   * @example
+   * ```ts
+   * await client.notes.reorder('chaptersRoot', ['intro', 'setup', 'usage']);
+   * ```
+   */
+  reorder(parentId: string, orderedNoteIds: string[], options?: RequestControlOptions): Promise<void>;
+
+  /**
+   * Removes a note from a parent by deleting the branch between them. Deleting a
+   * note's last branch deletes the note, so that is refused unless `force` is set.
+   * Throws a TriliumBranchError if the note isn't a child of the parent or the
+   * branch is its last one, and a TriliumApiError if a request fails.
+   *
+   * @example
+   * ```ts
+   * await client.notes.detach(noteId, 'favorites');
+   * ```
+   */
+  detach(noteId: string, parentId: string, options?: DetachNoteOptions & RequestControlOptions): Promise<void>;
+}
+
+/** Note path helpers, available as `client.paths` */
+export interface TriliumPaths {
+  /**
+   * Finds the note at a title path such as 'Projects/Acme/Meeting Notes', walking
+   * down from the root by child title. Segments also match the 'prefix - title'
+   * form of notes placed with a branch prefix, which takes precedence.
+   * Throws a TriliumPathError if a segment matches several children, and a
+   * TriliumApiError if the root note can't be loaded or a request fails.
+   *
+   * @returns The noteId, or undefined if no note is at the path
+   *
+   * @example
+   * ```ts
+   * const noteId = await client.paths.resolve('Acme/Meeting Notes', { root: 'projectsRoot' });
+   * ```
+   */
+  resolve(path: string, options?: NotePathOptions & RequestControlOptions): Promise<string | undefined>;
+
+  /**
+   * Lists every path from the root down to a note, one per placement (a cloned
+   * note has several), in the order of the note's parent branches.
+   * Throws a TriliumApiError if the note can't be loaded or a request fails.
+   *
+   * @returns The paths; empty if the note isn't below the root
+   *
+   * @example
+   * ```ts
+   * const [first] = await client.paths.of('abc123');
+   * first?.segments.map((segment) => segment.title); // breadcrumb: ['Projects', 'Acme', 'Meeting Notes']
+   * ```
+   */
+  of(noteId: string, options?: NotePathOptions & RequestControlOptions): Promise<NotePath[]>;
+
+  /**
+   * Finds the note at a title path like resolve(), creating the missing notes
+   * along the path. Concurrent calls for the same new path may create duplicates.
+   * Throws a TriliumPathError if a segment is ambiguous, and a TriliumApiError
+   * if a request fails; notes created before the failure are kept.
+   *
+   * @returns The noteId of the note at the path
+   *
+   * @example
+   * ```ts
+   * const folderId = await client.paths.ensure('Imports/2024/March');
+   * ```
+   */
+  ensure(path: string, options?: EnsurePathOptions & RequestControlOptions): Promise<string>;
+}
+
+/** Note tree traversal helpers, available as `client.tree` */
+export interface TriliumTree {
+  /**
+   * Lazily walks the subtree of a note, yielding the note and its descendants with
+   * their branch, depth and path. Notes cloned under several parents are yielded once.
+   * Throws a TriliumApiError if the root note can't be loaded or a request fails.
+   *
+   * @example
+   * ```ts
+   * const urls: string[] = [];
+   * for await (const { note, path } of client.tree.walk('blogRoot', {
+   *   order: 'bfs',
+   *   filter: ({ note }) => !note.attributes?.some((attr) => attr.name === 'draft'),
+   * })) {
+   *   urls.push(`/${path.join('/')}`);
+   * }
+   * ```
+   */
+  walk(rootId: string, options?: TreeWalkOptions & RequestControlOptions): AsyncGenerator<TreeEntry, void, undefined>;
+
+  /**
+   * Loads the subtree of a note into memory. Notes cloned under several parents
+   * appear once, at their shallowest position.
+   * Throws a TriliumApiError if the root note can't be loaded or a request fails.
+   *
+   * @example
+   * ```ts
+   * const tree = await client.tree.loadSubtree('root', { maxDepth: 2 });
+   * tree.children.map((child) => child.note.title);
+   * ```
+   */
+  loadSubtree(rootId: string, options?: Omit<TreeWalkOptions, 'order'> & RequestControlOptions): Promise<TreeNode>;
 }
 
 /**
@@ -163,89 +851,981 @@ export function createTriliumClient(config: TriliumClientConfig): TriliumClient
     ? config.baseUrl.slice(0, -1) 
     : config.baseUrl;
 
+  const rateLimiter = config.rateLimit ? new RateLimiter(config.rateLimit) : undefined;
+
   const client = createClient<paths>({
     baseUrl: `${baseUrl}/etapi`,
-    headers: {
-      Authorization: config.apiKey,
-    },
+    ...(config.apiKey !== undefined ? { headers: { Authorization: config.apiKey } } : {}),
+    ...(rateLimiter ? { fetch: createRateLimitedFetch(rateLimiter) } : {}),
   });
 
-  // Add searchAndMap helper
-  const searchAndMap = async <T extends StandardNote>(options: SearchAndMapOptions<T>): Promise<SearchAndMapResult<T>> => {
-    // Build the search query
-    const searchQuery = typeof options.query === 'string' 
-      ? options.query 
-      : buildSearchQuery(options.query);
-    
-    // Build additional params
-    const params: string[] = [];
-    if (options.orderBy) {
-      params.push(`orderBy:${options.orderBy}`);
-      if (options.orderDirection) {
-        params.push(options.orderDirection);
-      }
+  // Password login: exchange the password for a token via /auth/login
+  const login = async (password: string): Promise<string> => {
+    const { data, error, response } = await client.POST('/auth/login', {
+      body: { password },
+    });
+
+    if (error !== undefined || !response.ok) {
+      throw createTriliumApiError(error ?? '', response, { method: 'POST', path: '/auth/login' });
     }
-    if (options.limit) {
-      params.push(`limit:${options.limit}`);
+    if (!data?.authToken) {
+      throw new Error('No auth token returned from login');
     }
-    if (options.fastSearch) {
-      params.push('fastSearch');
+    return data.authToken;
+  };
+
+  const password = config.password;
+  const tokens = password !== undefined
+    ? new TokenManager(() => login(password))
+    : config.getToken !== undefined
+      ? new TokenManager(config.getToken)
+      : undefined;
+
+  // Middleware onResponse/onError hooks run in reverse order, so retries happen before errors are thrown
+  client.use(createErrorMiddleware(config.throwOnError ?? false));
+  // Registered before retry so retried requests share the same deadline
+  client.use(createTimeoutMiddleware(config.timeoutMs));
+  // Registered before retry so retried requests carry the token
+  if (tokens) {
+    client.use(createAuthMiddleware(tokens));
+  }
+  if (config.retry) {
+    client.use(createRetryMiddleware(config.retry === true ? {} : config.retry));
+  }
+
+  // Fetch a single note, throwing a TriliumApiError if it can't be loaded
+  const getNote = async (noteId: string, options: RequestControlOptions): Promise<TriliumNote> => {
+    const { data, error, response } = await client.GET('/notes/{noteId}', {
+      params: { path: { noteId } },
+      ...requestControl(options),
+    });
+    if (error !== undefined || !data) {
+      throw createTriliumApiError(error ?? '', response, { method: 'GET', path: '/notes/{noteId}' });
     }
-    
-    const fullQuery = params.length > 0
-      ? `${searchQuery} ${params.join(' ')}`
-      : searchQuery;
+    return data;
+  };
+
+  // Fetch a note's content as text, throwing a TriliumApiError if it can't be loaded
+  const getContent = async (noteId: string, options: RequestControlOptions): Promise<string> => {
+    const { data, error, response } = await client.GET('/notes/{noteId}/content', {
+      params: { path: { noteId } },
+      parseAs: 'text',
+      ...requestControl(options),
+    });
+    if (error !== undefined || data === undefined) {
+      throw createTriliumApiError(error ?? '', response, { method: 'GET', path: '/notes/{noteId}/content' });
+    }
+    return data;
+  };
+
+  // Attach the content to notes, a few requests at a time
+  const attachContents = async <N extends TriliumNote>(
+    notes: N[],
+    options: RequestControlOptions & NoteContentOptions,
+  ): Promise<(N & NoteWithContent)[]> => {
+    const limiter = new RateLimiter({ maxConcurrent: options.contentConcurrency ?? 4 });
+    return Promise.all(notes.map((note) => limiter.schedule(async () => {
+      const content = await getContent(note.noteId ?? '', options);
+      return { ...note, content: options.contentTransform ? await options.contentTransform(content, note) : content };
+    }, options.signal)));
+  };
+
+  // Attach the content to notes whose mapping reads 'note.content'
+  const loadContents = async <T>(
+    mapper: TriliumMapper<T>,
+    notes: TriliumNote[],
+    options: RequestControlOptions & NoteContentOptions,
+  ): Promise<NoteWithContent[]> => mapper.readsContent() ? attachContents(notes, options) : notes;
+
+  // Fetch notes by ID; notes that no longer exist are skipped
+  const loadNotes = async (noteIds: string[], options: RequestControlOptions): Promise<TriliumNote[]> => {
+    const notes = await Promise.all(noteIds.map(async (noteId) => {
+      try {
+        return await getNote(noteId, options);
+      } catch (err) {
+        if (err instanceof TriliumApiError && err.status === 404) return undefined;
+        throw err;
+      }
+    }));
+    return notes.filter((note): note is TriliumNote => note !== undefined);
+  };
+
+  // Fetch a single branch, throwing a TriliumApiError if it can't be loaded
+  const getBranch = async (branchId: string, options: RequestControlOptions): Promise<TriliumBranch> => {
+    const { data, error, response } = await client.GET('/branches/{branchId}', {
+      params: { path: { branchId } },
+      ...requestControl(options),
+    });
+    if (error !== undefined || !data) {
+      throw createTriliumApiError(error ?? '', response, { method: 'GET', path: '/branches/{branchId}' });
+    }
+    return data;
+  };
+
+  // Fetch branches by ID; branches that no longer exist are skipped
+  const loadBranches = async (branchIds: string[], options: RequestControlOptions): Promise<TriliumBranch[]> => {
+    const branches = await Promise.all(branchIds.map(async (branchId) => {
+      try {
+        return await getBranch(branchId, options);
+      } catch (err) {
+        if (err instanceof TriliumApiError && err.status === 404) return undefined;
+        throw err;
+      }
+    }));
+    return branches.filter((branch): branch is TriliumBranch => branch !== undefined);
+  };
+
+  // With `inheritance`, replace the attributes of notes with their effective (inherited and template) attributes
+  const inheritAttributes = async (
+    notes: TriliumNote[],
+    options: RequestControlOptions & InheritanceLoadOptions,
+  ): Promise<TriliumNote[]> => {
+    if (!options.inheritance) return notes;
+    return resolveInheritedAttributes(notes, (noteIds) => loadNotes(noteIds, options), options.ancestors ? { cache: options.ancestors } : {});
+  };
+
+  // Fetch the children of a note in tree order, with their branches; deleted branches and notes are skipped
+  const loadChildEntries = async (note: TriliumNote, options: RequestControlOptions): Promise<ChildEntry[]> => {
+    const branches = (await loadBranches(note.childBranchIds ?? [], options))
+      .sort((a, b) => (a.notePosition ?? 0) - (b.notePosition ?? 0));
+    const children = new Map((await loadNotes(branches.map((branch) => branch.noteId ?? ''), options)).map((child) => [child.noteId, child]));
 
-    const { data, error } = await client.GET('/notes', {
-      params: { query: { search: fullQuery } },
+    return branches.flatMap((branch) => {
+      const child = children.get(branch.noteId);
+      return child ? [{ note: child, branch }] : [];
+    });
+  };
+
+  // Fetch the children of a note (or its descendants up to `query.depth` levels) in tree order, with their branches
+  const loadChildNotes = async (
+    parent: TriliumNote,
+    query: ChildrenQuery,
+    options: RequestControlOptions & NoteContentOptions & InheritanceLoadOptions,
+  ): Promise<NoteWithBranch[]> => {
+    const walk = async (note: TriliumNote, level: number): Promise<(TriliumNote & { branch: TriliumBranch })[]> => {
+      const nested = await Promise.all((await loadChildEntries(note, options)).map(async ({ note: child, branch }) => [
+        { ...child, branch },
+        ...(level < query.depth ? await walk(child, level + 1) : []),
+      ]));
+      return nested.flat();
+    };
+
+    // The filter is evaluated by Trilium; the walk still passes through descendants that don't match
+    let matches: Set<string | undefined> | undefined;
+    if (query.filter) {
+      const { data, error, response } = await client.GET('/notes', {
+        params: {
+          query: {
+            search: buildSearchQuery(query.filter),
+            ancestorNoteId: parent.noteId ?? '',
+            ancestorDepth: query.depth === 1 ? 'eq1' : `lt${query.depth + 1}`,
+            includeArchivedNotes: true,
+          },
+        },
+        ...requestControl(options),
+      });
+      if (error) {
+        throw createTriliumApiError(error, response, { method: 'GET', path: '/notes' });
+      }
+      matches = new Set((data?.results ?? []).map((note) => note.noteId));
+    }
+
+    const descendants = (await walk(parent, 1)).filter((child) => !matches || matches.has(child.noteId));
+    const resolved = options.inheritance
+      ? (await inheritAttributes(descendants, options)).map((child, index) => ({ ...child, branch: descendants[index]!.branch }))
+      : descendants;
+    return query.content ? attachContents(resolved, options) : resolved;
+  };
+
+  // Load the children of a mapper's `children` fields and the targets of its `resolve` fields;
+  // notes that no longer exist are skipped
+  const loadRelations = async <T>(
+    mapper: TriliumMapper<T>,
+    notes: TriliumNote[],
+    options: RequestControlOptions & NoteContentOptions & InheritanceLoadOptions & { resolveDepth?: number; cache?: Map<string, TriliumNote> },
+  ): Promise<ResolvedRelations> => {
+    const children = await mapper.loadChildren(notes, (parent, query) => loadChildNotes(parent, query, options));
+    return mapper.loadRelations(notes, async (noteIds) => inheritAttributes(await loadNotes(noteIds, options), options), {
+      ...(options.resolveDepth !== undefined ? { maxDepth: options.resolveDepth } : {}),
+      ...(options.cache ? { cache: options.cache } : {}),
+      ...(children.size > 0 ? { children } : {}),
+    });
+  };
+
+  // Map one note after loading the ancestors, content, children and relation targets its mapping needs
+  const mapLoaded = async <T>(
+    mapper: TriliumMapper<T>,
+    note: TriliumNote,
+    options: RequestControlOptions & NoteContentOptions & InheritanceLoadOptions & { resolveDepth?: number; cache?: Map<string, TriliumNote> },
+  ): Promise<{ data: T } | { failure: MappingFailure }> => {
+    const [loaded = note] = await loadContents(mapper, await inheritAttributes([note], options), options);
+    return mapWithFailure(mapper, loaded, await loadRelations(mapper, [loaded], options));
+  };
+
+  // Add searchAndMap helper
+  const searchAndMap = async <T extends StandardNote>(options: SearchAndMapOptions<T>): Promise<SearchAndMapResult<T>> => {
+    // Explicit options take precedence over the builder's settings
+    const { search: searchQuery, settings } = resolveSearchQuery(options.query);
+    const orderBy = options.orderBy ?? settings.orderBy;
+    const orderDirection = options.orderDirection ?? settings.orderDirection;
+    const limit = options.limit ?? settings.limit;
+    const fastSearch = options.fastSearch ?? settings.fastSearch;
+    
+    const { data, error, response } = await client.GET('/notes', {
+      params: {
+        query: {
+          search: searchQuery,
+          ...(orderBy ? { orderBy } : {}),
+          ...(orderDirection ? { orderDirection } : {}),
+          ...(limit ? { limit } : {}),
+          ...(fastSearch ? { fastSearch: true } : {}),
+          ...(options.debug ? { debug: true } : {}),
+          ...scopeParams(options),
+        },
+      },
+      ...requestControl(options),
     });
 
     if (error) {
-      throw error;
+      throw createTriliumApiError(error, response, { method: 'GET', path: '/notes' });
     }
     if (!data?.results) {
       throw new Error('No results returned from search');
     }
 
-    // Auto-merge with StandardNoteMapping so users only define custom fields
-    const fullMapping = TriliumMapper.merge<T>(
-      StandardNoteMapping as MappingConfig<StandardNote>,
-      options.mapping as MappingConfig<T>
-    );
-    
-    const mapper = new TriliumMapper<T>(fullMapping);
-    
+    const mapper = createStandardMapper(options.mapping, options);
+    // Ancestors are shared by the whole batch
+    const loadOptions = { ...options, ancestors: new Map<string, TriliumNote>() };
+    const notes = await loadContents(mapper, await inheritAttributes(data.results, loadOptions), options);
+    const relations = await loadRelations(mapper, notes, loadOptions);
+
     // Map notes individually to track failures
     const mappedData: T[] = [];
     const failures: MappingFailure[] = [];
+    const limiter = new RateLimiter({ maxConcurrent: options.mapConcurrency ?? 4 });
+    const results = await Promise.all(notes.map((note) => limiter.schedule(() => mapWithFailure(mapper, note, relations))));
 
-    for (const note of data.results) {
-      try {
-        const [mapped] = mapper.map([note]);
-        if (mapped !== undefined) {
-          mappedData.push(mapped);
-        } else {
-          failures.push({
-            noteId: note.noteId ?? 'unknown',
-            noteTitle: note.title ?? 'Untitled',
-            reason: 'Mapping returned undefined',
-            note,
-          });
+    for (const result of results) {
+      if ('failure' in result) {
+        failures.push(result.failure);
+      } else {
+        mappedData.push(result.data);
+      }
+    }
+
+    return data.debugInfo !== undefined
+      ? { data: mappedData, failures, debugInfo: data.debugInfo }
+      : { data: mappedData, failures };
+  };
+
+  // Walk search results page by page using keyset pagination
+  async function* searchIterator(
+    query: string | TriliumSearchHelpers | SearchBuilder,
+    options: SearchIteratorOptions = {},
+  ): AsyncGenerator<TriliumNote, void, undefined> {
+    // Explicit options take precedence over the builder's settings
+    const { search: baseQuery, settings } = resolveSearchQuery(query);
+    const pageSize = options.pageSize ?? 100;
+    const orderBy = options.orderBy ?? paginationKey(settings.orderBy) ?? 'utcDateCreated';
+    const orderDirection = options.orderDirection ?? settings.orderDirection ?? 'asc';
+    const fastSearch = options.fastSearch ?? settings.fastSearch;
+    const maxResults = options.limit ?? settings.limit ?? Infinity;
+    let yielded = 0;
+    if (maxResults <= 0) return;
+
+    // The last key value seen, and the notes already yielded with that value
+    let cursor: { value: string; seen: Set<string> } | undefined;
+    let limit = pageSize;
+
+    while (true) {
+      // Use >= / <= rather than > / < so notes sharing the boundary value aren't skipped
+      const search = cursor
+        ? combineSearchQueries(baseQuery, buildSearchQuery({
+            [`note.${orderBy}`]: { value: cursor.value, operator: orderDirection === 'asc' ? '>=' : '<=' },
+          }))
+        : baseQuery;
+
+      const { data, error, response } = await client.GET('/notes', {
+        params: {
+          query: {
+            search,
+            orderBy,
+            orderDirection,
+            limit,
+            ...(fastSearch ? { fastSearch: true } : {}),
+            ...scopeParams(options),
+          },
+        },
+        ...requestControl(options),
+      });
+
+      if (error) {
+        throw createTriliumApiError(error, response, { method: 'GET', path: '/notes' });
+      }
+      if (!data?.results) {
+        throw new Error('No results returned from search');
+      }
+
+      const results = data.results;
+      const fresh = results.filter(
+        (note) => !(cursor && note[orderBy] === cursor.value && cursor.seen.has(note.noteId ?? '')),
+      );
+
+      for (const note of fresh) {
+        yield note;
+        if (++yielded >= maxResults) return;
+      }
+
+      if (results.length < limit) return;
+
+      // A full page of already-seen ties: widen the page to get past them
+      if (fresh.length === 0) {
+        limit *= 2;
+        continue;
+      }
+      limit = pageSize;
+
+      const last = results[results.length - 1]?.[orderBy];
+      if (last === undefined) {
+        throw new Error(`Search results are missing '${orderBy}', which is required for pagination`);
+      }
+
+      const seen = cursor?.value === last ? cursor.seen : new Set<string>();
+      for (const note of results) {
+        if (note[orderBy] === last && note.noteId) seen.add(note.noteId);
+      }
+      cursor = { value: last, seen };
+    }
+  }
+
+  async function* searchAndMapIterator<T extends StandardNote>(
+    options: SearchAndMapIteratorOptions<T>,
+  ): AsyncGenerator<T, void, undefined> {
+    const mapper = createStandardMapper(options.mapping, options);
+    const cache = new Map<string, TriliumNote>();
+    const ancestors = new Map<string, TriliumNote>();
+
+    for await (const note of searchIterator(options.query, options)) {
+      const result = await mapLoaded(mapper, note, { ...options, cache, ancestors });
+      if ('failure' in result) {
+        options.onFailure?.(result.failure);
+      } else {
+        yield result.data;
+      }
+    }
+  }
+
+  const logout = async (): Promise<void> => {
+    // Nothing to revoke if we never obtained a token
+    if (tokens && tokens.current === undefined) return;
+
+    const { error, response } = await client.POST('/auth/logout');
+    tokens?.clear();
+
+    if (error !== undefined || !response.ok) {
+      throw createTriliumApiError(error ?? '', response, { method: 'POST', path: '/auth/logout' });
+    }
+  };
+
+  const applyNoteDiff = async (diff: NoteDiff, options: RequestControlOptions = {}): Promise<void> => {
+    const noteId = diff.noteId;
+    // ETAPI can't change a relation's target, so relation updates are applied as a create and a delete
+    const replaced = diff.update.filter((attribute) => attribute.type === 'relation');
+    const create: MappedAttribute[] = [...diff.create, ...replaced.map(({ type, name, value }) => ({ type, name, value }))];
+    const update = diff.update.filter((attribute) => attribute.type !== 'relation');
+
+    if (Object.keys(diff.properties).length > 0) {
+      const { error, response } = await client.PATCH('/notes/{noteId}', {
+        params: { path: { noteId } },
+        body: diff.properties,
+        ...requestControl(options),
+      });
+      if (error !== undefined) {
+        throw createTriliumApiError(error, response, { method: 'PATCH', path: '/notes/{noteId}' });
+      }
+    }
+
+    for (const attribute of create) {
+      const { error, response } = await client.POST('/attributes', {
+        body: {
+          noteId,
+          type: attribute.type,
+          name: attribute.name,
+          value: attribute.value,
+          ...(attribute.isInheritable ? { isInheritable: true } : {}),
+        },
+        ...requestControl(options),
+      });
+      if (error !== undefined) {
+        throw createTriliumApiError(error, response, { method: 'POST', path: '/attributes' });
+      }
+    }
+
+    for (const attribute of update) {
+      const { error, response } = await client.PATCH('/attributes/{attributeId}', {
+        params: { path: { attributeId: attribute.attributeId } },
+        body: { value: attribute.value },
+        ...requestControl(options),
+      });
+      if (error !== undefined) {
+        throw createTriliumApiError(error, response, { method: 'PATCH', path: '/attributes/{attributeId}' });
+      }
+    }
+
+    for (const attribute of [...diff.delete, ...replaced]) {
+      const { error, response } = await client.DELETE('/attributes/{attributeId}', {
+        params: { path: { attributeId: attribute.attributeId } },
+        ...requestControl(options),
+      });
+      if (error !== undefined) {
+        throw createTriliumApiError(error, response, { method: 'DELETE', path: '/attributes/{attributeId}' });
+      }
+    }
+  };
+
+  const repository = <T extends StandardNote>(repoOptions: NoteRepositoryOptions<T>): NoteRepository<T> => {
+    const { parentNoteId, discriminator } = repoOptions;
+    const discriminatorName = discriminator.slice(1);
+    const mapper = createStandardMapper(repoOptions.mapping, repoOptions);
+
+    // Content, inheritance and relation loading settings applied to every read
+    const loadSettings: NoteContentOptions & Pick<MappingBehaviourOptions<T>, 'resolveDepth' | 'inheritance'> = {
+      ...(repoOptions.resolveDepth !== undefined ? { resolveDepth: repoOptions.resolveDepth } : {}),
+      ...(repoOptions.inheritance !== undefined ? { inheritance: repoOptions.inheritance } : {}),
+      ...(repoOptions.contentConcurrency !== undefined ? { contentConcurrency: repoOptions.contentConcurrency } : {}),
+      ...(repoOptions.contentTransform ? { contentTransform: repoOptions.contentTransform } : {}),
+    };
+
+    // Map a note written by this repository, which must succeed
+    const mapWritten = async (note: TriliumNote, options: RequestControlOptions): Promise<T> => {
+      const result = await mapLoaded(mapper, note, { ...options, ...loadSettings });
+      if ('failure' in result) {
+        throw new Error(`Note ${result.failure.noteId} was saved but could not be mapped: ${result.failure.reason}`);
+      }
+      return result.data;
+    };
+
+    const find = (query: string, options: NoteRepositoryFindOptions & SearchBuilderOptions) =>
+      searchAndMap<T>({
+        ...loadSettings,
+        ...options,
+        query: combineSearchQueries(query, buildSearchQuery({ [discriminator]: true })),
+        mapping: repoOptions.mapping,
+        ancestorNoteId: parentNoteId,
+      });
+
+    const report = (result: SearchAndMapResult<T>): SearchAndMapResult<T> => {
+      result.failures.forEach((failure) => repoOptions.onFailure?.(failure));
+      return result;
+    };
+
+    return {
+      async findAll(options = {}) {
+        return report(await find('', options));
+      },
+
+      async findById(id, options = {}) {
+        // Searching by ID keeps the read scoped to the parent's subtree, and the discriminator may be inherited
+        const { data } = report(await find(buildSearchQuery({ 'note.noteId': id }), { ...options, includeArchivedNotes: true, limit: 1 }));
+        return data[0];
+      },
+
+      async findOne(query, options = {}) {
+        const { search, settings } = resolveSearchQuery(query);
+        const { data } = report(await find(search, { ...settings, ...options, limit: 1 }));
+        return data[0];
+      },
+
+      async create(obj, options = {}) {
+        const { properties, attributes } = mapper.toNote(obj as MappedObjectPatch<T>);
+
+        const { data, error, response } = await client.POST('/create-note', {
+          body: {
+            parentNoteId,
+            title: properties.title ?? '',
+            type: (properties.type ?? 'text') as components['schemas']['CreateNoteDef']['type'],
+            ...(properties.mime ? { mime: properties.mime } : {}),
+            content: options.content ?? '',
+          },
+          ...requestControl(options),
+        });
+        const noteId = data?.note?.noteId;
+        if (error !== undefined || !noteId) {
+          throw createTriliumApiError(error ?? '', response, { method: 'POST', path: '/create-note' });
         }
-      } catch (err) {
-        failures.push({
-          noteId: note.noteId ?? 'unknown',
-          noteTitle: note.title ?? 'Untitled',
-          reason: err instanceof Error ? err.message : String(err),
-          note,
+
+        await applyNoteDiff({
+          noteId,
+          properties: {},
+          create: [
+            { type: 'label', name: discriminatorName, value: '' },
+            ...attributes.filter((attr) => !(attr.type === 'label' && attr.name === discriminatorName)),
+          ],
+          update: [],
+          delete: [],
+        }, options);
+
+        return mapWritten(await getNote(noteId, options), options);
+      },
+
+      async update(id, partial, options = {}) {
+        const note = await getNote(id, options);
+        const diff = mapper.diff(note, partial as MappedObjectPatch<T>);
+
+        const unchanged = Object.keys(diff.properties).length === 0
+          && diff.create.length === 0 && diff.update.length === 0 && diff.delete.length === 0;
+        if (unchanged) return mapWritten(note, options);
+
+        await applyNoteDiff(diff, options);
+        return mapWritten(await getNote(id, options), options);
+      },
+
+      async delete(id, options = {}) {
+        const { error, response } = await client.DELETE('/notes/{noteId}', {
+          params: { path: { noteId: id } },
+          ...requestControl(options),
+        });
+        if (error !== undefined) {
+          throw createTriliumApiError(error, response, { method: 'DELETE', path: '/notes/{noteId}' });
+        }
+      },
+    };
+  };
+
+  // Add tree traversal helpers
+  const tree: TriliumTree = {
+    async *walk(rootId, options = {}) {
+      const root = await getNote(rootId, options);
+      yield* walkTree(root, (note) => loadChildEntries(note, options), options);
+    },
+
+    async loadSubtree(rootId, options = {}) {
+      const root = await getNote(rootId, options);
+      return loadTree(root, (note) => loadChildEntries(note, options), options);
+    },
+  };
+
+  // Walk down a title path from the root note, stopping at the first segment that has no note
+  const followPath = async (
+    path: string,
+    options: NotePathOptions & RequestControlOptions,
+  ): Promise<{ note: TriliumNote; missing: string[] }> => {
+    const segments = parseNotePath(path);
+    let note = await getNote(options.root ?? ROOT_NOTE_ID, options);
+
+    for (const [index, segment] of segments.entries()) {
+      const child = findChild(path, segment, await loadChildEntries(note, options));
+      if (!child) return { note, missing: segments.slice(index) };
+      note = child.note;
+    }
+    return { note, missing: [] };
+  };
+
+  // Add note path helpers
+  const paths: TriliumPaths = {
+    async resolve(path, options = {}) {
+      const { note, missing } = await followPath(path, options);
+      return missing.length === 0 ? note.noteId : undefined;
+    },
+
+    async of(noteId, options = {}) {
+      const rootId = options.root ?? ROOT_NOTE_ID;
+      // Parents are loaded once, even when several paths pass through them
+      const parents = new Map<string, Promise<TriliumNote | undefined>>();
+      const loadParent = (parentId: string) => {
+        const parent = parents.get(parentId) ?? loadNotes([parentId], options).then(([loaded]) => loaded);
+        parents.set(parentId, parent);
+        return parent;
+      };
+
+      const up = async (note: TriliumNote, chain: string[]): Promise<NotePathSegment[][]> => {
+        if (note.noteId === rootId) return [[]];
+
+        const nested = await Promise.all((await loadBranches(note.parentBranchIds ?? [], options)).map(async (branch) => {
+          const parentId = branch.parentNoteId;
+          const parent = parentId && !chain.includes(parentId) ? await loadParent(parentId) : undefined;
+          if (!parent) return [];
+
+          const segment: NotePathSegment = {
+            noteId: note.noteId ?? '',
+            title: note.title ?? '',
+            branchId: branch.branchId ?? '',
+            prefix: branch.prefix || undefined,
+          };
+          return (await up(parent, [...chain, parentId!])).map((segments) => [...segments, segment]);
+        }));
+        return nested.flat();
+      };
+
+      const note = await getNote(noteId, options);
+      return (await up(note, [noteId])).map((segments) => ({
+        path: formatNotePath(segments.map((segment) => segment.title)),
+        notePath: [rootId, ...segments.map((segment) => segment.noteId)].join('/'),
+        segments,
+      }));
+    },
+
+    async ensure(path, options = {}) {
+      const found = await followPath(path, options);
+
+      let note = found.note;
+      for (const title of found.missing) {
+        const { data, error, response } = await client.POST('/create-note', {
+          body: {
+            parentNoteId: note.noteId ?? '',
+            title,
+            type: (options.type ?? 'text') as components['schemas']['CreateNoteDef']['type'],
+            content: options.content ?? '',
+          },
+          ...requestControl(options),
         });
+        if (error !== undefined || !data?.note) {
+          throw createTriliumApiError(error ?? '', response, { method: 'POST', path: '/create-note' });
+        }
+        note = data.note;
+      }
+      return note.noteId ?? '';
+    },
+  };
+
+  // Find the branch placing a note below a parent
+  const findBranch = async (note: TriliumNote, parentId: string, options: RequestControlOptions): Promise<TriliumBranch> => {
+    const branch = (await loadBranches(note.parentBranchIds ?? [], options)).find((parent) => parent.parentNoteId === parentId);
+    if (!branch) {
+      throw new TriliumBranchError('not-child', note.noteId ?? '', parentId);
+    }
+    return branch;
+  };
+
+  // Create a branch, or update the existing one between the same notes
+  const postBranch = async (body: TriliumBranch, options: RequestControlOptions): Promise<TriliumBranch> => {
+    const { data, error, response } = await client.POST('/branches', { body, ...requestControl(options) });
+    if (error !== undefined || !data) {
+      throw createTriliumApiError(error ?? '', response, { method: 'POST', path: '/branches' });
+    }
+    return data;
+  };
+
+  // Delete a branch; Trilium deletes the note too if it was its last branch
+  const deleteBranch = async (branchId: string, options: RequestControlOptions): Promise<void> => {
+    const { error, response } = await client.DELETE('/branches/{branchId}', {
+      params: { path: { branchId } },
+      ...requestControl(options),
+    });
+    if (error !== undefined) {
+      throw createTriliumApiError(error, response, { method: 'DELETE', path: '/branches/{branchId}' });
+    }
+  };
+
+  // Apply notePosition changes, then tell connected clients to refresh the parent's ordering
+  const applyPositions = async (parentId: string, updates: NotePositionUpdate[], options: RequestControlOptions): Promise<void> => {
+    for (const { branchId, notePosition } of updates) {
+      const { error, response } = await client.PATCH('/branches/{branchId}', {
+        params: { path: { branchId } },
+        body: { notePosition },
+        ...requestControl(options),
+      });
+      if (error !== undefined) {
+        throw createTriliumApiError(error, response, { method: 'PATCH', path: '/branches/{branchId}' });
       }
     }
+    if (updates.length === 0) return;
+
+    const { error, response } = await client.POST('/refresh-note-ordering/{parentNoteId}', {
+      params: { path: { parentNoteId: parentId } },
+      ...requestControl(options),
+    });
+    if (error !== undefined) {
+      throw createTriliumApiError(error, response, { method: 'POST', path: '/refresh-note-ordering/{parentNoteId}' });
+    }
+  };
+
+  // Move a branch to an index among its parent's children
+  const placeBranch = async (branch: TriliumBranch, position: number, options: RequestControlOptions): Promise<TriliumBranch> => {
+    const parentId = branch.parentNoteId ?? '';
+    const parent = await getNote(parentId, options);
+    const updates = planInsertion(await loadBranches(parent.childBranchIds ?? [], options), branch, position);
+    await applyPositions(parentId, updates, options);
+
+    const own = updates.find((update) => update.branchId === branch.branchId);
+    return own ? { ...branch, notePosition: own.notePosition } : branch;
+  };
+
+  // Add branch management helpers
+  const notes: TriliumNotes = {
+    async move(noteId, fromParentId, toParentId, options = {}) {
+      const note = await getNote(noteId, options);
+      const from = await findBranch(note, fromParentId, options);
+
+      let branch = from;
+      if (fromParentId !== toParentId) {
+        branch = await postBranch({
+          noteId,
+          parentNoteId: toParentId,
+          prefix: options.prefix ?? from.prefix ?? '',
+          ...(from.isExpanded !== undefined ? { isExpanded: from.isExpanded } : {}),
+        }, options);
+        await deleteBranch(from.branchId ?? '', options);
+      } else if (options.prefix !== undefined && options.prefix !== from.prefix) {
+        branch = await postBranch({ noteId, parentNoteId: toParentId, prefix: options.prefix }, options);
+      }
+
+      return options.position !== undefined ? placeBranch(branch, options.position, options) : branch;
+    },
+
+    async clone(noteId, toParentId, options = {}) {
+      const branch = await postBranch({
+        noteId,
+        parentNoteId: toParentId,
+        ...(options.prefix !== undefined ? { prefix: options.prefix } : {}),
+      }, options);
+      return options.position !== undefined ? placeBranch(branch, options.position, options) : branch;
+    },
+
+    async reorder(parentId, orderedNoteIds, options = {}) {
+      const parent = await getNote(parentId, options);
+      const children = sortBranches(await loadBranches(parent.childBranchIds ?? [], options));
+
+      const first = orderedNoteIds.map((noteId) => {
+        const branch = children.find((child) => child.noteId === noteId);
+        if (!branch) throw new TriliumBranchError('not-child', noteId, parentId);
+        return branch;
+      });
+      const rest = children.filter((child) => !first.includes(child));
+      await applyPositions(parentId, planPositions([...new Set(first), ...rest]), options);
+    },
+
+    async detach(noteId, parentId, options = {}) {
+      const note = await getNote(noteId, options);
+      const branch = await findBranch(note, parentId, options);
+      if (!options.force && (note.parentBranchIds ?? []).length <= 1) {
+        throw new TriliumBranchError('last-branch', noteId, parentId);
+      }
+      await deleteBranch(branch.branchId ?? '', options);
+    },
+  };
 
-    return { data: mappedData, failures };
+  // Plan attribute changes against a note and apply them
+  const changeAttributes = async (note: TriliumNote, changes: AttributeChange[], options: RequestControlOptions): Promise<NoteDiff> => {
+    const diff = planAttributeChanges(note, changes);
+    if (hasChanges(diff)) await applyNoteDiff(diff, options);
+    return diff;
   };
 
-  return Object.assign(client, { searchAndMap }) as TriliumClient;
+  // Add attribute helpers
+  const attributes: TriliumAttributes = {
+    setLabel(noteId, name, value = '', options = {}) {
+      return attributes.change(noteId, [{ op: 'set', type: 'label', name, value, ...inheritable(options) }], options);
+    },
+
+    addLabel(noteId, name, value = '', options = {}) {
+      return attributes.change(noteId, [{ op: 'add', type: 'label', name, value, ...inheritable(options) }], options);
+    },
+
+    removeLabel(noteId, name, options = {}) {
+      return attributes.change(noteId, [{
+        op: 'remove',
+        type: 'label',
+        name,
+        ...(options.value !== undefined ? { value: options.value } : {}),
+        ...(options.all ? { all: true } : {}),
+      }], options);
+    },
+
+    setRelation(noteId, name, targetId, options = {}) {
+      return attributes.change(noteId, [{ op: 'set', type: 'relation', name, value: targetId, ...inheritable(options) }], options);
+    },
+
+    async change(noteId, changes, options = {}) {
+      return changeAttributes(await getNote(noteId, options), changes, options);
+    },
+
+    async bulk(query, changes, options = {}) {
+      const { dryRun = false, concurrency = 4, ...searchOptions } = options;
+
+      // Collect every match first: changing notes while paging could move them between pages
+      const matches: TriliumNote[] = [];
+      for await (const note of searchIterator(query, searchOptions)) {
+        matches.push(note);
+      }
+
+      const limiter = new RateLimiter({ maxConcurrent: concurrency });
+      const outcomes = await Promise.allSettled(matches.map((note) => limiter.schedule(async () => {
+        const diff = planAttributeChanges(note, changes);
+        if (!dryRun && hasChanges(diff)) await applyNoteDiff(diff, requestControl(options));
+        return diff;
+      }, options.signal)));
+      if (options.signal?.aborted) throw options.signal.reason;
+
+      const report: BulkAttributeReport = { dryRun, matched: matches.length, changed: [], failures: [] };
+      outcomes.forEach((outcome, index) => {
+        const note = matches[index]!;
+        const noteTitle = note.title ?? '';
+        if (outcome.status === 'rejected') {
+          const error: unknown = outcome.reason;
+          report.failures.push({ noteId: note.noteId ?? '', noteTitle, reason: error instanceof Error ? error.message : String(error), error });
+        } else if (hasChanges(outcome.value)) {
+          report.changed.push({ ...outcome.value, noteTitle });
+        }
+      });
+      return report;
+    },
+  };
+
+  return Object.assign(client, {
+    searchAndMap,
+    searchIterator,
+    searchAndMapIterator,
+    rateLimiter,
+    logout,
+    applyNoteDiff,
+    repository,
+    tree,
+    paths,
+    notes,
+    attributes,
+  }) as TriliumClient;
+}
+
+/**
+ * Creates middleware that converts failures into TriliumApiError instances.
+ * Network failures and timeouts are always wrapped; error responses only throw when `throwOnError` is set.
+ * @private
+ */
+function createErrorMiddleware(throwOnError: boolean): Middleware {
+  return {
+    async onResponse({ request, response, schemaPath, id }) {
+      if (!throwOnError || response.ok) return undefined;
+
+      const text = await response.clone().text();
+      let body: unknown = text;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Leave non-JSON bodies as text
+      }
+
+      throw createTriliumApiError(body, response, {
+        method: request.method,
+        path: schemaPath,
+        url: request.url,
+        requestId: id,
+      });
+    },
+    onError({ request, error, schemaPath, id }) {
+      return createTriliumNetworkError(error, {
+        method: request.method,
+        path: schemaPath,
+        url: request.url,
+        requestId: id,
+      });
+    },
+  };
+}
+
+/** Settings for loading inherited attributes, with the ancestors loaded so far */
+interface InheritanceLoadOptions {
+  inheritance?: boolean;
+  ancestors?: Map<string, TriliumNote>;
+}
+
+/**
+ * Picks the inheritable flag for a created attribute
+ * @private
+ */
+function inheritable(options: SetAttributeOptions): { isInheritable?: boolean } {
+  return options.isInheritable ? { isInheritable: true } : {};
+}
+
+/**
+ * Creates a mapper for a custom mapping, auto-merged with StandardNoteMapping
+ * so users only define custom fields
+ * @private
+ */
+function createStandardMapper<T extends StandardNote>(
+  mapping: CustomMapping<T>,
+  options: Pick<MappingBehaviourOptions<T>, 'strict' | 'schema'>,
+): TriliumMapper<T> {
+  return new TriliumMapper<T>(
+    TriliumMapper.merge<T>(StandardNoteMapping as MappingConfig<StandardNote>, mapping as MappingConfig<T>),
+    {
+      ...(options.strict !== undefined ? { strict: options.strict } : {}),
+      ...(options.schema ? { schema: options.schema } : {}),
+    }
+  );
+}
+
+/**
+ * Maps a single note (awaiting async fields), capturing errors as a MappingFailure instead of throwing
+ * @private
+ */
+async function mapWithFailure<T>(
+  mapper: TriliumMapper<T>,
+  note: TriliumNote,
+  relations?: ResolvedRelations,
+): Promise<{ data: T } | { failure: MappingFailure }> {
+  try {
+    return { data: await mapper.mapAsync(note, relations ? { relations } : {}) };
+  } catch (err) {
+    return {
+      failure: {
+        noteId: note.noteId ?? 'unknown',
+        noteTitle: note.title ?? 'Untitled',
+        reason: err instanceof Error ? err.message : String(err),
+        ...(err instanceof TriliumMappingError ? { field: err.field } : {}),
+        errors: err instanceof TriliumMappingError ? err.errors : [],
+        note,
+      },
+    };
+  }
+}
+
+/**
+ * Picks the per-call signal and timeout from helper options, omitting unset values
+ * @private
+ */
+function requestControl(options: RequestControlOptions): { signal?: AbortSignal; timeoutMs?: number } {
+  return {
+    ...(options.signal ? { signal: options.signal } : {}),
+    ...(options.timeoutMs !== undefined ? { timeoutMs: options.timeoutMs } : {}),
+  };
+}
+
+/**
+ * Builds the query string of a search, with a search() builder's settings
+ * @private
+ */
+function resolveSearchQuery(query: string | TriliumSearchHelpers | SearchBuilder): { search: string; settings: SearchBuilderOptions } {
+  if (typeof query === 'string') return { search: query, settings: {} };
+  if (query instanceof SearchBuilder) return { search: query.build(), settings: query.options() };
+  return { search: buildSearchQuery(query), settings: {} };
+}
+
+/** Note properties searchIterator() can walk pages by */
+const PAGINATION_KEYS: readonly string[] = ['utcDateCreated', 'utcDateModified', 'dateCreated', 'dateModified', 'noteId'] satisfies SearchIteratorOrderBy[];
+
+/**
+ * Checks that a search() builder's orderBy can be used as a pagination key
+ * @private
+ */
+function paginationKey(orderBy: string | undefined): SearchIteratorOrderBy | undefined {
+  if (orderBy === undefined) return undefined;
+  if (!PAGINATION_KEYS.includes(orderBy)) {
+    throw new Error(`Search results can't be paginated by '${orderBy}'; order by one of ${PAGINATION_KEYS.join(', ')}`);
+  }
+  return orderBy as SearchIteratorOrderBy;
+}
+
+/**
+ * Picks the subtree and archive search parameters from helper options, omitting unset values
+ * @private
+ */
+function scopeParams(options: SearchScopeOptions): SearchScopeOptions {
+  return {
+    ...(options.ancestorNoteId ? { ancestorNoteId: options.ancestorNoteId } : {}),
+    ...(options.ancestorDepth ? { ancestorDepth: options.ancestorDepth } : {}),
+    ...(options.includeArchivedNotes !== undefined ? { includeArchivedNotes: options.includeArchivedNotes } : {}),
+  };
 }
 
 // Default export for convenience
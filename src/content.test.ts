@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { convertContent, htmlToMarkdown, htmlToText } from './content.js';
+
+describe('htmlToMarkdown', () => {
+  it('should convert headings, paragraphs and inline formatting', () => {
+    const html = '<h2>Intro</h2><p>Hello <strong>bold </strong>and <em>it</em> &amp; <code>x</code></p>';
+    expect(htmlToMarkdown(html)).toBe('## Intro\n\nHello **bold** and _it_ & `x`');
+  });
+
+  it('should convert links, images and line breaks', () => {
+    const html = '<p>See <a href="https://example.com">this</a><br>next</p><p><img src="api/images/x/a.png" alt="pic"></p>';
+    expect(htmlToMarkdown(html)).toBe('See [this](https://example.com)\\\nnext\n\n![pic](api/images/x/a.png)');
+  });
+
+  it('should convert nested and ordered lists', () => {
+    const html = '<ul><li>one</li><li>two<ul><li>nested</li></ul></li></ul><ol start="3"><li>three</li></ol>';
+    expect(htmlToMarkdown(html)).toBe('- one\n- two\n  - nested\n\n3. three');
+  });
+
+  it('should keep code block whitespace and use a short language name', () => {
+    const html = '<pre><code class="language-text-x-python">def f():\n    return 1\n\n\n x = 2</code></pre>';
+    expect(htmlToMarkdown(html)).toBe('```python\ndef f():\n    return 1\n\n\n x = 2\n```');
+  });
+
+  it('should convert blockquotes and tables', () => {
+    const html =
+      '<blockquote><p>quote</p><p>more</p></blockquote>' +
+      '<figure class="table"><table><tr><th>a</th><th>b</th></tr><tr><td>1</td><td>2|3</td></tr></table></figure>';
+    expect(htmlToMarkdown(html)).toBe('> quote\n>\n> more\n\n| a | b |\n| --- | --- |\n| 1 | 2\\|3 |');
+  });
+
+  it('should escape Markdown characters in text', () => {
+    const html = '<p>a *b* _c_ # d [e](f) \\ `g`</p><p>1. not a list</p><p>- not an item<br>&gt; not a quote</p>';
+    expect(htmlToMarkdown(html)).toBe('a \\*b\\* \\_c\\_ \\# d \\[e\\](f) \\\\ \\`g\\`\n\n1\\. not a list\n\n\\- not an item\\\n\\> not a quote');
+  });
+
+  it('should escape markers only where they start a line', () => {
+    const html = '<ul><li>1. x</li><li><b>y</b> - z</li></ul><p>a <code>*b_</code></p>';
+    expect(htmlToMarkdown(html)).toBe('- 1\\. x\n- **y** - z\n\na `*b_`');
+  });
+
+  it('should escape parentheses and spaces in link destinations', () => {
+    const html = '<p><a href="notes/a b(1).md">a</a> <img src="x (1).png" alt="*"></p>';
+    expect(htmlToMarkdown(html)).toBe('[a](notes/a%20b\\(1\\).md) ![\\*](x%20\\(1\\).png)');
+  });
+
+  it('should collapse source whitespace and skip scripts', () => {
+    const html = '<p>\n  Hello\n  world\n</p>\n<script>alert(1)</script>\n<p>Bye</p>';
+    expect(htmlToMarkdown(html)).toBe('Hello world\n\nBye');
+  });
+});
+
+describe('htmlToText', () => {
+  it('should strip tags and keep block structure', () => {
+    const html = '<h1>Title</h1><p>Hello <strong>world</strong> &lt;3 &#x1F600;</p><ul><li>a</li><li>b</li></ul>';
+    expect(htmlToText(html)).toBe('Title\n\nHello world <3 😀\n\n- a\n- b');
+  });
+
+  it('should replace invalid numeric character references', () => {
+    expect(htmlToText('<p>a&#99999999;b&#xD800;c&#0;d</p>')).toBe('a\uFFFDb\uFFFDc\uFFFDd');
+  });
+
+  it('should use link text and image alt text', () => {
+    expect(htmlToText('<p><a href="https://example.com">link</a> <img src="a.png" alt="pic"></p>')).toBe('link pic');
+  });
+
+  it('should tolerate unclosed and stray tags', () => {
+    expect(htmlToText('<p>one<p>two</span></p>')).toBe('one\n\ntwo');
+  });
+});
+
+describe('convertContent', () => {
+  it('should return HTML unchanged', () => {
+    expect(convertContent('<p>a</p>', 'html', 'text')).toBe('<p>a</p>');
+  });
+
+  it('should only convert text notes', () => {
+    expect(convertContent('<p>a</p>', 'text', 'text')).toBe('a');
+    expect(convertContent('if (a < b) {}', 'markdown', 'code')).toBe('if (a < b) {}');
+  });
+});
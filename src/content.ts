@@ -0,0 +1,346 @@
+/**
+ * Note Content Conversion
+ *
+ * Converts the HTML of Trilium text notes to plain text or Markdown for
+ * 'note.content' fields. Covers the elements produced by Trilium's editor
+ * (headings, paragraphs, lists, tables, code blocks, links and images).
+ */
+
+/** Formats a 'note.content' field can be read as */
+export type ContentFormat = 'html' | 'text' | 'markdown';
+
+/** A parsed HTML element or text node */
+type HtmlNode =
+  | { type: 'element'; tag: string; attrs: Record<string, string>; children: HtmlNode[] }
+  | { type: 'text'; text: string };
+
+type HtmlElement = Extract<HtmlNode, { type: 'element' }>;
+
+/** Output format and the code blocks set aside so whitespace cleanup leaves them intact */
+interface RenderContext {
+  format: 'text' | 'markdown';
+  blocks: string[];
+}
+
+/** Elements without a closing tag */
+const VOID_TAGS = new Set(['br', 'img', 'hr', 'input', 'meta', 'link', 'wbr', 'col', 'source']);
+
+/** Elements rendered on their own lines */
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'header', 'footer', 'figure', 'figcaption']);
+
+/** Elements whose content is never rendered */
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'title']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Converts note content to the given format
+ *
+ * Only text notes hold HTML; the content of other note types (code, mermaid, ...)
+ * is returned as-is.
+ *
+ * @param content - The raw note content
+ * @param format - The target format
+ * @param noteType - Optional: the note type (default: treated as a text note)
+ * @returns The converted content
+ */
+export function convertContent(content: string, format: ContentFormat, noteType?: string): string {
+  if (format === 'html' || (noteType !== undefined && noteType !== 'text')) return content;
+  return format === 'markdown' ? htmlToMarkdown(content) : htmlToText(content);
+}
+
+/**
+ * Converts HTML to plain text, keeping paragraphs, line breaks and list items
+ *
+ * @param html - The HTML to convert
+ * @returns Plain text with entities decoded
+ *
+ * @example
+ * htmlToText('<p>Hello <strong>world</strong></p><ul><li>a</li></ul>')
+ * // => 'Hello world\n\n- a'
+ */
+export function htmlToText(html: string): string {
+  return render(parseHtml(html), 'text');
+}
+
+/**
+ * Converts HTML to Markdown
+ *
+ * @param html - The HTML to convert
+ * @returns CommonMark-style Markdown
+ *
+ * @example
+ * htmlToMarkdown('<h2>Intro</h2><p>See <a href="https://example.com">this</a></p>')
+ * // => '## Intro\n\nSee [this](https://example.com)'
+ */
+export function htmlToMarkdown(html: string): string {
+  return render(parseHtml(html), 'markdown');
+}
+
+/**
+ * Renders a parsed document and restores its code blocks
+ * @private
+ */
+function render(nodes: HtmlNode[], format: 'text' | 'markdown'): string {
+  const context: RenderContext = { format, blocks: [] };
+  return cleanup(renderChildren(nodes, context))
+    // Escapes marked markers at line starts, including after list and quote markers ('- 1. x' is a nested list)
+    .replace(/^([ \t]*(?:(?:[-+*]|\d+[.)]|>)[ \t]+)*\d*)\u0001/gm, '$1\\')
+    .replace(/\u0001/g, '')
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => context.blocks[Number(index)] ?? '');
+}
+
+/**
+ * Parses HTML into a tree, tolerating unclosed and stray closing tags
+ * @private
+ */
+function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { type: 'element', tag: '', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const tokens = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][\w-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+
+  for (const match of html.matchAll(tokens)) {
+    const [token, closing, name, attrs] = match;
+    const parent = stack[stack.length - 1]!;
+
+    if (token.startsWith('<!--')) continue;
+
+    if (name === undefined) {
+      parent.children.push({ type: 'text', text: decodeEntities(token) });
+      continue;
+    }
+
+    const tag = name.toLowerCase();
+    if (closing) {
+      const index = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const element: HtmlElement = { type: 'element', tag, attrs: parseAttributes(attrs ?? ''), children: [] };
+    parent.children.push(element);
+    if (!VOID_TAGS.has(tag) && !attrs?.trimEnd().endsWith('/')) stack.push(element);
+  }
+
+  return root.children;
+}
+
+/**
+ * Parses the attributes of a start tag
+ * @private
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, , doubleQuoted, singleQuoted, unquoted] of source.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attrs[name!.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Decodes named and numeric character references
+ * @private
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      if (Number.isNaN(point)) return entity;
+      // Like browsers, replace NUL, surrogates and code points beyond Unicode with U+FFFD
+      const valid = point > 0 && point <= 0x10ffff && (point < 0xd800 || point > 0xdfff);
+      return valid ? String.fromCodePoint(point) : '\uFFFD';
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Renders a list of nodes
+ * @private
+ */
+function renderChildren(nodes: HtmlNode[], context: RenderContext): string {
+  return nodes.map((node) => renderNode(node, context)).join('');
+}
+
+/**
+ * Renders a node and its children
+ * @private
+ */
+function renderNode(node: HtmlNode, context: RenderContext): string {
+  if (node.type === 'text') {
+    const text = node.text.replace(/\s+/g, ' ');
+    return context.format === 'markdown' ? escapeMarkdown(text) : text;
+  }
+
+  const markdown = context.format === 'markdown';
+  const { tag } = node;
+  const inner = () => renderChildren(node.children, context);
+  // Keeps surrounding spaces outside the markers ('** a **' isn't emphasis)
+  const wrap = (marker: string, content = inner()) => {
+    const [, before, text, after] = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!;
+    return markdown && text ? `${before}${marker}${text}${marker}${after}` : content;
+  };
+
+  if (SKIPPED_TAGS.has(tag)) return '';
+  if (BLOCK_TAGS.has(tag)) return block(inner().trim());
+
+  const heading = /^h([1-6])$/.exec(tag);
+  if (heading) return block(`${markdown ? `${'#'.repeat(Number(heading[1]))} ` : ''}${inner().trim()}`);
+
+  switch (tag) {
+    case 'br':
+      return markdown ? '\\\n' : '\n';
+    case 'hr':
+      return block(markdown ? '---' : '');
+    case 'strong':
+    case 'b':
+      return wrap('**');
+    case 'em':
+    case 'i':
+      return wrap('_');
+    case 's':
+    case 'del':
+      return wrap('~~');
+    case 'code':
+      // Backslash escapes don't work in code spans
+      return wrap('`', renderChildren(node.children, { ...context, format: 'text' }));
+    case 'a': {
+      const href = node.attrs.href;
+      return markdown && href ? `[${inner().trim()}](${escapeDestination(href)})` : inner();
+    }
+    case 'img': {
+      const alt = node.attrs.alt ?? '';
+      return markdown && node.attrs.src ? `![${escapeMarkdown(alt)}](${escapeDestination(node.attrs.src)})` : alt;
+    }
+    case 'pre': {
+      const code = preformattedText(node).replace(/\n$/, '');
+      // Trilium names languages by MIME type (e.g., 'language-text-x-python')
+      const language = (/language-([\w+-]+)/.exec(findCodeClass(node))?.[1] ?? '').replace(/^(text|application)-(x-)?/, '');
+      context.blocks.push(markdown ? `\`\`\`${language}\n${code}\n\`\`\`` : code);
+      return block(`\u0000${context.blocks.length - 1}\u0000`);
+    }
+    case 'blockquote': {
+      const content = cleanup(inner());
+      return block(markdown ? content.split('\n').map((line) => (line ? `> ${line}` : '>')).join('\n') : content);
+    }
+    case 'ul':
+    case 'ol':
+      return block(renderList(node, context));
+    case 'table':
+      return block(renderTable(node, context));
+    default:
+      return inner();
+  }
+}
+
+/**
+ * Renders list items with '- ' or '1. ' markers, indenting continuation lines
+ * @private
+ */
+function renderList(list: HtmlElement, context: RenderContext): string {
+  const start = Number(list.attrs.start ?? 1);
+  const items = list.children.filter((child): child is HtmlElement => child.type === 'element' && child.tag === 'li');
+
+  return items
+    .map((item, index) => {
+      const marker = list.tag === 'ol' ? `${start + index}. ` : '- ';
+      const content = cleanup(renderChildren(item.children, context)).replace(/\n{2,}/g, '\n');
+      return marker + content.split('\n').join(`\n${' '.repeat(marker.length)}`);
+    })
+    .join('\n');
+}
+
+/**
+ * Renders a table as a Markdown pipe table, or tab-separated rows for text
+ * @private
+ */
+function renderTable(table: HtmlElement, context: RenderContext): string {
+  const rows: string[][] = [];
+  const collect = (nodes: HtmlNode[]) => {
+    for (const node of nodes) {
+      if (node.type !== 'element') continue;
+      if (node.tag === 'tr') {
+        rows.push(node.children
+          .filter((cell): cell is HtmlElement => cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'))
+          .map((cell) => cleanup(renderChildren(cell.children, context)).replace(/\n+/g, ' ')));
+      } else {
+        collect(node.children);
+      }
+    }
+  };
+  collect(table.children);
+
+  if (context.format === 'text') return rows.map((row) => row.join('\t')).join('\n');
+
+  const lines = rows.map((row) => `| ${row.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`);
+  if (lines.length > 0) {
+    lines.splice(1, 0, `| ${rows[0]!.map(() => '---').join(' | ')} |`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Returns the text of a preformatted element with whitespace preserved
+ * @private
+ */
+function preformattedText(node: HtmlNode): string {
+  if (node.type === 'text') return node.text;
+  if (node.tag === 'br') return '\n';
+  return node.children.map(preformattedText).join('');
+}
+
+/**
+ * Returns the class of the code element inside a pre element
+ * @private
+ */
+function findCodeClass(pre: HtmlElement): string {
+  const code = pre.children.find((child): child is HtmlElement => child.type === 'element' && child.tag === 'code');
+  return code?.attrs.class ?? pre.attrs.class ?? '';
+}
+
+/**
+ * Escapes characters Markdown would read as formatting, and marks a leading
+ * list or quote marker ('1.', '-', '>') for escaping if the text starts a line
+ * @private
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_[\]#]/g, '\\$&')
+    .replace(/^(\s*)(\d+(?=[.)])|(?=[-+>]))/, '$1$2\u0001');
+}
+
+/**
+ * Escapes parentheses and spaces, which would end a link destination
+ * @private
+ */
+function escapeDestination(url: string): string {
+  return url.replace(/[()]/g, '\\$&').replace(/ /g, '%20');
+}
+
+/**
+ * Surrounds a block with blank lines (collapsed by cleanup)
+ * @private
+ */
+function block(content: string): string {
+  return `\n\n${content}\n\n`;
+}
+
+/**
+ * Trims line ends and collapses runs of blank lines
+ * @private
+ */
+function cleanup(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/^ (?=\S)/, '').trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -8,50 +8,29 @@
  *   TRILIUM_API_KEY=your-token pnpm tsx src/demo.ts
  */
 
-import { createTriliumClient, type TriliumNote } from './client.js';
+import { createTriliumClient, type TreeNode, type TriliumNote } from './client.js';
 
 const TRILIUM_URL = process.env.TRILIUM_URL || 'http://localhost:8080';
 const TRILIUM_API_KEY = process.env.TRILIUM_API_KEY || 'YOUR_ETAPI_TOKEN_HERE';
 const MAX_DEPTH = parseInt(process.env.MAX_DEPTH || '3', 10);
 
-type Client = ReturnType<typeof createTriliumClient>;
-
-async function printNoteTree(
-    client: Client,
-    noteId: string,
-    depth: number = 0,
-    prefix: string = '',
-    isLast: boolean = true
-): Promise<void> {
-    if (depth > MAX_DEPTH) {
-        console.log(`${prefix}${isLast ? '└── ' : '├── '}...`);
-        return;
-    }
-
-    const { data: note, error } = await client.GET('/notes/{noteId}', {
-        params: { path: { noteId } },
-    });
-
-    if (error || !note) {
-        console.log(`${prefix}${isLast ? '└── ' : '├── '}[Error fetching note]`);
-        return;
-    }
-
+function printNoteTree(node: TreeNode, prefix: string = '', isLast: boolean = true): void {
+    const { note, depth } = node;
     const icon = getTypeIcon(note.type);
     const connector = depth === 0 ? '' : isLast ? '└── ' : '├── ';
     console.log(`${prefix}${connector}${icon} ${note.title || '(untitled)'}`);
 
-    const childIds = note.childNoteIds || [];
-    if (childIds.length === 0) return;
-
     const newPrefix = depth === 0 ? '' : prefix + (isLast ? '    ' : '│   ');
 
-    for (let i = 0; i < childIds.length; i++) {
-        const childId = childIds[i];
-        if (!childId) continue;
-        const isLastChild = i === childIds.length - 1;
-        await printNoteTree(client, childId, depth + 1, newPrefix, isLastChild);
+    // Children beyond MAX_DEPTH weren't loaded
+    if (depth === MAX_DEPTH && (note.childNoteIds?.length ?? 0) > 0) {
+        console.log(`${newPrefix}└── ...`);
+        return;
     }
+
+    node.children.forEach((child, i) => {
+        printNoteTree(child, newPrefix, i === node.children.length - 1);
+    });
 }
 
 function getTypeIcon(type: TriliumNote['type']): string {
@@ -116,7 +95,7 @@ async function main() {
     // Print tree view
     console.log(`📂 Note Tree (max depth: ${MAX_DEPTH}):`);
     console.log('─'.repeat(40));
-    await printNoteTree(client, 'root');
+    printNoteTree(await client.tree.loadSubtree('root', { maxDepth: MAX_DEPTH }));
     console.log('─'.repeat(40));
 
     console.log();
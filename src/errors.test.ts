@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { createTriliumApiError, TriliumApiError, TriliumNetworkError, TriliumResponseParseError } from './errors.js';
+
+function createResponse(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(null, { status, headers });
+}
+
+const request = { method: 'GET', path: '/notes/{noteId}', url: 'http://localhost:8080/etapi/notes/abc' };
+
+describe('createTriliumApiError', () => {
+  it('should create TriliumApiError from a Trilium error body', () => {
+    const error = createTriliumApiError(
+      { status: 404, code: 'NOTE_NOT_FOUND', message: "Note 'abc' not found" },
+      createResponse(404),
+      request,
+    );
+
+    expect(error).toBeInstanceOf(TriliumApiError);
+    expect(error).not.toBeInstanceOf(TriliumResponseParseError);
+    expect(error.name).toBe('TriliumApiError');
+    expect(error.message).toBe("Note 'abc' not found");
+    expect(error.status).toBe(404);
+    expect(error.code).toBe('NOTE_NOT_FOUND');
+    expect(error.method).toBe('GET');
+    expect(error.path).toBe('/notes/{noteId}');
+    expect(error.url).toBe('http://localhost:8080/etapi/notes/abc');
+  });
+
+  it('should fall back to the response status when the body has no code', () => {
+    const error = createTriliumApiError({ message: 'Server error' }, createResponse(500), request);
+
+    expect(error.status).toBe(500);
+    expect(error.code).toBe('HTTP_500');
+  });
+
+  it('should use the x-request-id header when present', () => {
+    const error = createTriliumApiError(
+      { message: 'Server error' },
+      createResponse(500, { 'x-request-id': 'from-header' }),
+      { ...request, requestId: 'from-client' },
+    );
+
+    expect(error.requestId).toBe('from-header');
+  });
+
+  it('should fall back to the client request ID', () => {
+    const error = createTriliumApiError({ message: 'Server error' }, createResponse(500), { ...request, requestId: 'from-client' });
+
+    expect(error.requestId).toBe('from-client');
+  });
+
+  it('should create TriliumResponseParseError for non-JSON bodies', () => {
+    const error = createTriliumApiError('<html>Bad Gateway</html>', createResponse(502), request);
+
+    expect(error).toBeInstanceOf(TriliumResponseParseError);
+    expect(error).toBeInstanceOf(TriliumApiError);
+    expect(error.status).toBe(502);
+    expect(error.code).toBe('INVALID_ERROR_RESPONSE');
+    expect((error as TriliumResponseParseError).body).toBe('<html>Bad Gateway</html>');
+  });
+});
+
+describe('TriliumNetworkError', () => {
+  it('should have status 0 and preserve the cause', () => {
+    const cause = new Error('ECONNRESET');
+    const error = new TriliumNetworkError('GET /app-info failed: ECONNRESET', {
+      method: 'GET',
+      path: '/app-info',
+      url: 'http://localhost:8080/etapi/app-info',
+      cause,
+    });
+
+    expect(error).toBeInstanceOf(TriliumApiError);
+    expect(error.name).toBe('TriliumNetworkError');
+    expect(error.status).toBe(0);
+    expect(error.code).toBe('NETWORK_ERROR');
+    expect(error.cause).toBe(cause);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Trilium API Error Types
+ *
+ * Typed errors thrown by the client so callers can branch with `instanceof`
+ * instead of inspecting raw error bodies or matching on message strings.
+ */
+
+import type { components } from './generated/trilium.js';
+
+/** Error body returned by the Trilium ETAPI */
+export type TriliumErrorBody = components['schemas']['Error'];
+
+/** Request details attached to every TriliumApiError */
+export interface TriliumRequestInfo {
+  /** HTTP method of the failed request (e.g., 'GET') */
+  method: string;
+  /** OpenAPI schema path of the failed request (e.g., '/notes/{noteId}') */
+  path: string;
+  /** Full URL of the failed request */
+  url: string;
+  /** Request ID from the `x-request-id` response header, or the client-generated ID */
+  requestId?: string | undefined;
+}
+
+/** Options for constructing a TriliumApiError */
+export interface TriliumApiErrorOptions extends TriliumRequestInfo {
+  /** HTTP status code (0 when no response was received) */
+  status: number;
+  /** Stable error code (e.g., 'NOTE_IS_PROTECTED') */
+  code: string;
+  /** The underlying error, if any */
+  cause?: unknown;
+}
+
+/**
+ * Error returned by the Trilium ETAPI
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await client.PATCH('/notes/{noteId}', { params: { path: { noteId } }, body: { title } });
+ * } catch (err) {
+ *   if (err instanceof TriliumApiError && err.code === 'NOTE_IS_PROTECTED') {
+ *     // ...
+ *   }
+ * }
+ * ```
+ */
+export class TriliumApiError extends Error {
+  /** HTTP status code (0 when no response was received) */
+  readonly status: number;
+  /** Stable error code (e.g., 'NOTE_IS_PROTECTED') */
+  readonly code: string;
+  /** HTTP method of the failed request */
+  readonly method: string;
+  /** OpenAPI schema path of the failed request */
+  readonly path: string;
+  /** Full URL of the failed request */
+  readonly url: string;
+  /** Request ID, if known */
+  readonly requestId: string | undefined;
+
+  constructor(message: string, options: TriliumApiErrorOptions) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'TriliumApiError';
+    this.status = options.status;
+    this.code = options.code;
+    this.method = options.method;
+    this.path = options.path;
+    this.url = options.url;
+    this.requestId = options.requestId;
+  }
+}
+
+/**
+ * Thrown when the request could not be completed (DNS failure, connection reset, etc.)
+ * No response was received, so `status` is always 0.
+ */
+export class TriliumNetworkError extends TriliumApiError {
+  constructor(message: string, options: Omit<TriliumApiErrorOptions, 'status' | 'code'> & { code?: string }) {
+    super(message, { ...options, status: 0, code: options.code ?? 'NETWORK_ERROR' });
+    this.name = 'TriliumNetworkError';
+  }
+}
+
+/**
+ * Thrown when a request exceeds its timeout (see `timeoutMs` on the client config)
+ */
+export class TriliumTimeoutError extends TriliumNetworkError {
+  constructor(message: string, options: Omit<TriliumApiErrorOptions, 'status' | 'code'>) {
+    super(message, { ...options, code: 'TIMEOUT' });
+    this.name = 'TriliumTimeoutError';
+  }
+}
+
+/**
+ * Thrown when the server responded with an error whose body is not a Trilium JSON error
+ * (e.g., an HTML page from a reverse proxy)
+ */
+export class TriliumResponseParseError extends TriliumApiError {
+  /** The raw response body */
+  readonly body: string;
+
+  constructor(message: string, options: Omit<TriliumApiErrorOptions, 'code'> & { body: string }) {
+    super(message, { ...options, code: 'INVALID_ERROR_RESPONSE' });
+    this.name = 'TriliumResponseParseError';
+    this.body = options.body;
+  }
+}
+
+/**
+ * Checks whether a value has the shape of a Trilium error body
+ * @private
+ */
+function isTriliumErrorBody(value: unknown): value is Partial<TriliumErrorBody> & { message: string } {
+  return typeof value === 'object' && value !== null && typeof (value as { message?: unknown }).message === 'string';
+}
+
+/**
+ * Creates the appropriate TriliumApiError for a failed response
+ *
+ * @param body - The error body as parsed by openapi-fetch (object for JSON, string otherwise)
+ * @param response - The failed response
+ * @param request - Details about the request that failed
+ * @returns A TriliumApiError, or a TriliumResponseParseError if the body is not a Trilium error
+ */
+export function createTriliumApiError(
+  body: unknown,
+  response: Response,
+  request: Omit<TriliumRequestInfo, 'url'> & { url?: string },
+): TriliumApiError {
+  const info: TriliumRequestInfo = {
+    method: request.method,
+    path: request.path,
+    url: request.url ?? response.url,
+    requestId: response.headers.get('x-request-id') ?? request.requestId,
+  };
+
+  if (isTriliumErrorBody(body)) {
+    return new TriliumApiError(body.message, {
+      ...info,
+      status: typeof body.status === 'number' ? body.status : response.status,
+      code: typeof body.code === 'string' ? body.code : `HTTP_${response.status}`,
+    });
+  }
+
+  const text = typeof body === 'string' ? body : JSON.stringify(body) ?? '';
+  return new TriliumResponseParseError(
+    `${info.method} ${info.path} failed with status ${response.status} and a non-JSON error body`,
+    { ...info, status: response.status, body: text },
+  );
+}
+
+/**
+ * Converts an error raised by `fetch` into the appropriate TriliumApiError
+ *
+ * Timeouts become a TriliumTimeoutError and other failures a TriliumNetworkError.
+ * Aborts triggered by the caller's own AbortSignal are returned unchanged so they
+ * can be recognized by `err.name === 'AbortError'` as with plain `fetch`.
+ *
+ * @param error - The error raised by `fetch`
+ * @param request - Details about the request that failed
+ * @returns The error to surface to the caller
+ */
+export function createTriliumNetworkError(error: unknown, request: TriliumRequestInfo): Error {
+  if (error instanceof TriliumApiError) return error;
+
+  const name = error instanceof Error ? error.name : undefined;
+  if (name === 'AbortError') return error as Error;
+
+  const reason = error instanceof Error ? error.message : String(error);
+  if (name === 'TimeoutError') {
+    return new TriliumTimeoutError(`${request.method} ${request.path} timed out: ${reason}`, { ...request, cause: error });
+  }
+
+  return new TriliumNetworkError(`${request.method} ${request.path} failed: ${reason}`, { ...request, cause: error });
+}
@@ -4,10 +4,42 @@ export {
   default as createClient,
   // Mapper utilities
   buildSearchQuery,
+  raw,
+  quoteSearchString,
+  RawSearchFragment,
+  parseSearchQuery,
+  search,
+  SearchBuilder,
   transforms,
+  // Attribute inheritance
+  resolveInheritedAttributes,
+  ownedAttributes,
+  // Tree traversal
+  walkTree,
+  loadTree,
+  // Attribute changes
+  planAttributeChanges,
+  hasChanges,
+  // Note paths
+  parseNotePath,
+  formatNotePath,
+  // Content conversion
+  htmlToText,
+  htmlToMarkdown,
   // Advanced: for standalone mapper use
   TriliumMapper,
   StandardNoteMapping,
+  // Error types
+  TriliumApiError,
+  TriliumNetworkError,
+  TriliumResponseParseError,
+  TriliumTimeoutError,
+  TriliumSearchParseError,
+  TriliumMappingError,
+  TriliumPathError,
+  TriliumBranchError,
+  // Rate limiting
+  RateLimiter,
 } from './client.js';
 
 // Re-export types
@@ -20,14 +52,85 @@ export type {
   TriliumAppInfo,
   // Client types
   TriliumClientConfig,
+  TriliumClientBaseConfig,
+  SearchScopeOptions,
+  SearchIteratorOptions,
+  SearchIteratorOrderBy,
+  SearchAndMapIteratorOptions,
+  NoteContentOptions,
+  MappingBehaviourOptions,
+  NoteRepository,
+  NoteRepositoryOptions,
+  NoteRepositoryFindOptions,
+  NoteRepositoryInput,
+  TriliumTree,
+  TriliumPaths,
+  TriliumNotes,
+  TriliumAttributes,
+  BulkAttributeOptions,
+  BulkAttributeReport,
+  BulkAttributeFailure,
+  AttributeChange,
+  SetAttributeOptions,
+  RemoveAttributeOptions,
+  PlaceNoteOptions,
+  DetachNoteOptions,
+  TokenProvider,
   MappingFailure,
+  SchemaNote,
+  StandardSchemaV1,
+  TriliumErrorBody,
+  TriliumRequestInfo,
+  RetryOptions,
+  RetryInfo,
+  RequestControlOptions,
+  RateLimitOptions,
+  RateLimiterStats,
   // Mapping types
   StandardNote,
   CustomMapping,
   // Advanced: for standalone TriliumMapper use
   MappingConfig,
+  MapAsyncOptions,
+  TriliumMapperOptions,
+  MappingFieldError,
+  // Reverse mapping
+  NoteDiff,
+  MappedNoteData,
+  MappedObjectPatch,
+  MappedAttribute,
+  WritableNoteProperties,
+  // Note content
+  ContentFormat,
+  NoteWithContent,
+  // Attribute inheritance
+  NoteLoader,
+  InheritanceOptions,
+  // Relation resolution
+  RelationLoader,
+  ResolveOptions,
+  ResolvedRelations,
+  // Tree traversal
+  TreeEntry,
+  TreeNode,
+  TreeWalkOptions,
+  ChildEntry,
+  ChildEntryLoader,
+  // Note paths
+  NotePath,
+  NotePathSegment,
+  NotePathOptions,
+  EnsurePathOptions,
+  // Child notes
+  NoteWithBranch,
+  ChildrenLoader,
+  ChildrenQuery,
+  LoadedChildren,
   // Query builder type (for typing query objects)
   TriliumSearchHelpers,
+  SearchBuilderOptions,
+  SearchBuilderValue,
+  SearchBuilderGroup,
   // OpenAPI types for advanced usage
   paths,
   components,
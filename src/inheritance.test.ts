@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ownedAttributes, resolveInheritedAttributes } from './inheritance.js';
+import type { TriliumAttribute, TriliumNote } from './client.js';
+
+function label(noteId: string, name: string, value: string, isInheritable = false, position = 0): TriliumAttribute {
+  return { attributeId: `${noteId}-${name}-${value}`, noteId, type: 'label', name, value, isInheritable, position };
+}
+
+function relation(noteId: string, name: string, value: string): TriliumAttribute {
+  return { attributeId: `${noteId}-${name}`, noteId, type: 'relation', name, value, isInheritable: false, position: 0 };
+}
+
+function note(noteId: string, parentNoteIds: string[], attributes: TriliumAttribute[] = []): TriliumNote {
+  return { noteId, title: noteId, parentNoteIds, attributes };
+}
+
+describe('resolveInheritedAttributes', () => {
+  // root > config (#theme=dark inheritable, #private) > child; a template with #icon and #template
+  const notes = new Map<string, TriliumNote>([
+    ['root', note('root', ['none'], [label('root', 'lang', 'en', true)])],
+    ['config', note('config', ['root'], [label('config', 'theme', 'dark', true), label('config', 'private', 'yes')])],
+    ['tpl', note('tpl', ['root'], [label('tpl', 'template', ''), label('tpl', 'icon', 'bx-book'), label('tpl', 'theme', 'light')])],
+  ]);
+  const createLoader = () => vi.fn(async (ids: string[]) => ids.flatMap((id) => notes.get(id) ?? []));
+
+  it('should inherit inheritable attributes from ancestors', async () => {
+    const [resolved] = await resolveInheritedAttributes([note('child', ['config'], [label('child', 'slug', 'a')])], createLoader());
+
+    expect(resolved!.attributes!.map((attr) => `${attr.name}=${attr.value}`)).toEqual(['slug=a', 'theme=dark', 'lang=en']);
+  });
+
+  it('should apply template attributes before parent attributes, without the template marker', async () => {
+    const child = note('child', ['config'], [relation('child', 'template', 'tpl')]);
+    const [resolved] = await resolveInheritedAttributes([child], createLoader());
+
+    expect(resolved!.attributes!.map((attr) => attr.name)).toEqual(['template', 'icon', 'theme', 'lang', 'theme']);
+    expect(resolved!.attributes!.find((attr) => attr.name === 'theme')?.value).toBe('light');
+  });
+
+  it('should load each ancestor once and reuse the cache', async () => {
+    const load = createLoader();
+    const cache = new Map<string, TriliumNote>();
+    const batch = [note('a', ['config']), note('b', ['config'])];
+
+    await resolveInheritedAttributes(batch, load, { cache });
+    await resolveInheritedAttributes([note('c', ['config'])], load, { cache });
+
+    expect(load.mock.calls).toEqual([[['config']], [['root']]]);
+  });
+
+  it('should skip missing notes and template cycles', async () => {
+    const cyclic = new Map<string, TriliumNote>([
+      ['x', note('x', ['gone'], [relation('x', 'inherit', 'y'), label('x', 'from', 'x')])],
+      ['y', note('y', [], [relation('y', 'inherit', 'x'), label('y', 'from', 'y')])],
+    ]);
+    const [resolved] = await resolveInheritedAttributes([cyclic.get('x')!], async (ids) => ids.flatMap((id) => cyclic.get(id) ?? []));
+
+    expect(resolved!.attributes!.filter((attr) => attr.name === 'from').map((attr) => attr.value)).toEqual(['x', 'y']);
+  });
+});
+
+describe('ownedAttributes', () => {
+  it('should leave out attributes of other notes and sort by position', () => {
+    const own = note('n', [], [label('n', 'b', '2', false, 20), label('p', 'x', '1'), label('n', 'a', '1', false, 10)]);
+    expect(ownedAttributes(own).map((attr) => attr.name)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Attribute Inheritance
+ *
+ * ETAPI returns only the attributes a note owns. Trilium also applies the
+ * attributes of `~template` / `~inherit` targets and the inheritable attributes
+ * of parent notes. This module loads those notes and resolves the effective
+ * attributes with Trilium's precedence: owned, then template, then parents.
+ */
+
+import type { TriliumAttribute, TriliumNote } from './client.js';
+
+/** Loads notes by ID; notes that don't exist are left out of the result */
+export type NoteLoader = (noteIds: string[]) => Promise<TriliumNote[]>;
+
+/** Options for resolveInheritedAttributes */
+export interface InheritanceOptions {
+  /**
+   * Optional: parents and templates loaded so far, by noteId. Pass the same map
+   * to several calls to share ancestors across batches.
+   */
+  cache?: Map<string, TriliumNote>;
+}
+
+/** Relations that copy all attributes of their target */
+const TEMPLATE_RELATIONS = ['template', 'inherit'];
+
+/** Labels marking a note as a template, which aren't passed on to its instances */
+const TEMPLATE_MARKERS = ['template', 'workspaceTemplate'];
+
+/** The parent of the root note */
+const NO_PARENT = 'none';
+
+/**
+ * Replaces the attributes of notes with their effective attributes, including
+ * those inherited from parents and templates.
+ *
+ * Ancestors and templates are fetched one level at a time, each note once.
+ * Attributes come in order of precedence: owned attributes first, then those of
+ * `~template` / `~inherit` targets, then inheritable attributes of parents.
+ * Single-valued fields therefore read the nearest value.
+ *
+ * @param notes - The notes to resolve
+ * @param load - Fetches notes by ID (e.g., from the ETAPI)
+ * @param options - Optional: a cache of loaded ancestors
+ * @returns Copies of the notes with their effective attributes
+ *
+ * @example
+ * const [note] = await resolveInheritedAttributes([child], (ids) => Promise.all(ids.map(getNote)));
+ * note.attributes // => child's own attributes, then '#theme' inherited from a parent
+ */
+export async function resolveInheritedAttributes(
+  notes: TriliumNote[],
+  load: NoteLoader,
+  options: InheritanceOptions = {}
+): Promise<TriliumNote[]> {
+  const loaded = options.cache ?? new Map<string, TriliumNote>();
+  const visited = new Set<string>();
+
+  // Walk up parents and across templates until every source is loaded
+  let level = notes;
+  while (level.length > 0) {
+    const sources = [...new Set(level.flatMap(sourceIds))].filter((noteId) => !visited.has(noteId));
+    sources.forEach((noteId) => visited.add(noteId));
+
+    const missing = sources.filter((noteId) => !loaded.has(noteId));
+    for (const note of missing.length > 0 ? await load(missing) : []) {
+      if (note.noteId) loaded.set(note.noteId, note);
+    }
+    level = sources.flatMap((noteId) => loaded.get(noteId) ?? []);
+  }
+
+  const resolved = new Map<string, TriliumAttribute[]>();
+  const effective = (note: TriliumNote, path: string[]): TriliumAttribute[] => {
+    const cached = note.noteId ? resolved.get(note.noteId) : undefined;
+    if (cached) return cached;
+
+    const chain = note.noteId ? [...path, note.noteId] : path;
+    const from = (noteId: string, keep: (attr: TriliumAttribute) => boolean) => {
+      const source = loaded.get(noteId);
+      // Template cycles are skipped
+      return source && !chain.includes(noteId) ? effective(source, chain).filter(keep) : [];
+    };
+
+    const attributes = uniqueAttributes([
+      ...ownedAttributes(note),
+      ...templateIds(note).flatMap((noteId) => from(noteId, (attr) => !(attr.type === 'label' && TEMPLATE_MARKERS.includes(attr.name ?? '')))),
+      ...parentIds(note).flatMap((noteId) => from(noteId, (attr) => attr.isInheritable === true)),
+    ]);
+    if (note.noteId) resolved.set(note.noteId, attributes);
+    return attributes;
+  };
+
+  return notes.map((note) => ({ ...note, attributes: effective(note, []) }));
+}
+
+/**
+ * Returns the attributes a note owns, ordered by position.
+ * Attributes without a noteId are treated as owned.
+ *
+ * @param note - The note
+ * @returns The owned attributes, leaving out inherited ones
+ */
+export function ownedAttributes(note: TriliumNote): TriliumAttribute[] {
+  return (note.attributes ?? [])
+    .filter((attr) => attr.noteId === undefined || attr.noteId === note.noteId)
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+}
+
+/**
+ * Returns the notes a note inherits from: templates and parents
+ * @private
+ */
+function sourceIds(note: TriliumNote): string[] {
+  return [...templateIds(note), ...parentIds(note)];
+}
+
+/**
+ * Returns the targets of a note's own `~template` / `~inherit` relations
+ * @private
+ */
+function templateIds(note: TriliumNote): string[] {
+  return ownedAttributes(note)
+    .filter((attr) => attr.type === 'relation' && TEMPLATE_RELATIONS.includes(attr.name ?? '') && attr.value)
+    .map((attr) => attr.value!);
+}
+
+/**
+ * Returns a note's parents
+ * @private
+ */
+function parentIds(note: TriliumNote): string[] {
+  return (note.parentNoteIds ?? []).filter((noteId) => noteId !== NO_PARENT);
+}
+
+/**
+ * Drops attributes reached through more than one path (e.g., a shared ancestor of clones)
+ * @private
+ */
+function uniqueAttributes(attributes: TriliumAttribute[]): TriliumAttribute[] {
+  const seen = new Set<string>();
+  return attributes.filter((attr) => {
+    if (!attr.attributeId) return true;
+    if (seen.has(attr.attributeId)) return false;
+    seen.add(attr.attributeId);
+    return true;
+  });
+}
@@ -1,6 +1,7 @@
-import { describe, it, expect } from 'vitest';
-import { buildSearchQuery, TriliumMapper, transforms } from './mapper.js';
+import { describe, it, expect, vi } from 'vitest';
+import { buildSearchQuery, combineSearchQueries, quoteSearchString, raw, TriliumMapper, transforms, TriliumMappingError, type ComparisonOperator, type MappingConfig, type NoteWithContent, type NoteWithBranch, type ChildrenLoader } from './mapper.js';
 import type { TriliumNote } from './client.js';
+import type { StandardSchemaV1 } from './schema.js';
 
 // ============================================================================
 // buildSearchQuery Tests
@@ -46,6 +47,10 @@ describe('buildSearchQuery', () => {
       expect(buildSearchQuery({ '~category': { value: 'Tech', operator: '=' } })).toBe("~category = 'Tech'");
     });
 
+    it('should handle relation presence check', () => {
+      expect(buildSearchQuery({ '~author': true })).toBe('~author');
+    });
+
     it('should handle nested relation property', () => {
       expect(buildSearchQuery({ '~author.title': 'John Doe' })).toBe("~author.title = 'John Doe'");
     });
@@ -132,6 +137,81 @@ describe('buildSearchQuery', () => {
     });
   });
 
+  describe('escaping', () => {
+    it('should switch to double quotes for values containing single quotes', () => {
+      expect(buildSearchQuery({ '#author': "O'Brien" })).toBe(`#author = "O'Brien"`);
+    });
+
+    it('should switch to backticks when both quote styles occur', () => {
+      expect(buildSearchQuery({ title: `It's "quoted"` })).toBe("note.title = `It's \"quoted\"`");
+    });
+
+    it('should escape the quote when all quote styles occur', () => {
+      expect(buildSearchQuery({ title: `'"\`` })).toBe(`note.title = '\\'"\`'`);
+    });
+
+    it('should escape backslashes', () => {
+      expect(buildSearchQuery({ '#path': 'C:\\temp' })).toBe("#path = 'C:\\\\temp'");
+    });
+
+    it('should keep injected operators inside the string literal', () => {
+      expect(buildSearchQuery({ '#status': "x' OR #secret OR note.title = '" })).toBe(
+        `#status = "x' OR #secret OR note.title = '"`,
+      );
+    });
+
+    it('should escape values in relations and condition values', () => {
+      expect(buildSearchQuery({ '~author': "O'Brien" })).toBe(`~author *=* "O'Brien"`);
+      expect(buildSearchQuery({ '~author.title': { value: "O'Brien", operator: '=*' } })).toBe(`~author.title =* "O'Brien"`);
+      expect(buildSearchQuery({ '#tags': { value: "it's", operator: '*=*' } })).toBe(`#tags *=* "it's"`);
+    });
+
+    it('should reject label, relation and property names that alter the query', () => {
+      expect(() => buildSearchQuery({ '#blog OR #secret': true })).toThrow("Invalid label name 'blog OR #secret'");
+      expect(() => buildSearchQuery({ '~author)': 'x' })).toThrow('Invalid relation name');
+      expect(() => buildSearchQuery({ 'title = 1 OR note.type': 'x' })).toThrow('Invalid note property name');
+    });
+
+    it('should reject unknown comparison operators', () => {
+      const operator = "= 'a' OR #secret" as ComparisonOperator;
+      expect(() => buildSearchQuery({ '#status': { value: 'x', operator } })).toThrow(`Invalid comparison operator '${operator}'`);
+      expect(() => buildSearchQuery({ '~author': { value: 'x', operator } })).toThrow('Invalid comparison operator');
+      expect(() => buildSearchQuery({ title: { value: 'x', operator } })).toThrow('Invalid comparison operator');
+      expect(buildSearchQuery({ '#count': { value: 3, operator: '>=' } })).toBe('#count >= 3');
+    });
+
+    it('should accept namespaced and unicode names', () => {
+      expect(buildSearchQuery({ '#app:css': true, '#čeština': true })).toBe('#app:css AND #čeština');
+    });
+
+    it('should reject non-finite numbers', () => {
+      expect(() => buildSearchQuery({ '#count': NaN })).toThrow('Invalid search value');
+    });
+  });
+
+  describe('raw fragments', () => {
+    it('should insert raw values without quoting', () => {
+      expect(buildSearchQuery({ '#dueDate': { value: raw('TODAY+7'), operator: '<=' } })).toBe('#dueDate <= TODAY+7');
+      expect(buildSearchQuery({ '#month': raw('MONTH') })).toBe('#month = MONTH');
+    });
+
+    it('should insert raw conditions as-is', () => {
+      expect(buildSearchQuery(raw('#a OR #b'))).toBe('#a OR #b');
+      expect(buildSearchQuery({ AND: [{ '#blog': true }, raw('(#a OR #b)')] })).toBe('#blog AND (#a OR #b)');
+      expect(buildSearchQuery({ NOT: raw('#draft') })).toBe('not(#draft)');
+    });
+  });
+
+  describe('quoteSearchString', () => {
+    it('should prefer single quotes', () => {
+      expect(quoteSearchString('hello')).toBe("'hello'");
+    });
+
+    it('should handle empty strings', () => {
+      expect(quoteSearchString('')).toBe("''");
+    });
+  });
+
   describe('edge cases', () => {
     it('should return empty string for empty object', () => {
       expect(buildSearchQuery({})).toBe('');
@@ -143,6 +223,36 @@ describe('buildSearchQuery', () => {
   });
 });
 
+describe('combineSearchQueries', () => {
+  it('should return the condition for an empty query', () => {
+    expect(combineSearchQueries('', "note.type = 'text'")).toBe("note.type = 'text'");
+    expect(combineSearchQueries('   ', "note.type = 'text'")).toBe("note.type = 'text'");
+  });
+
+  it('should AND the condition with an expression query', () => {
+    expect(combineSearchQueries('#blog OR #news', "note.type = 'text'")).toBe("note.type = 'text' AND (#blog OR #news)");
+  });
+
+  it('should keep full-text words in front', () => {
+    expect(combineSearchQueries('dark towers #book', "note.type = 'text'")).toBe("dark towers note.type = 'text' AND (#book)");
+  });
+
+  it('should handle pure full-text queries', () => {
+    expect(combineSearchQueries('dark towers', "note.type = 'text'")).toBe("dark towers note.type = 'text'");
+  });
+
+  it('should treat parentheses and note properties as expressions', () => {
+    expect(combineSearchQueries("(#a OR #b) AND #c", '#d')).toBe('#d AND ((#a OR #b) AND #c)');
+    expect(combineSearchQueries("note.title *= 'x'", '#d')).toBe("#d AND (note.title *= 'x')");
+  });
+
+  it('should treat not() as an expression', () => {
+    expect(combineSearchQueries('not(#draft)', "note.noteId = 'x'")).toBe("note.noteId = 'x' AND (not(#draft))");
+    expect(combineSearchQueries('towers not(#draft)', '#book')).toBe('towers #book AND (not(#draft))');
+    expect(combineSearchQueries('nothing', '#book')).toBe('nothing #book');
+  });
+});
+
 // ============================================================================
 // TriliumMapper Tests
 // ============================================================================
@@ -507,6 +617,739 @@ describe('TriliumMapper', () => {
       expect(result.title).toBe('Correct Title');
     });
   });
+
+  describe('multi-valued fields', () => {
+    interface Tagged {
+      tags: string[];
+      related: string[];
+      scores: number[];
+    }
+
+    const attr = (attributeId: string, type: 'label' | 'relation', name: string, value: string, position: number) =>
+      ({ attributeId, noteId: 'test123', type, name, value, position, isInheritable: false });
+
+    const note = createMockNote({
+      attributes: [
+        attr('a1', 'label', 'tag', 'beta', 20),
+        attr('a2', 'label', 'tag', 'alpha', 10),
+        attr('a3', 'relation', 'relatedTo', 'note2', 30),
+        attr('a4', 'relation', 'relatedTo', 'note1', 0),
+        attr('a5', 'label', 'tag', 'gamma', 40),
+        attr('a6', 'label', 'score', '3', 0),
+        attr('a7', 'label', 'score', 'n/a', 1),
+        attr('a8', 'label', 'score', '5', 2),
+      ],
+    });
+
+    it('should return all values in position order with the [] suffix', () => {
+      const mapper = new TriliumMapper<Tagged>({ tags: '#tag[]', related: '~relatedTo[]' });
+      const result = mapper.map(note);
+
+      expect(result.tags).toEqual(['alpha', 'beta', 'gamma']);
+      expect(result.related).toEqual(['note1', 'note2']);
+    });
+
+    it('should support the multiple option', () => {
+      const mapper = new TriliumMapper<Tagged>({ tags: { from: '#tag', multiple: true } });
+      expect(mapper.map(note).tags).toEqual(['alpha', 'beta', 'gamma']);
+    });
+
+    it('should apply transforms per element and drop undefined results', () => {
+      const mapper = new TriliumMapper<Tagged>({ scores: { from: '#score[]', transform: transforms.number } });
+      expect(mapper.map(note).scores).toEqual([3, 5]);
+    });
+
+    it('should use the default when no attribute matches', () => {
+      const mapper = new TriliumMapper<Tagged>({ tags: { from: '#missing[]', default: [] } });
+      expect(mapper.map(note).tags).toEqual([]);
+    });
+
+    it('should treat an empty list as missing for required fields', () => {
+      const mapper = new TriliumMapper<Tagged>({ tags: { from: '#missing[]', required: true } });
+      expect(() => mapper.map(note)).toThrow("Required field 'tags' missing");
+    });
+
+    it('should write one attribute per element', () => {
+      const mapper = new TriliumMapper<Tagged>({
+        tags: '#tag[]',
+        scores: { from: '#score', multiple: true, transform: transforms.number },
+      });
+
+      expect(mapper.toNote({ tags: ['a', 'b'], scores: [1, 2] }).attributes).toEqual([
+        { type: 'label', name: 'tag', value: 'a' },
+        { type: 'label', name: 'tag', value: 'b' },
+        { type: 'label', name: 'score', value: '1' },
+        { type: 'label', name: 'score', value: '2' },
+      ]);
+    });
+
+    it('should call to() per element', () => {
+      const mapper = new TriliumMapper<Tagged>({ tags: { from: '#tag[]', to: (value) => String(value).toUpperCase() } });
+      expect(mapper.toNote({ tags: ['a'] }).attributes).toEqual([{ type: 'label', name: 'tag', value: 'A' }]);
+    });
+
+    describe('diff', () => {
+      const mapper = new TriliumMapper<Tagged>({ tags: '#tag[]', related: '~relatedTo[]' });
+
+      it('should return no changes for unchanged values', () => {
+        const diff = mapper.diff(note, mapper.map(note));
+        expect(diff).toEqual({ noteId: 'test123', properties: {}, create: [], update: [], delete: [] });
+      });
+
+      it('should update attributes in position order and create extra values', () => {
+        const diff = mapper.diff(note, { tags: ['alpha', 'delta', 'gamma', 'omega'] });
+
+        expect(diff.update).toEqual([{ attributeId: 'a1', type: 'label', name: 'tag', value: 'delta' }]);
+        expect(diff.create).toEqual([{ type: 'label', name: 'tag', value: 'omega' }]);
+        expect(diff.delete).toEqual([]);
+      });
+
+      it('should delete surplus attributes', () => {
+        const diff = mapper.diff(note, { related: ['note1'] });
+
+        expect(diff.update).toEqual([]);
+        expect(diff.delete).toEqual([{ attributeId: 'a3', type: 'relation', name: 'relatedTo' }]);
+      });
+
+      it('should delete all attributes when cleared', () => {
+        for (const tags of [null, undefined, []]) {
+          expect(mapper.diff(note, { tags }).delete.map((d) => d.attributeId)).toEqual(['a2', 'a1', 'a5']);
+        }
+      });
+    });
+  });
+
+  describe('relation resolution', () => {
+    interface Person {
+      id: string;
+      name: string;
+      friends: (Person | string)[];
+    }
+
+    interface Post {
+      title: string;
+      author: Person | string;
+    }
+
+    const relation = (attributeId: string, name: string, value: string, position = 0) =>
+      ({ attributeId, noteId: 'x', type: 'relation' as const, name, value, position, isInheritable: false });
+
+    // a <-> b are friends; a is also friends with c
+    const people: Record<string, TriliumNote> = {
+      a: createMockNote({ noteId: 'a', title: 'Ann', attributes: [relation('r1', 'friend', 'b', 0), relation('r2', 'friend', 'c', 1)] }),
+      b: createMockNote({ noteId: 'b', title: 'Bob', attributes: [relation('r3', 'friend', 'a')] }),
+      c: createMockNote({ noteId: 'c', title: 'Cat', attributes: [] }),
+    };
+
+    const personMapping: MappingConfig<Person> = { id: 'note.noteId', name: 'note.title' };
+    personMapping.friends = { from: '~friend[]', resolve: personMapping };
+
+    const mapper = new TriliumMapper<Post>({
+      title: 'note.title',
+      author: { from: '~author', resolve: personMapping },
+    });
+
+    const post = createMockNote({ noteId: 'p', title: 'Post', attributes: [relation('r0', 'author', 'a')] });
+
+    const loader = () => {
+      const load = vi.fn(async (ids: string[]) => ids.map((id) => people[id]).filter((note) => note !== undefined));
+      return load;
+    };
+
+    it('should keep the target noteId without loaded relations', () => {
+      expect(mapper.map(post).author).toBe('a');
+    });
+
+    it('should load each level with one call and map targets with the nested mapping', async () => {
+      const load = loader();
+      const relations = await mapper.loadRelations([post], load);
+
+      expect(load.mock.calls).toEqual([[['a']], [['b', 'c']]]);
+      expect(mapper.map(post, relations).author).toEqual({
+        id: 'a',
+        name: 'Ann',
+        friends: [
+          { id: 'b', name: 'Bob', friends: ['a'] },
+          { id: 'c', name: 'Cat', friends: undefined },
+        ],
+      });
+    });
+
+    it('should stop at maxDepth', async () => {
+      const load = loader();
+      const relations = await mapper.loadRelations([post], load, { maxDepth: 1 });
+
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(mapper.map(post, relations).author).toEqual({ id: 'a', name: 'Ann', friends: ['b', 'c'] });
+    });
+
+    it('should not fetch notes that are already loaded or cached', async () => {
+      const load = loader();
+      const cache = new Map([['a', people.a!]]);
+      const relations = await mapper.loadRelations([post, people.b!], load, { cache, maxDepth: 2 });
+
+      expect(load.mock.calls).toEqual([[['c']]]);
+      expect(cache.has('c')).toBe(true);
+      expect(relations.notes.get('b')).toBe(people.b);
+    });
+
+    it('should leave missing targets undefined and apply the default', async () => {
+      const withDefault = new TriliumMapper<Post>({ author: { from: '~author', resolve: personMapping, default: 'anonymous' } });
+      const orphan = createMockNote({ attributes: [relation('r0', 'author', 'deleted')] });
+      const relations = await withDefault.loadRelations([orphan], loader());
+
+      expect(withDefault.map(orphan, relations).author).toBe('anonymous');
+    });
+
+    it('should write resolved targets back as their noteId', () => {
+      expect(mapper.toNote({ author: { id: 'b', name: 'Bob', friends: [] } }).attributes).toEqual([
+        { type: 'relation', name: 'author', value: 'b' },
+      ]);
+      expect(mapper.diff(post, { author: { id: 'a', name: 'Ann', friends: [] } }).update).toEqual([]);
+    });
+  });
+
+  describe('child notes', () => {
+    interface Lesson {
+      title: string;
+      prefix?: string;
+      position?: number;
+      teacher?: { name: string } | string;
+      parts?: Lesson[];
+    }
+
+    interface Course {
+      title: string;
+      lessons: Lesson[];
+    }
+
+    const branch = (noteId: string, notePosition: number, prefix?: string) =>
+      ({ branchId: `course_${noteId}`, noteId, parentNoteId: 'course', notePosition, ...(prefix ? { prefix } : {}) });
+
+    const course = createMockNote({ noteId: 'course', title: 'TypeScript' });
+    const lessons: NoteWithBranch[] = [
+      { ...createMockNote({ noteId: 'l1', title: 'Types' }), branch: branch('l1', 10, '1.') },
+      { ...createMockNote({ noteId: 'l2', title: 'Generics', attributes: [
+        { attributeId: 'r1', noteId: 'l2', type: 'relation', name: 'teacher', value: 't', position: 0, isInheritable: false },
+      ] }), branch: branch('l2', 20, '2.') },
+    ];
+    const teacher = createMockNote({ noteId: 't', title: 'Tim' });
+
+    const mapper = new TriliumMapper<Course>({
+      title: 'note.title',
+      lessons: {
+        children: {
+          title: 'note.title',
+          prefix: 'branch.prefix',
+          position: 'branch.notePosition',
+          teacher: { from: '~teacher', resolve: { name: 'note.title' } },
+        },
+        default: [],
+      },
+    });
+
+    it('should apply the default without loaded children', () => {
+      expect(mapper.map(course).lessons).toEqual([]);
+    });
+
+    it('should load children with the field query and map them with their branch', async () => {
+      const load = vi.fn<ChildrenLoader>(async () => lessons);
+      const children = await mapper.loadChildren([course], load);
+
+      expect(load).toHaveBeenCalledWith(course, { depth: 1, content: false });
+      expect(mapper.map(course, { notes: new Map(), maxDepth: 0, children }).lessons).toEqual([
+        { title: 'Types', prefix: '1.', position: 10, teacher: undefined },
+        { title: 'Generics', prefix: '2.', position: 20, teacher: 't' },
+      ]);
+    });
+
+    it('should resolve the relations of loaded children', async () => {
+      const children = await mapper.loadChildren([course], async () => lessons);
+      const load = vi.fn(async (ids: string[]) => ids.map(() => teacher));
+      const relations = await mapper.loadRelations([course], load, { children });
+
+      expect(load.mock.calls).toEqual([[['t']]]);
+      expect(mapper.map(course, relations).lessons[1]?.teacher).toEqual({ name: 'Tim' });
+    });
+
+    it('should order by title and expand nested children fields', async () => {
+      const lessonMapping: MappingConfig<Lesson> = { title: 'note.title' };
+      lessonMapping.parts = { children: lessonMapping, orderBy: 'title', filter: { '#published': true }, depth: 2 };
+      const nested = new TriliumMapper<Course>({ title: 'note.title', lessons: { children: lessonMapping, orderBy: 'title' } });
+
+      const load = vi.fn<ChildrenLoader>(async (parent) => parent.noteId === 'course' ? lessons : []);
+      const children = await nested.loadChildren([course], load);
+
+      expect(load.mock.calls.map(([parent, query]) => [parent.noteId, query.depth, query.filter])).toEqual([
+        ['course', 1, undefined],
+        ['l1', 2, { '#published': true }],
+        ['l2', 2, { '#published': true }],
+      ]);
+      expect(nested.map(course, { notes: new Map(), maxDepth: 0, children }).lessons).toEqual([
+        { title: 'Generics', parts: [] },
+        { title: 'Types', parts: [] },
+      ]);
+    });
+
+    it('should order descendants by title among their siblings', () => {
+      const flat = new TriliumMapper<{ titles: { title: string }[] }>({ titles: { children: { title: 'note.title' }, orderBy: 'title', depth: 2 } });
+      const child = (noteId: string, parentNoteId: string): NoteWithBranch => ({
+        ...createMockNote({ noteId, title: noteId }),
+        branch: { branchId: `${parentNoteId}_${noteId}`, noteId, parentNoteId },
+      });
+      const descendants = [child('b', 'course'), child('z', 'b'), child('c', 'b'), child('a', 'course'), child('y', 'a')];
+      const children = new Map([['course:2:', descendants]]);
+
+      expect(flat.map(course, { notes: new Map(), maxDepth: 0, children }).titles.map(({ title }) => title)).toEqual([
+        'a', 'y', 'b', 'c', 'z',
+      ]);
+    });
+
+    it('should report failures of child mappings on the children field', () => {
+      const failing = new TriliumMapper<Course>({ lessons: { children: { title: { from: 'note.title', required: true } } } });
+      const children = new Map([[`course:1:`, [{ ...createMockNote({ noteId: 'l3' }), title: undefined } as unknown as NoteWithBranch]]]);
+
+      expect(() => failing.map(course, { notes: new Map(), maxDepth: 0, children })).toThrow(
+        "Field 'lessons' failed for note course (TypeScript): Required field 'title' missing from note l3 (undefined)"
+      );
+    });
+
+    it('should not write children fields back', () => {
+      expect(mapper.toNote({ title: 'New', lessons: [{ title: 'x' }] })).toEqual({ properties: { title: 'New' }, attributes: [] });
+    });
+  });
+
+  describe('note content', () => {
+    interface Page {
+      html: string;
+      body: string;
+      excerpt: string;
+    }
+
+    const mapper = new TriliumMapper<Page>({
+      html: 'note.content',
+      body: { from: 'note.content', as: 'markdown' },
+      excerpt: { from: 'note.content', as: 'text', transform: (text?: string) => text?.slice(0, 5) },
+    });
+
+    it('should read content in the requested format', () => {
+      const note: NoteWithContent = { ...createMockNote(), content: '<p>Hello <em>world</em></p>' };
+
+      expect(mapper.map(note)).toEqual({
+        html: '<p>Hello <em>world</em></p>',
+        body: 'Hello _world_',
+        excerpt: 'Hello',
+      });
+    });
+
+    it('should not convert the content of non-text notes', () => {
+      const note: NoteWithContent = { ...createMockNote({ type: 'code', mime: 'text/x-python' }), content: 'a < b' };
+      expect(mapper.map(note).body).toBe('a < b');
+    });
+
+    it('should be undefined when the content was not loaded', () => {
+      expect(mapper.map(createMockNote()).body).toBeUndefined();
+    });
+
+    it('should report whether a mapping reads content', () => {
+      expect(mapper.readsContent()).toBe(true);
+      expect(new TriliumMapper<{ title: string }>({ title: 'note.title' }).readsContent()).toBe(false);
+    });
+
+    it('should not write content back', () => {
+      expect(mapper.toNote({ html: '<p>x</p>' })).toEqual({ properties: {}, attributes: [] });
+    });
+  });
+
+  describe('async mapping', () => {
+    interface Post {
+      title: string;
+      slug: string;
+      tags: string[];
+      related: number;
+      summary: string;
+    }
+
+    const delay = <V>(value: V) => new Promise<V>((resolve) => setTimeout(() => resolve(value), 1));
+
+    const mapper = new TriliumMapper<Post>({
+      title: 'note.title',
+      slug: { from: 'note.title', transform: (title: string) => delay(title.toLowerCase().replace(/\s+/g, '-')) },
+      tags: { from: '#tag[]', transform: (tag: string) => delay(tag === 'skip' ? undefined : tag.toUpperCase()) },
+      related: { from: (note) => delay(note.childNoteIds?.length ?? 0) },
+      summary: { computed: async (partial) => `${partial.slug} (${partial.related})` },
+    });
+
+    const note = createMockNote({
+      title: 'Hello World',
+      childNoteIds: ['c1', 'c2'],
+      attributes: [
+        { attributeId: 'a1', noteId: 'test123', type: 'label', name: 'tag', value: 'a', position: 0, isInheritable: false },
+        { attributeId: 'a2', noteId: 'test123', type: 'label', name: 'tag', value: 'skip', position: 1, isInheritable: false },
+      ],
+    });
+
+    it('should await async transforms, extractors and computed fields', async () => {
+      expect(await mapper.mapAsync(note)).toEqual({
+        title: 'Hello World',
+        slug: 'hello-world',
+        tags: ['A'],
+        related: 2,
+        summary: 'hello-world (2)',
+      });
+    });
+
+    it('should map arrays in order with bounded concurrency', async () => {
+      let active = 0;
+      let maxActive = 0;
+      const tracked = new TriliumMapper<{ title: string }>({
+        title: {
+          from: 'note.title',
+          transform: async (title: string) => {
+            maxActive = Math.max(maxActive, ++active);
+            await delay(null);
+            active--;
+            return title;
+          },
+        },
+      });
+
+      const notes = ['1', '2', '3', '4', '5'].map((title) => createMockNote({ title }));
+      const results = await tracked.mapAsync(notes, { concurrency: 2 });
+
+      expect(results.map((r) => r.title)).toEqual(['1', '2', '3', '4', '5']);
+      expect(maxActive).toBe(2);
+    });
+
+    it('should reject async fields in the sync map', () => {
+      expect(() => mapper.map(note)).toThrow("Field 'slug' of note test123 (Hello World) returned a Promise; use mapAsync()");
+    });
+
+    it('should name the failing field', async () => {
+      const failing = new TriliumMapper<{ slug: string }>({
+        slug: { from: 'note.title', transform: async () => { throw new Error('slug service unavailable'); } },
+      });
+
+      const error = await failing.mapAsync(note).catch((err: unknown) => err);
+      expect(error).toBeInstanceOf(TriliumMappingError);
+      expect(error).toMatchObject({
+        field: 'slug',
+        noteId: 'test123',
+        message: "Field 'slug' failed for note test123 (Hello World): slug service unavailable",
+      });
+    });
+
+    it('should name the field of sync errors too', () => {
+      const failing = new TriliumMapper<{ count: number }>({
+        count: { from: () => { throw new Error('boom'); } },
+      });
+      expect(() => failing.map(note)).toThrow(expect.objectContaining({ field: 'count' }));
+    });
+  });
+
+  describe('validation errors', () => {
+    interface Book {
+      isbn: string;
+      pages: number;
+      rating: number;
+    }
+
+    const config: MappingConfig<Book> = {
+      isbn: { from: '#isbn', required: true },
+      pages: { from: '#pages', transform: transforms.number, default: 0 },
+      rating: { from: '#rating', transform: () => { throw new Error('bad rating'); } },
+    };
+
+    const note = createMockNote({
+      attributes: [
+        { attributeId: 'a1', noteId: 'test123', type: 'label', name: 'pages', value: 'abc', position: 0, isInheritable: false },
+        { attributeId: 'a2', noteId: 'test123', type: 'label', name: 'rating', value: '5', position: 1, isInheritable: false },
+      ],
+    });
+
+    it('should collect every failing field', () => {
+      const error = (() => {
+        try {
+          new TriliumMapper<Book>(config).map(note);
+        } catch (err) {
+          return err;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(TriliumMappingError);
+      expect((error as TriliumMappingError).field).toBe('isbn');
+      expect((error as TriliumMappingError).errors).toEqual([
+        { field: 'isbn', path: '#isbn', kind: 'required', message: "Required field 'isbn' missing from note test123 (Test Note)", rawValue: undefined },
+        { field: 'rating', path: '#rating', kind: 'transform', message: "Field 'rating' failed for note test123 (Test Note): bad rating", rawValue: '5' },
+      ]);
+      expect((error as Error).message).toBe(
+        "2 fields failed for note test123 (Test Note): Required field 'isbn' missing from note test123 (Test Note); " +
+          "Field 'rating' failed for note test123 (Test Note): bad rating"
+      );
+    });
+
+    it('should report unconvertible values in strict mode', async () => {
+      const strict = new TriliumMapper<Pick<Book, 'pages'>>({ pages: config.pages! }, { strict: true });
+
+      expect(new TriliumMapper<Pick<Book, 'pages'>>({ pages: config.pages! }).map(note)).toEqual({ pages: 0 });
+      const error = await strict.mapAsync(note).catch((err: unknown) => err);
+      expect(error).toMatchObject({
+        message: 'Field \'pages\' of note test123 (Test Note) has invalid value "abc"',
+        errors: [{ field: 'pages', path: '#pages', kind: 'type', rawValue: 'abc' }],
+      });
+    });
+
+    it('should allow empty values and multi-valued fields in strict mode', () => {
+      const strict = new TriliumMapper<{ pages: number; counts: number[] }>(
+        {
+          pages: { from: '#pages', transform: transforms.number, default: 0 },
+          counts: { from: '#count[]', transform: transforms.number },
+        },
+        { strict: true }
+      );
+      const counted = createMockNote({
+        attributes: [
+          { attributeId: 'a1', noteId: 'test123', type: 'label', name: 'count', value: '1', position: 0, isInheritable: false },
+          { attributeId: 'a2', noteId: 'test123', type: 'label', name: 'count', value: 'x', position: 1, isInheritable: false },
+        ],
+      });
+
+      expect(strict.map(createMockNote())).toEqual({ pages: 0, counts: undefined });
+      expect(() => strict.map(counted)).toThrow(expect.objectContaining({ errors: [expect.objectContaining({ field: 'counts', rawValue: 'x' })] }));
+    });
+  });
+
+  describe('schema validation', () => {
+    interface Book {
+      title: string;
+      pages: number;
+    }
+
+    // A minimal Standard Schema: pages must be positive, title is trimmed
+    const bookSchema = (async = false): StandardSchemaV1<unknown, Book> => ({
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => {
+          const book = value as Book;
+          const result: StandardSchemaV1.Result<Book> = book.pages > 0
+            ? { value: { title: book.title.trim(), pages: book.pages } }
+            : { issues: [{ message: 'Must be positive', path: [{ key: 'pages' }] }] };
+          return async ? Promise.resolve(result) : result;
+        },
+      },
+    });
+
+    const config: MappingConfig<Book> = {
+      title: 'note.title',
+      pages: { from: '#pages', transform: transforms.number },
+    };
+    const noteWithPages = (pages: string) =>
+      createMockNote({
+        title: ' Dune ',
+        attributes: [{ attributeId: 'a1', noteId: 'test123', type: 'label', name: 'pages', value: pages, position: 0, isInheritable: false }],
+      });
+
+    it('should return the schema output', () => {
+      const mapper = new TriliumMapper(config, { schema: bookSchema() });
+      expect(mapper.map(noteWithPages('412'))).toEqual({ title: 'Dune', pages: 412 });
+    });
+
+    it('should keep fields the schema does not declare', () => {
+      const mapper = new TriliumMapper<Book & { id: string }>({ ...config, id: 'note.noteId' }, { schema: bookSchema() });
+      expect(mapper.map(noteWithPages('412'))).toEqual({ id: 'test123', title: 'Dune', pages: 412 });
+    });
+
+    it('should report validation issues as schema errors', () => {
+      const mapper = new TriliumMapper(config, { schema: bookSchema() });
+      expect(() => mapper.map(noteWithPages('-1'))).toThrow(
+        expect.objectContaining({
+          message: "Field 'pages' of note test123 ( Dune ) failed validation: Must be positive",
+          errors: [expect.objectContaining({ field: 'pages', path: '#pages', kind: 'schema', rawValue: -1 })],
+        })
+      );
+    });
+
+    it('should require mapAsync for async schemas', async () => {
+      const mapper = new TriliumMapper(config, { schema: bookSchema(true) });
+      expect(() => mapper.map(noteWithPages('412'))).toThrow('validates asynchronously; use mapAsync()');
+      expect(await mapper.mapAsync(noteWithPages('412'))).toEqual({ title: 'Dune', pages: 412 });
+    });
+
+    it('should skip the schema when fields already failed', () => {
+      const validate = vi.fn();
+      const mapper = new TriliumMapper<Book>(
+        { ...config, title: { from: '#missing', required: true } },
+        { schema: { '~standard': { version: 1, vendor: 'test', validate } } }
+      );
+      expect(() => mapper.map(noteWithPages('412'))).toThrow("Required field 'title'");
+      expect(validate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reverse mapping', () => {
+    interface Post {
+      id: string;
+      title: string;
+      slug: string;
+      published: boolean;
+      tags: string[];
+      publishedAt: Date;
+      authorId: string;
+      meta: { views: number };
+      wordCount: number;
+      readTime: number;
+      upperTitle: string;
+      authorName: string;
+    }
+
+    const mapper = new TriliumMapper<Post>({
+      id: 'note.noteId',
+      title: 'note.title',
+      slug: '#slug',
+      published: { from: '#published', transform: transforms.boolean, default: false },
+      tags: { from: '#tags', transform: transforms.commaSeparated, default: [] },
+      publishedAt: { from: '#publishedAt', transform: transforms.date },
+      authorId: '~author',
+      meta: { from: '#meta', transform: transforms.json },
+      wordCount: { from: '#wordCount', transform: transforms.number },
+      readTime: { computed: (partial) => Math.ceil((partial.wordCount ?? 0) / 200) },
+      upperTitle: { from: (note) => note.title?.toUpperCase() },
+      authorName: '~author.title',
+    });
+
+    const attr = (attributeId: string, type: 'label' | 'relation', name: string, value: string) =>
+      ({ attributeId, noteId: 'test123', type, name, value, position: 0, isInheritable: false });
+
+    describe('toNote', () => {
+      it('should derive the title, labels and relations with inverse transforms', () => {
+        const data = mapper.toNote({
+          id: 'ignored',
+          title: 'Hello',
+          slug: 'hello',
+          published: true,
+          tags: ['a', 'b'],
+          publishedAt: new Date('2024-03-01T10:00:00.000Z'),
+          authorId: 'author1',
+          meta: { views: 3 },
+          wordCount: 400,
+        });
+
+        expect(data.properties).toEqual({ title: 'Hello' });
+        expect(data.attributes).toEqual([
+          { type: 'label', name: 'slug', value: 'hello' },
+          { type: 'label', name: 'published', value: 'true' },
+          { type: 'label', name: 'tags', value: 'a,b' },
+          { type: 'label', name: 'publishedAt', value: '2024-03-01T10:00:00.000Z' },
+          { type: 'relation', name: 'author', value: 'author1' },
+          { type: 'label', name: 'meta', value: '{"views":3}' },
+          { type: 'label', name: 'wordCount', value: '400' },
+        ]);
+      });
+
+      it('should skip computed fields, function extractors, nested and read-only paths', () => {
+        const data = mapper.toNote({ id: 'x', readTime: 2, upperTitle: 'HELLO', authorName: 'Jane' });
+        expect(data).toEqual({ properties: {}, attributes: [] });
+      });
+
+      it('should skip undefined and null values', () => {
+        const data = mapper.toNote({ slug: undefined, publishedAt: null });
+        expect(data.attributes).toEqual([]);
+      });
+
+      it('should use an explicit to function', () => {
+        const custom = new TriliumMapper<{ rating: number }>({
+          rating: { from: '#rating', transform: (v: string) => Number(v) / 10, to: (value) => String(value * 10) },
+        });
+        expect(custom.toNote({ rating: 4.5 }).attributes).toEqual([{ type: 'label', name: 'rating', value: '45' }]);
+      });
+
+      it('should write note type and mime', () => {
+        const custom = new TriliumMapper<{ type: string; mime: string }>({ type: 'note.type', mime: 'note.mime' });
+        expect(custom.toNote({ type: 'code', mime: 'application/json' }).properties).toEqual({
+          type: 'code',
+          mime: 'application/json',
+        });
+      });
+    });
+
+    describe('diff', () => {
+      const note = createMockNote({
+        title: 'Hello',
+        attributes: [
+          attr('a1', 'label', 'slug', 'hello'),
+          attr('a2', 'label', 'tags', 'a, b'),
+          attr('a3', 'relation', 'author', 'author1'),
+          attr('a4', 'label', 'wordCount', '400'),
+        ],
+      });
+
+      it('should return no changes for an unchanged object', () => {
+        const diff = mapper.diff(note, mapper.map(note));
+        expect(diff).toEqual({ noteId: 'test123', properties: {}, create: [], update: [], delete: [] });
+      });
+
+      it('should compute property updates and attribute creates, updates and deletes', () => {
+        const diff = mapper.diff(note, {
+          title: 'Hello again',
+          slug: 'hello-again',
+          published: true,
+          authorId: 'author2',
+          wordCount: undefined,
+        });
+
+        expect(diff.properties).toEqual({ title: 'Hello again' });
+        expect(diff.create).toEqual([
+          { type: 'label', name: 'published', value: 'true' },
+          { type: 'relation', name: 'author', value: 'author2' },
+        ]);
+        expect(diff.update).toEqual([{ attributeId: 'a1', type: 'label', name: 'slug', value: 'hello-again' }]);
+        expect(diff.delete).toEqual([
+          { attributeId: 'a3', type: 'relation', name: 'author' },
+          { attributeId: 'a4', type: 'label', name: 'wordCount' },
+        ]);
+      });
+
+      it('should replace relations whose target changes, keeping them inheritable', () => {
+        const inheritable = createMockNote({ attributes: [{ ...attr('a3', 'relation', 'author', 'author1'), isInheritable: true }] });
+
+        expect(mapper.diff(inheritable, { authorId: 'author2' })).toMatchObject({
+          create: [{ type: 'relation', name: 'author', value: 'author2', isInheritable: true }],
+          update: [],
+          delete: [{ attributeId: 'a3', type: 'relation', name: 'author' }],
+        });
+      });
+
+      it('should only consider fields present in the object', () => {
+        const diff = mapper.diff(note, { published: false });
+        // false is the default for a missing #published label, so nothing changes
+        expect(diff).toEqual({ noteId: 'test123', properties: {}, create: [], update: [], delete: [] });
+      });
+
+      it('should not report formatting-only differences', () => {
+        expect(mapper.diff(note, { tags: ['a', 'b'] }).update).toEqual([]);
+        expect(mapper.diff(note, { tags: ['a', 'c'] }).update).toEqual([
+          { attributeId: 'a2', type: 'label', name: 'tags', value: 'a,c' },
+        ]);
+      });
+
+      it('should ignore deletes of attributes that do not exist', () => {
+        expect(mapper.diff(note, { publishedAt: null }).delete).toEqual([]);
+      });
+
+      it('should override inherited attributes on the note instead of changing their owner', () => {
+        const inherited = createMockNote({
+          attributes: [{ ...attr('p1', 'label', 'slug', 'from-parent'), noteId: 'parent', isInheritable: true }],
+        });
+
+        expect(mapper.diff(inherited, { slug: 'from-parent' }).create).toEqual([]);
+        expect(mapper.diff(inherited, { slug: 'own' })).toMatchObject({
+          create: [{ type: 'label', name: 'slug', value: 'own' }],
+          update: [],
+        });
+      });
+    });
+  });
 });
 
 // ============================================================================
@@ -635,4 +1478,153 @@ describe('transforms', () => {
       expect(transforms.trim(123)).toBe('123');
     });
   });
+
+  describe('integer', () => {
+    it('should accept whole numbers only', () => {
+      expect(transforms.integer('42')).toBe(42);
+      expect(transforms.integer('4.2')).toBeUndefined();
+      expect(transforms.integer('abc')).toBeUndefined();
+    });
+  });
+
+  describe('enum', () => {
+    it('should accept only the allowed values', () => {
+      const status = transforms.enum(['draft', 'published']);
+      const value: 'draft' | 'published' | undefined = status(' draft ');
+      expect(value).toBe('draft');
+      expect(status('archived')).toBeUndefined();
+      expect(status(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('clamp', () => {
+    it('should limit numbers to the range', () => {
+      const rating = transforms.clamp(1, 5);
+      expect([rating('7'), rating('0'), rating('3.5'), rating('x')]).toEqual([5, 1, 3.5, undefined]);
+    });
+  });
+
+  describe('split', () => {
+    it('should split on a string or regular expression', () => {
+      expect(transforms.split(';')('a; b;;c')).toEqual(['a', 'b', 'c']);
+      expect(transforms.split(/\s*\|\s*/)('a | b')).toEqual(['a', 'b']);
+      expect(transforms.split(';')('')).toBeUndefined();
+    });
+
+    it('should join values with the separator when writing', () => {
+      const mapper = new TriliumMapper<{ tags: string[] }>({ tags: { from: '#tags', transform: transforms.split(';') } });
+      expect(mapper.toNote({ tags: ['a', 'b'] }).attributes).toEqual([{ type: 'label', name: 'tags', value: 'a;b' }]);
+    });
+  });
+
+  describe('regex', () => {
+    it('should extract the match or a group', () => {
+      expect(transforms.regex(/\d+/)('412 pages')).toBe('412');
+      expect(transforms.regex(/^(\d+) pages$/, 1)('412 pages')).toBe('412');
+      expect(transforms.regex(/(?<year>\d{4})-\d{2}/, 'year')('2024-03')).toBe('2024');
+      expect(transforms.regex(/\d+/)('none')).toBeUndefined();
+    });
+  });
+
+  describe('slugify', () => {
+    it('should create URL slugs', () => {
+      expect(transforms.slugify('  Héllo, World! ')).toBe('hello-world');
+      expect(transforms.slugify('C++ & Rust 2024')).toBe('c-rust-2024');
+      expect(transforms.slugify('!!!')).toBeUndefined();
+    });
+  });
+
+  describe('localDateTime', () => {
+    it('should honor the UTC offset', () => {
+      expect(transforms.localDateTime('2024-01-15 09:30:00.000+0100')?.toISOString()).toBe('2024-01-15T08:30:00.000Z');
+      expect(transforms.localDateTime('2024-01-15 09:30:00.000-05:30')?.toISOString()).toBe('2024-01-15T15:00:00.000Z');
+      expect(transforms.localDateTime('2024-01-15T09:30:00Z')?.toISOString()).toBe('2024-01-15T09:30:00.000Z');
+    });
+
+    it('should reject other formats', () => {
+      expect(transforms.localDateTime('15.01.2024')).toBeUndefined();
+      expect(transforms.localDateTime('2024-13-45 09:30:00.000+0100')).toBeUndefined();
+    });
+
+    it('should write UTC LocalDateTime values', () => {
+      const mapper = new TriliumMapper<{ due: Date }>({ due: { from: '#due', transform: transforms.localDateTime } });
+      expect(mapper.toNote({ due: new Date('2024-01-15T08:30:00.000Z') }).attributes).toEqual([
+        { type: 'label', name: 'due', value: '2024-01-15 08:30:00.000+0000' },
+      ]);
+    });
+  });
+
+  describe('url', () => {
+    it('should accept absolute URLs', () => {
+      expect(transforms.url(' https://example.com/a?b=1 ')).toBe('https://example.com/a?b=1');
+      expect(transforms.url('example.com')).toBeUndefined();
+    });
+  });
+
+  describe('color', () => {
+    it('should accept hex, functional and named colors', () => {
+      expect(transforms.color('#FF8800')).toBe('#ff8800');
+      expect(transforms.color('rgb(255, 0, 0)')).toBe('rgb(255, 0, 0)');
+      expect(transforms.color('Red')).toBe('red');
+      expect(transforms.color('#12345')).toBeUndefined();
+      expect(transforms.color('reddish')).toBeUndefined();
+    });
+  });
+
+  describe('duration', () => {
+    it('should parse units, clock time and ISO 8601 to milliseconds', () => {
+      expect(transforms.duration('1h 30m')).toBe(5_400_000);
+      expect(transforms.duration('1.5h')).toBe(5_400_000);
+      expect(transforms.duration('500ms')).toBe(500);
+      expect(transforms.duration('1:30')).toBe(5_400_000);
+      expect(transforms.duration('0:01:15')).toBe(75_000);
+      expect(transforms.duration('PT1H30M')).toBe(5_400_000);
+      expect(transforms.duration('P1DT2H')).toBe(93_600_000);
+      expect(transforms.duration('250')).toBe(250);
+    });
+
+    it('should reject invalid durations', () => {
+      expect(transforms.duration('1 hour')).toBeUndefined();
+      expect(transforms.duration('PT')).toBeUndefined();
+      expect(transforms.duration('')).toBeUndefined();
+    });
+
+    it('should write durations with units', () => {
+      const mapper = new TriliumMapper<{ length: number }>({ length: { from: '#length', transform: transforms.duration } });
+      expect(mapper.toNote({ length: 5_430_000 }).attributes).toEqual([{ type: 'label', name: 'length', value: '1h30m30s' }]);
+    });
+  });
+
+  describe('compose', () => {
+    it('should chain transforms and stop at undefined', () => {
+      const wordCount = transforms.compose(transforms.trim, (text) => text.split(/\s+/).length);
+      const count: number | undefined = wordCount(' a b c ');
+      expect(count).toBe(3);
+      expect(wordCount('   ')).toBeUndefined();
+    });
+  });
+
+  describe('optional and nullable', () => {
+    const parse = (value: unknown) => {
+      if (typeof value !== 'string') throw new Error('not a string');
+      return value.length;
+    };
+
+    it('should skip the transform for empty values', () => {
+      expect(transforms.optional(parse)(undefined)).toBeUndefined();
+      expect(transforms.optional(parse)('abc')).toBe(3);
+    });
+
+    it('should map empty values to null', () => {
+      const nullableNumber = transforms.nullable(transforms.number);
+      const value: number | null | undefined = nullableNumber(' ');
+      expect(value).toBeNull();
+      expect(nullableNumber('5')).toBe(5);
+    });
+
+    it('should keep the inverse of the wrapped transform', () => {
+      const mapper = new TriliumMapper<{ tags: string[] }>({ tags: { from: '#tags', transform: transforms.optional(transforms.split(';')) } });
+      expect(mapper.toNote({ tags: ['a', 'b'] }).attributes).toEqual([{ type: 'label', name: 'tags', value: 'a;b' }]);
+    });
+  });
 });
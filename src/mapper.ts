@@ -5,7 +5,11 @@
  * and building type-safe search queries.
  */
 
-import type { TriliumNote } from './client.js';
+import type { TriliumAttribute, TriliumBranch, TriliumNote } from './client.js';
+import { convertContent, type ContentFormat } from './content.js';
+import { ownedAttributes } from './inheritance.js';
+import { RateLimiter } from './rate-limit.js';
+import { formatIssuePath, type StandardSchemaV1 } from './schema.js';
 
 // ============================================================================
 // Search Query Builder Types
@@ -16,10 +20,43 @@ import type { TriliumNote } from './client.js';
  */
 export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | '*=' | '=*' | '*=*';
 
+/**
+ * A literal fragment inserted into a search query without quoting or escaping.
+ * Create with {@link raw}.
+ */
+export class RawSearchFragment {
+  /** The literal query fragment */
+  readonly fragment: string;
+
+  constructor(fragment: string) {
+    this.fragment = fragment;
+  }
+}
+
+/**
+ * Marks a string as a literal search query fragment that is inserted as-is.
+ * Use for intentional syntax such as smart date values or hand-written sub-queries.
+ * Never pass user input to `raw()` - it bypasses escaping.
+ *
+ * @param fragment - The literal query fragment
+ * @returns A fragment accepted as a value or as a condition by buildSearchQuery
+ *
+ * @example
+ * buildSearchQuery({ '#dueDate': { value: raw('TODAY+7'), operator: '<=' } })
+ * // => '#dueDate <= TODAY+7'
+ *
+ * @example
+ * buildSearchQuery({ AND: [{ '#blog': true }, raw('(#a OR #b)')] })
+ * // => '#blog AND (#a OR #b)'
+ */
+export function raw(fragment: string): RawSearchFragment {
+  return new RawSearchFragment(fragment);
+}
+
 /**
  * A value with an optional comparison operator
  */
-export interface ConditionValue<T = string | number | boolean> {
+export interface ConditionValue<T = string | number | boolean | RawSearchFragment> {
   value: T;
   operator?: ComparisonOperator;
 }
@@ -27,7 +64,7 @@ export interface ConditionValue<T = string | number | boolean> {
 /**
  * Simple value or condition with operator
  */
-export type SearchValue = string | number | boolean | ConditionValue;
+export type SearchValue = string | number | boolean | RawSearchFragment | ConditionValue;
 
 /**
  * Base search conditions for labels, relations, and note properties.
@@ -59,14 +96,83 @@ export interface TriliumSearchLogical {
 
 /**
  * Complete search helpers combining conditions and logical operators.
- * Can contain field conditions AND/OR logical operators.
+ * Can contain field conditions AND/OR logical operators, or a raw() fragment.
  */
 export type TriliumSearchHelpers = 
   | TriliumSearchLogical
-  | (TriliumSearchConditions & Partial<TriliumSearchLogical>);
+  | (TriliumSearchConditions & Partial<TriliumSearchLogical>)
+  | RawSearchFragment;
+
+/** Attribute names: letters, digits, underscore and colon, with dots for nested paths (#template.title) */
+const ATTRIBUTE_PATH_PATTERN = /^[\p{L}\p{N}_:]+(\.[\p{L}\p{N}_:]+)*$/u;
+
+/** Note property paths: identifiers separated by dots (note.parents.title) */
+const PROPERTY_PATH_PATTERN = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+
+/** Operators accepted in conditions; anything else could alter the query structure */
+const COMPARISON_OPERATORS: readonly string[] = ['=', '!=', '<', '<=', '>', '>=', '*=', '=*', '*=*'] satisfies ComparisonOperator[];
+
+/**
+ * Quotes a string for use in a search query.
+ *
+ * Picks the first quote style (', ", `) that doesn't occur in the value, so most
+ * values need no escaping. Backslashes, and the quote character if every style
+ * occurs, are escaped with a backslash.
+ *
+ * @param value - The string to quote
+ * @returns The quoted string literal
+ *
+ * @example
+ * quoteSearchString("O'Brien") // => "O'Brien" (double-quoted)
+ */
+export function quoteSearchString(value: string): string {
+  const quote = (["'", '"', '`'] as const).find((q) => !value.includes(q)) ?? "'";
+  const escaped = value.replace(/\\/g, '\\\\').split(quote).join(`\\${quote}`);
+  return `${quote}${escaped}${quote}`;
+}
+
+/**
+ * Formats a value for the right-hand side of a condition
+ * @private
+ */
+function formatSearchValue(value: string | number | boolean | RawSearchFragment): string {
+  if (value instanceof RawSearchFragment) return value.fragment;
+  if (typeof value === 'string') return quoteSearchString(value);
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error(`Invalid search value: ${value}`);
+  }
+  return String(value);
+}
+
+/**
+ * Throws if a label, relation or property name could alter the query structure
+ * @private
+ */
+function assertValidPath(path: string, pattern: RegExp, kind: string): void {
+  if (!pattern.test(path)) {
+    throw new Error(`Invalid ${kind} name '${path}' in search query`);
+  }
+}
+
+/**
+ * Returns a condition's operator, throwing if it isn't a known comparison operator
+ * (conditions may come from untyped input such as parsed JSON)
+ * @private
+ */
+function formatOperator(operator: ComparisonOperator | undefined, fallback: ComparisonOperator): ComparisonOperator {
+  if (!operator) return fallback;
+  if (!COMPARISON_OPERATORS.includes(operator)) {
+    throw new Error(`Invalid comparison operator '${String(operator)}' in search query`);
+  }
+  return operator;
+}
 
 /**
  * Builds a Trilium search query string from a structured helper object
+ *
+ * String values are quoted and escaped, so user input can be passed safely.
+ * Label, relation and property names and comparison operators are validated and
+ * throw if they could alter the query. Use {@link raw} for intentional literal fragments.
  * 
  * @param helpers - The search conditions and logical operators
  * @returns A properly formatted Trilium search query string
@@ -82,6 +188,11 @@ export type TriliumSearchHelpers =
  * // => "#status = 'published'"
  * 
  * @example
+ * // Values are quoted safely
+ * buildSearchQuery({ '#author': "O'Brien" })
+ * // => #author = "O'Brien"
+ * 
+ * @example
  * // Complex AND/OR conditions
  * buildSearchQuery({
  *   AND: [
@@ -103,12 +214,17 @@ export type TriliumSearchHelpers =
  * // => "note.type = 'text' AND #wordCount >= 1000"
  */
 export function buildSearchQuery(helpers: TriliumSearchHelpers): string {
+  // Literal fragments are inserted as-is
+  if (helpers instanceof RawSearchFragment) {
+    return helpers.fragment;
+  }
+
   // Handle logical operators
   if ('AND' in helpers && Array.isArray(helpers.AND)) {
     return helpers.AND.map((h) => {
       const query = buildSearchQuery(h);
       // Wrap in parentheses if it contains OR
-      return query.includes(' OR ') ? `(${query})` : query;
+      return query.includes(' OR ') && !(h instanceof RawSearchFragment) ? `(${query})` : query;
     }).join(' AND ');
   }
 
@@ -116,7 +232,7 @@ export function buildSearchQuery(helpers: TriliumSearchHelpers): string {
     return helpers.OR.map((h) => {
       const query = buildSearchQuery(h);
       // Wrap in parentheses if it contains AND or OR
-      return query.includes(' AND ') || query.includes(' OR ') ? `(${query})` : query;
+      return (query.includes(' AND ') || query.includes(' OR ')) && !(h instanceof RawSearchFragment) ? `(${query})` : query;
     }).join(' OR ');
   }
 
@@ -134,24 +250,23 @@ export function buildSearchQuery(helpers: TriliumSearchHelpers): string {
   // Build individual conditions from TriliumSearchConditions
   const parts: string[] = [];
 
-  for (const [key, value] of Object.entries(helpers)) {
+  for (const [key, value] of Object.entries(helpers) as [string, SearchValue | undefined][]) {
     if (value === undefined || value === null) continue;
 
+    const isCondition = typeof value === 'object' && 'value' in value;
+
     // Handle labels (#)
     if (key.startsWith('#')) {
       const labelName = key.slice(1);
+      assertValidPath(labelName, ATTRIBUTE_PATH_PATTERN, 'label');
 
       // Check if it's a nested property like #template.title
       if (labelName.includes('.')) {
         // For nested properties, use the full key as-is
-        if (typeof value === 'object' && 'value' in value) {
-          const operator = value.operator || '=';
-          const val = typeof value.value === 'string' ? `'${value.value}'` : value.value;
-          parts.push(`${key} ${operator} ${val}`);
-        } else if (typeof value === 'string') {
-          parts.push(`${key} = '${value}'`);
+        if (isCondition) {
+          parts.push(`${key} ${formatOperator(value.operator, '=')} ${formatSearchValue(value.value)}`);
         } else {
-          parts.push(`${key} = ${value}`);
+          parts.push(`${key} = ${formatSearchValue(value)}`);
         }
       } else {
         // Simple label
@@ -159,58 +274,46 @@ export function buildSearchQuery(helpers: TriliumSearchHelpers): string {
           parts.push(`#${labelName}`);
         } else if (value === false) {
           parts.push(`#!${labelName}`);
-        } else if (typeof value === 'object' && 'value' in value) {
-          const operator = value.operator || '=';
-          const val = typeof value.value === 'string' ? `'${value.value}'` : value.value;
-          parts.push(`#${labelName} ${operator} ${val}`);
-        } else if (typeof value === 'string') {
-          parts.push(`#${labelName} = '${value}'`);
+        } else if (isCondition) {
+          parts.push(`#${labelName} ${formatOperator(value.operator, '=')} ${formatSearchValue(value.value)}`);
         } else {
-          parts.push(`#${labelName} = ${value}`);
+          parts.push(`#${labelName} = ${formatSearchValue(value)}`);
         }
       }
     }
     // Handle relations (~)
     else if (key.startsWith('~')) {
       const relationName = key.slice(1);
+      assertValidPath(relationName, ATTRIBUTE_PATH_PATTERN, 'relation');
 
       // Check if it's a nested property like ~author.title
       if (relationName.includes('.')) {
         // For nested properties, use the full key as-is
-        if (typeof value === 'object' && 'value' in value) {
-          const operator = value.operator || '=';
-          const val = typeof value.value === 'string' ? `'${value.value}'` : value.value;
-          parts.push(`${key} ${operator} ${val}`);
-        } else if (typeof value === 'string') {
-          parts.push(`${key} = '${value}'`);
+        if (isCondition) {
+          parts.push(`${key} ${formatOperator(value.operator, '=')} ${formatSearchValue(value.value)}`);
         } else {
-          parts.push(`${key} = ${value}`);
+          parts.push(`${key} = ${formatSearchValue(value)}`);
         }
       } else {
         // Simple relation - default to title search with contains
-        if (typeof value === 'object' && 'value' in value) {
-          const operator = value.operator || '*=*';
-          const val = typeof value.value === 'string' ? `'${value.value}'` : value.value;
-          parts.push(`${key} ${operator} ${val}`);
-        } else if (typeof value === 'string') {
-          parts.push(`${key} *=* '${value}'`);
+        if (value === true) {
+          parts.push(key);
+        } else if (isCondition) {
+          parts.push(`${key} ${formatOperator(value.operator, '*=*')} ${formatSearchValue(value.value)}`);
+        } else if (typeof value === 'string' || value instanceof RawSearchFragment) {
+          parts.push(`${key} *=* ${formatSearchValue(value)}`);
         }
       }
     }
     // Handle note properties
     else {
       const path = key.startsWith('note.') ? key : `note.${key}`;
+      assertValidPath(path.slice(5), PROPERTY_PATH_PATTERN, 'note property');
 
-      if (typeof value === 'object' && 'value' in value) {
-        const operator = value.operator || '=';
-        const val = typeof value.value === 'string' ? `'${value.value}'` : value.value;
-        parts.push(`${path} ${operator} ${val}`);
-      } else if (typeof value === 'string') {
-        parts.push(`${path} = '${value}'`);
-      } else if (typeof value === 'boolean') {
-        parts.push(`${path} = ${value}`);
+      if (isCondition) {
+        parts.push(`${path} ${formatOperator(value.operator, '=')} ${formatSearchValue(value.value)}`);
       } else {
-        parts.push(`${path} = ${value}`);
+        parts.push(`${path} = ${formatSearchValue(value)}`);
       }
     }
   }
@@ -218,6 +321,32 @@ export function buildSearchQuery(helpers: TriliumSearchHelpers): string {
   return parts.join(' AND ');
 }
 
+/**
+ * Appends a condition to an existing search query with AND.
+ *
+ * Trilium treats leading words as full-text search and only parses the rest as an
+ * expression, so the condition is inserted between the two parts:
+ * `towers #book` + `note.type = 'text'` => `towers note.type = 'text' AND (#book)`
+ *
+ * @param query - The existing query string (may be empty)
+ * @param condition - The condition expression to add
+ * @returns The combined query string
+ */
+export function combineSearchQueries(query: string, condition: string): string {
+  const trimmed = query.trim();
+  if (!trimmed) return condition;
+
+  // The expression starts at the first label, relation, note property, not() or parenthesis
+  const match = /(^|\s)(#|~|note\.|not\(|\()/.exec(trimmed);
+  const expressionStart = match ? match.index + match[1]!.length : trimmed.length;
+  const fulltext = trimmed.slice(0, expressionStart).trim();
+  const expression = trimmed.slice(expressionStart).trim();
+
+  return [fulltext, condition, expression ? `AND (${expression})` : '']
+    .filter(Boolean)
+    .join(' ');
+}
+
 // ============================================================================
 // Mapper Types
 // ============================================================================
@@ -230,12 +359,30 @@ export function buildSearchQuery(helpers: TriliumSearchHelpers): string {
  */
 export type TransformFunction<T, K extends keyof T, V = unknown> = (value: V, note: TriliumNote) => T[K] | undefined;
 
+/**
+ * A note with its content, as read by 'note.content' fields.
+ * searchAndMap fetches the content when a mapping needs it.
+ */
+export type NoteWithContent = TriliumNote & { content?: string };
+
+/**
+ * A child note with the branch placing it below its parent, as read by the
+ * mappings of `children` fields ('branch.prefix', 'branch.notePosition')
+ */
+export type NoteWithBranch = TriliumNote & { branch?: TriliumBranch };
+
+/** Element type of an array type (never for non-arrays) */
+export type ArrayElement<V> = V extends readonly (infer E)[] ? E : never;
+
+/** The object type a relation field resolves to (the element type for multi-valued fields) */
+export type RelationTarget<V> = NonNullable<V> extends readonly (infer E)[] ? NonNullable<E> : Exclude<NonNullable<V>, string>;
+
 /**
  * Computed function that calculates a value from the partially mapped object
  * @template T - The target object type
  * @template K - The specific key in the target type
  */
-export type ComputedFunction<T, K extends keyof T> = (partial: Partial<T>, note: TriliumNote) => T[K] | undefined;
+export type ComputedFunction<T, K extends keyof T> = (partial: Partial<T>, note: TriliumNote) => T[K] | undefined | Promise<T[K] | undefined>;
 
 /**
  * Field mapping configuration for a single property
@@ -266,20 +413,70 @@ export type ComputedFunction<T, K extends keyof T> = (partial: Partial<T>, note:
 export type FieldMapping<T, K extends keyof T = keyof T> =
   | string // Shorthand: direct path like 'note.title' or '#label'
   | {
-      /** Source path (string) or extractor function */
+      /**
+       * Source path (string) or extractor function.
+       * Append `[]` to a label or relation path (e.g., '#tag[]') to read all values.
+       * Extractors returning a Promise require mapAsync().
+       */
       from: string | ((note: TriliumNote) => unknown);
-      /** Optional transform function to convert the raw value - accepts any input type */
-      transform?: (value: any, note: TriliumNote) => T[K] | undefined;
+      /**
+       * Read every matching label/relation instead of the first, ordered by attribute
+       * position. Same as appending `[]` to the path. The transform runs per element.
+       */
+      multiple?: boolean;
+      /**
+       * Optional: format of a 'note.content' field (default: 'html').
+       * The HTML of text notes is converted; other note types keep their content.
+       */
+      as?: ContentFormat;
+      /**
+       * Optional transform function to convert the raw value - accepts any input type.
+       * For multi-valued fields it is applied to each element; undefined results are dropped.
+       * Transforms returning a Promise require mapAsync().
+       */
+      transform?: (value: any, note: TriliumNote) =>
+        | T[K] | ArrayElement<T[K]> | undefined
+        | Promise<T[K] | ArrayElement<T[K]> | undefined>;
+      /**
+       * Optional: mapping for the notes targeted by a relation field (e.g., '~author').
+       * Targets are mapped when relations are loaded (see TriliumMapper.loadRelations and
+       * searchAndMap); otherwise, beyond the maximum depth or in a cycle, the field keeps
+       * the target noteId. The transform is not applied to resolved fields.
+       */
+      resolve?: MappingConfig<RelationTarget<T[K]>>;
       /** Default value if extraction returns undefined */
       default?: T[K];
       /** Whether this field is required (throws if missing) */
       required?: boolean;
+      /**
+       * Optional: converts the field value back to the raw attribute/property value when
+       * writing with toNote()/diff(). Defaults to the inverse of a built-in transform,
+       * or to a string conversion (dates as ISO, arrays comma-joined).
+       * For multi-valued fields it is called per element.
+       */
+      to?: (value: T[K] | ArrayElement<T[K]>, obj: MappedObjectPatch<T>) => string | undefined;
     }
   | {
-      /** Computed function that calculates value from other mapped fields */
+      /** Computed function that calculates value from other mapped fields (async requires mapAsync()) */
       computed: ComputedFunction<T, K>;
       /** Default value if computed returns undefined */
       default?: T[K];
+    }
+  | {
+      /**
+       * Mapping for the note's child notes; the field becomes an array of mapped children.
+       * Children are mapped when loaded (see TriliumMapper.loadChildren and searchAndMap).
+       * Child mappings can also read their branch: 'branch.prefix', 'branch.notePosition'.
+       */
+      children: MappingConfig<ArrayElement<T[K]>>;
+      /** Optional: only include children matching this search */
+      filter?: TriliumSearchHelpers;
+      /** Optional: order of the children (default: 'notePosition', the order in the tree) */
+      orderBy?: 'notePosition' | 'title';
+      /** Optional: levels of descendants to include, flattened in tree order (default: 1) */
+      depth?: number;
+      /** Default value if children aren't loaded */
+      default?: T[K];
     };
 
 /**
@@ -292,6 +489,251 @@ export type MappingConfig<T> = {
   [K in keyof T]?: FieldMapping<T, K>;
 };
 
+/**
+ * A partial mapped object to write back to a note.
+ * Fields set to undefined or null delete their attribute in TriliumMapper.diff().
+ */
+export type MappedObjectPatch<T> = { [K in keyof T]?: T[K] | null | undefined };
+
+/** Note properties that can be written back with PATCH /notes/{noteId} */
+export interface WritableNoteProperties {
+  title?: string;
+  type?: NonNullable<TriliumNote['type']>;
+  mime?: string;
+}
+
+/** A label or relation derived from a mapped object */
+export interface MappedAttribute {
+  type: 'label' | 'relation';
+  name: string;
+  value: string;
+  /** Optional: whether a created attribute is inherited by child notes */
+  isInheritable?: boolean;
+}
+
+/**
+ * Note data implied by a mapped object, as returned by TriliumMapper.toNote()
+ */
+export interface MappedNoteData {
+  /** Writable note properties (from 'note.title', 'note.type', 'note.mime' fields) */
+  properties: WritableNoteProperties;
+  /** Labels and relations (from '#label' and '~relation' fields) */
+  attributes: MappedAttribute[];
+}
+
+/**
+ * Changes that make a note match a mapped object, as returned by TriliumMapper.diff().
+ * Apply with `client.applyNoteDiff()`.
+ */
+export interface NoteDiff {
+  /** The note the changes apply to */
+  noteId: string;
+  /** Properties to update; empty if none changed */
+  properties: WritableNoteProperties;
+  /** Attributes to create */
+  create: MappedAttribute[];
+  /**
+   * Existing labels whose value changes. ETAPI can't change a relation's target,
+   * so a changed relation is planned as a delete and a create instead.
+   */
+  update: (MappedAttribute & { attributeId: string })[];
+  /** Existing attributes to delete (their field was set to undefined or null, or a relation is replaced) */
+  delete: (Omit<MappedAttribute, 'value'> & { attributeId: string })[];
+}
+
+/**
+ * Loads notes by ID for relation resolution.
+ * Notes that don't exist are left out of the result.
+ */
+export type RelationLoader = (noteIds: string[]) => Promise<TriliumNote[]>;
+
+/** Options for TriliumMapper.loadRelations() */
+export interface ResolveOptions {
+  /** Optional: maximum number of relation hops to follow (default: 3) */
+  maxDepth?: number;
+  /**
+   * Optional: notes already loaded, keyed by noteId. Newly loaded targets are added,
+   * so a cache shared across calls avoids fetching the same target twice.
+   */
+  cache?: Map<string, TriliumNote>;
+  /**
+   * Optional: children loaded by TriliumMapper.loadChildren(). Their relation
+   * targets are loaded too, and they are passed on to map().
+   */
+  children?: LoadedChildren;
+}
+
+/** Relation targets loaded by TriliumMapper.loadRelations(), passed to map() */
+export interface ResolvedRelations {
+  /** Loaded notes by noteId */
+  notes: ReadonlyMap<string, TriliumNote>;
+  /** Maximum number of relation hops to resolve */
+  maxDepth: number;
+  /** Optional: loaded child notes for `children` fields */
+  children?: LoadedChildren;
+}
+
+/** What a `children` field asks a ChildrenLoader for */
+export interface ChildrenQuery {
+  /** Levels of descendants to include (1 for direct children) */
+  depth: number;
+  /** Optional: only include descendants matching this search */
+  filter?: TriliumSearchHelpers;
+  /** Whether the child mapping reads 'note.content', so the content must be loaded */
+  content: boolean;
+}
+
+/**
+ * Loads the children of a note, or its descendants up to `query.depth` levels,
+ * in tree order (by branch notePosition, each child followed by its own children)
+ * and with the branch placing each note below its parent
+ */
+export type ChildrenLoader = (parent: TriliumNote, query: ChildrenQuery) => Promise<NoteWithBranch[]>;
+
+/** Child notes loaded by TriliumMapper.loadChildren(), by parent and query */
+export type LoadedChildren = ReadonlyMap<string, NoteWithBranch[]>;
+
+/** A field mapping reading child notes */
+interface ChildrenMapping {
+  children: MappingConfig<unknown>;
+  filter?: TriliumSearchHelpers;
+  orderBy?: 'notePosition' | 'title';
+  depth?: number;
+}
+
+/** Resolution state while mapping a note and its relation targets */
+interface RelationScope {
+  notes: ReadonlyMap<string, TriliumNote>;
+  /** Relation hops left */
+  depth: number;
+  /** Note IDs from the root note to the current note, for cycle detection */
+  chain: string[];
+  /** Loaded child notes, if any */
+  children?: LoadedChildren | undefined;
+}
+
+/** Source path of the note content */
+const CONTENT_PATH = 'note.content';
+
+/** Default for ResolveOptions.maxDepth */
+const DEFAULT_RESOLVE_DEPTH = 3;
+
+/** Options for TriliumMapper.mapAsync() */
+export interface MapAsyncOptions {
+  /** Optional: maximum number of notes mapped at the same time (default: 4) */
+  concurrency?: number;
+  /** Optional: loaded relation targets for `resolve` fields */
+  relations?: ResolvedRelations;
+}
+
+/** Default for MapAsyncOptions.concurrency */
+const DEFAULT_MAP_CONCURRENCY = 4;
+
+/** A value, or a promise of it from an async transform, extractor or computed field */
+type MaybePromise<V> = V | Promise<V>;
+
+/** Options for TriliumMapper */
+export interface TriliumMapperOptions<T = unknown> {
+  /**
+   * Optional: treat a transform returning undefined for a non-empty raw value
+   * (e.g., `transforms.number('abc')`) as an error instead of falling back to the default
+   */
+  strict?: boolean;
+  /**
+   * Optional: a Standard Schema validator (Zod, Valibot, ArkType, ...) run on each mapped object.
+   * Its output replaces the mapped values; fields the schema doesn't declare are kept.
+   * Validation issues are reported as 'schema' errors.
+   */
+  schema?: StandardSchemaV1<unknown, Partial<T>>;
+}
+
+/** A field that failed to map, as listed in TriliumMappingError.errors */
+export interface MappingFieldError {
+  /** The field name in the mapped type */
+  field: string;
+  /** The source path ('#slug', 'note.title'), or '<extractor>' / '<computed>' for functions */
+  path: string;
+  /**
+   * - `required`: a required field has no value
+   * - `transform`: a transform, extractor or computed field threw
+   * - `type`: in strict mode, a transform couldn't convert a non-empty value
+   * - `schema`: the `schema` validator rejected the mapped value
+   */
+  kind: 'required' | 'transform' | 'type' | 'schema';
+  /** Description of the problem, including the note */
+  message: string;
+  /** The raw value before the transform, if extracted (the mapped value for 'schema' errors) */
+  rawValue: unknown;
+}
+
+/**
+ * Thrown when a note can't be mapped. Lists every field that failed: missing required
+ * fields, failing transforms, extractors or computed fields, and (in strict mode)
+ * values a transform couldn't convert.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await mapper.mapAsync(note);
+ * } catch (err) {
+ *   if (err instanceof TriliumMappingError) {
+ *     err.errors.forEach((e) => console.warn(`${e.field} (${e.kind}): ${e.message}`));
+ *   }
+ * }
+ * ```
+ */
+export class TriliumMappingError extends Error {
+  /** The first field that failed */
+  readonly field: string;
+  /** The note that failed to map */
+  readonly noteId: string | undefined;
+  /** Every field that failed */
+  readonly errors: MappingFieldError[];
+
+  constructor(message: string, errors: MappingFieldError[], noteId: string | undefined, cause?: unknown) {
+    super(message, cause !== undefined ? { cause } : undefined);
+    this.name = 'TriliumMappingError';
+    this.field = errors[0]?.field ?? '';
+    this.noteId = noteId;
+    this.errors = errors;
+  }
+}
+
+/**
+ * A field failure raised while mapping a single field
+ * @private
+ */
+class FieldFailure extends Error {
+  readonly kind: MappingFieldError['kind'];
+  readonly rawValue: unknown;
+
+  constructor(kind: MappingFieldError['kind'], message: string, rawValue: unknown, cause?: unknown) {
+    super(message, cause !== undefined ? { cause } : undefined);
+    this.kind = kind;
+    this.rawValue = rawValue;
+  }
+}
+
+/** Failures collected while mapping a note, with the first underlying error */
+interface FailureCollector {
+  errors: MappingFieldError[];
+  cause: unknown;
+}
+
+/** Marks a field whose mapping failed */
+const FAILED = Symbol('failed');
+
+/** Where a field is written to */
+type WriteTarget =
+  | { kind: 'property'; name: keyof WritableNoteProperties }
+  | { kind: 'attribute'; type: 'label' | 'relation'; name: string; multiple: boolean };
+
+/** Normalized form of a non-computed field mapping */
+type SourceMapping<T> = Exclude<FieldMapping<T>, string | { computed: unknown } | { children: unknown }>;
+
+/** Note properties accepted by PATCH /notes/{noteId} */
+const WRITABLE_PROPERTIES: readonly (keyof WritableNoteProperties)[] = ['title', 'type', 'mime'];
+
 /**
  * Maps Trilium notes to strongly-typed objects using declarative field mappings
  * 
@@ -301,6 +743,7 @@ export type MappingConfig<T> = {
  * - Relation attributes (~relationName)
  * - Custom extractor functions
  * - Transform functions
+ * - Relation targets mapped as nested objects (`resolve`)
  * - Computed values from other fields
  * - Default values
  * - Required field validation
@@ -323,12 +766,28 @@ export class TriliumMapper<T> {
   /** The mapping configuration for this mapper */
   readonly config: MappingConfig<T>;
 
+  /** Options for this mapper */
+  readonly options: TriliumMapperOptions<T>;
+
+  /** Mappers for `resolve` configurations, created on first use */
+  private readonly nestedMappers = new Map<MappingConfig<unknown>, TriliumMapper<unknown>>();
+
   /**
    * Creates a new TriliumMapper instance
    * @param config - The mapping configuration defining how to map note fields to the target type
+   * @param options - Optional: mapper options (e.g., strict conversion checks, a schema)
+   *
+   * @example
+   * ```ts
+   * // T is inferred from the schema
+   * const mapper = new TriliumMapper({ title: 'note.title', pages: { from: '#pages', transform: transforms.number } }, {
+   *   schema: z.object({ title: z.string().min(1), pages: z.number().int().positive() }),
+   * });
+   * ```
    */
-  constructor(config: MappingConfig<T>) {
+  constructor(config: MappingConfig<T>, options: TriliumMapperOptions<T> = {}) {
     this.config = config;
+    this.options = options;
   }
 
   /**
@@ -354,134 +813,802 @@ export class TriliumMapper<T> {
   /**
    * Maps a single note to the target type
    * @param note - The Trilium note to map
+   * @param relations - Optional: loaded relation targets for `resolve` fields
    * @returns The mapped object of type T
    */
-  map(note: TriliumNote): T;
+  map(note: TriliumNote, relations?: ResolvedRelations): T;
 
   /**
    * Maps an array of notes to the target type
    * @param notes - The Trilium notes to map
+   * @param relations - Optional: loaded relation targets for `resolve` fields
    * @returns An array of mapped objects of type T
    */
-  map(notes: TriliumNote[]): T[];
+  map(notes: TriliumNote[], relations?: ResolvedRelations): T[];
 
   /**
    * Maps one or more Trilium notes to the target type
    * @param noteOrNotes - A single note or array of notes to map
+   * @param relations - Optional: loaded relation targets for `resolve` fields
+   * @returns A single mapped object or array of mapped objects
+   */
+  map(noteOrNotes: TriliumNote | TriliumNote[], relations?: ResolvedRelations): T | T[] {
+    // Sync mapping rejects promises, so the result is never a promise
+    const mapOne = (note: TriliumNote) => this.mapSingle(note, rootScope(note, relations), false) as T;
+    return Array.isArray(noteOrNotes) ? noteOrNotes.map(mapOne) : mapOne(noteOrNotes);
+  }
+
+  /**
+   * Maps a single note, awaiting async transforms, extractors and computed fields
+   * @param note - The Trilium note to map
+   * @param options - Optional: loaded relation targets
+   * @returns The mapped object of type T
+   */
+  mapAsync(note: TriliumNote, options?: MapAsyncOptions): Promise<T>;
+
+  /**
+   * Maps an array of notes, awaiting async transforms, extractors and computed fields
+   * @param notes - The Trilium notes to map
+   * @param options - Optional: concurrency and loaded relation targets
+   * @returns The mapped objects, in the order of the notes
+   */
+  mapAsync(notes: TriliumNote[], options?: MapAsyncOptions): Promise<T[]>;
+
+  /**
+   * Maps one or more notes, awaiting promise-returning transforms, extractors and
+   * computed fields. Fields of a note are mapped in order; up to `concurrency` notes
+   * are mapped at once. Configs without async functions can use the sync map().
+   *
+   * @param noteOrNotes - A single note or array of notes to map
+   * @param options - Optional: concurrency and loaded relation targets
    * @returns A single mapped object or array of mapped objects
+   * @throws TriliumMappingError naming the field that failed
+   *
+   * @example
+   * const mapper = new TriliumMapper<Post>({
+   *   title: 'note.title',
+   *   slug: { from: 'note.title', transform: (title: string) => slugService.slugify(title) },
+   * });
+   * const posts = await mapper.mapAsync(notes, { concurrency: 8 });
+   */
+  async mapAsync(noteOrNotes: TriliumNote | TriliumNote[], options: MapAsyncOptions = {}): Promise<T | T[]> {
+    const mapOne = async (note: TriliumNote) => this.mapSingle(note, rootScope(note, options.relations), true);
+    if (!Array.isArray(noteOrNotes)) return mapOne(noteOrNotes);
+
+    const limiter = new RateLimiter({ maxConcurrent: options.concurrency ?? DEFAULT_MAP_CONCURRENCY });
+    return Promise.all(noteOrNotes.map((note) => limiter.schedule(() => mapOne(note))));
+  }
+
+  /**
+   * Checks whether any field reads 'note.content', so the caller knows to fetch it
+   * @returns True if the note content must be loaded before mapping
+   */
+  readsContent(): boolean {
+    return Object.values(this.config as Record<string, FieldMapping<T>>).some((fieldMapping) => {
+      const from = typeof fieldMapping === 'object' && 'from' in fieldMapping ? fieldMapping.from : fieldMapping;
+      return typeof from === 'string' && stripMultiple(from) === CONTENT_PATH;
+    });
+  }
+
+  /**
+   * Loads the notes targeted by `resolve` fields, level by level, so they can be
+   * mapped with map(notes, relations). Each level is loaded with a single call to
+   * `load` for all notes, and no note is requested twice.
+   *
+   * @param notes - The notes that will be mapped
+   * @param load - Loads notes by ID (e.g., with GET /notes/{noteId})
+   * @param options - Optional: maximum depth and a cache of loaded notes
+   * @returns The loaded relation targets
+   *
+   * @example
+   * const mapper = new TriliumMapper<Post>({
+   *   title: 'note.title',
+   *   author: { from: '~author', resolve: { name: 'note.title', avatar: '#avatarUrl' } },
+   * });
+   * const relations = await mapper.loadRelations(notes, (ids) => Promise.all(ids.map(fetchNote)));
+   * mapper.map(notes, relations);
+   * // => [{ title: 'Hello', author: { name: 'Jane', avatar: '...' } }]
+   */
+  async loadRelations(notes: TriliumNote[], load: RelationLoader, options: ResolveOptions = {}): Promise<ResolvedRelations> {
+    const maxDepth = options.maxDepth ?? DEFAULT_RESOLVE_DEPTH;
+    const loaded = options.cache ?? new Map<string, TriliumNote>();
+    const requested = new Set<string>();
+    const expanded = new Map<TriliumMapper<unknown>, Set<string>>();
+
+    // Notes paired with the mapper they are mapped with, one relation hop apart
+    let level: [TriliumNote, TriliumMapper<unknown>][] = [];
+    const expand = (note: TriliumNote, mapper: TriliumMapper<unknown>) => {
+      const seen = expanded.get(mapper) ?? new Set<string>();
+      expanded.set(mapper, seen);
+      if (note.noteId && seen.has(note.noteId)) return;
+      if (note.noteId) seen.add(note.noteId);
+      level.push([note, mapper]);
+    };
+
+    for (const note of notes) {
+      if (note.noteId) loaded.set(note.noteId, note);
+      expand(note, this as TriliumMapper<unknown>);
+    }
+    // Loaded children are mapped with their relation targets too
+    if (options.children) {
+      for (const [note, mapper] of this.childNotes(notes, options.children)) expand(note, mapper);
+    }
+
+    for (let depth = 0; depth < maxDepth && level.length > 0; depth++) {
+      const targets = level.flatMap(([note, mapper]) => mapper.relationTargets(note));
+      const missing = [...new Set(targets.map(([noteId]) => noteId))].filter((noteId) => !loaded.has(noteId) && !requested.has(noteId));
+
+      if (missing.length > 0) {
+        missing.forEach((noteId) => requested.add(noteId));
+        for (const note of await load(missing)) {
+          if (note.noteId) loaded.set(note.noteId, note);
+        }
+      }
+
+      level = [];
+      for (const [noteId, mapper] of targets) {
+        const note = loaded.get(noteId);
+        if (note) expand(note, mapper);
+      }
+    }
+
+    return options.children ? { notes: loaded, maxDepth, children: options.children } : { notes: loaded, maxDepth };
+  }
+
+  /**
+   * Loads the child notes of `children` fields, so they can be mapped with
+   * map(notes, relations). Children whose own mapping has `children` fields are
+   * expanded too, one level at a time.
+   *
+   * @param notes - The notes that will be mapped
+   * @param load - Loads the children of a note (e.g., through its childBranchIds)
+   * @returns The loaded children, to pass to loadRelations() or map()
+   *
+   * @example
+   * const mapper = new TriliumMapper<Course>({
+   *   title: 'note.title',
+   *   lessons: { children: { title: 'note.title', prefix: 'branch.prefix' } },
+   * });
+   * const children = await mapper.loadChildren(notes, loadChildNotes);
+   * mapper.map(notes, { notes: new Map(), maxDepth: 0, children });
+   * // => [{ title: 'TypeScript', lessons: [{ title: 'Types', prefix: '1.' }, ...] }]
    */
-  map(noteOrNotes: TriliumNote | TriliumNote[]): T | T[] {
-    return Array.isArray(noteOrNotes) ? noteOrNotes.map((note) => this.mapSingle(note)) : this.mapSingle(noteOrNotes);
+  async loadChildren(notes: TriliumNote[], load: ChildrenLoader): Promise<LoadedChildren> {
+    const loaded = new Map<string, NoteWithBranch[]>();
+
+    let level: [TriliumNote, TriliumMapper<unknown>][] = notes.map((note) => [note, this as TriliumMapper<unknown>]);
+    while (level.length > 0) {
+      const next: [TriliumNote, TriliumMapper<unknown>][] = [];
+      await Promise.all(level.flatMap(([note, mapper]) => mapper.childrenFields().map(async (field) => {
+        const key = childrenKey(note, field);
+        if (loaded.has(key)) return;
+        loaded.set(key, []);
+
+        const childMapper = mapper.nestedMapper(field.children);
+        const query: ChildrenQuery = { depth: field.depth ?? 1, content: childMapper.readsContent() };
+        if (field.filter) query.filter = field.filter;
+        const children = await load(note, query);
+        loaded.set(key, children);
+        next.push(...children.map((child): [TriliumNote, TriliumMapper<unknown>] => [child, childMapper]));
+      })));
+      level = next;
+    }
+
+    return loaded;
   }
 
   /**
    * Maps a single note to the target type using the configured field mappings
-   * Processes in two passes: first regular fields, then computed fields
+   * Processes in two passes: first regular fields, then computed fields.
+   * Every field is mapped; failures are collected and thrown together.
+   * The result is then checked against the schema, if any.
    * @param note - The Trilium note to map
-   * @returns The mapped object
-   * @throws Error if a required field is missing
+   * @param scope - Loaded relation targets and resolution state, if any
+   * @param async - Whether fields may return promises (otherwise a promise throws)
+   * @returns The mapped object, or a promise of it if a field is async
+   * @throws TriliumMappingError listing every field that failed
    * @private
    */
-  private mapSingle(note: TriliumNote): T {
+  private mapSingle(note: TriliumNote, scope: RelationScope | undefined, async: boolean): MaybePromise<T> {
     const result = {} as Record<keyof T, unknown>;
-    const computedFields: [keyof T, { computed: ComputedFunction<T, keyof T>; default?: T[keyof T] }][] = [];
+    const failures: FailureCollector = { errors: [], cause: undefined };
+    const regularFields: (() => MaybePromise<void>)[] = [];
+    const computedFields: (() => MaybePromise<void>)[] = [];
 
-    // First pass: process regular fields
     for (const [key, fieldMapping] of Object.entries(this.config) as [keyof T, FieldMapping<T>][]) {
       if (!fieldMapping) continue;
 
-      // Check if it's a computed field
+      // Computed fields run in a second pass, with the regular fields mapped
       if (typeof fieldMapping === 'object' && 'computed' in fieldMapping) {
-        computedFields.push([key, fieldMapping]);
+        computedFields.push(() =>
+          then(this.guardField(key, sourcePath(fieldMapping), note, async, failures, () => fieldMapping.computed(result as Partial<T>, note)), (value) => {
+            if (value === FAILED) return;
+            result[key] = value === undefined ? fieldMapping.default : value;
+          }));
+        continue;
+      }
+
+      if (typeof fieldMapping === 'object' && 'children' in fieldMapping) {
+        regularFields.push(() =>
+          then(this.guardField(key, sourcePath(fieldMapping), note, async, failures, () => this.mapChildren(note, fieldMapping, scope, async)), (value) => {
+            if (value === FAILED) return;
+            result[key] = value === undefined ? fieldMapping.default : value;
+          }));
         continue;
       }
 
       // Normalize shorthand to full mapping
       const mapping = typeof fieldMapping === 'string' ? { from: fieldMapping } : fieldMapping;
+      const path = sourcePath(fieldMapping);
+      regularFields.push(() =>
+        then(this.guardField(key, path, note, async, failures, () => this.mapField(note, mapping, scope, async)), (outcome) => {
+          if (outcome === FAILED) return;
 
-      // Extract value
-      let value: unknown = typeof mapping.from === 'function' ? mapping.from(note) : this.extractValue(note, mapping.from);
+          // Validate required
+          if (mapping.required && outcome.value === undefined) {
+            failures.errors.push({
+              field: String(key),
+              path,
+              kind: 'required',
+              message: `Required field '${String(key)}' missing from note ${note.noteId} (${note.title})`,
+              rawValue: outcome.raw,
+            });
+          }
+          result[key] = outcome.value;
+        }));
+    }
 
-      // Transform
-      if (mapping.transform) {
-        value = mapping.transform(value, note);
-      }
+    return then(sequence([...regularFields, ...computedFields]), () => {
+      if (failures.errors.length > 0) throwFailures(note, failures);
+      return this.validate(result as T, note, async);
+    });
+  }
 
-      // Default
-      if (value === undefined && mapping.default !== undefined) {
-        value = mapping.default;
-      }
+  /**
+   * Maps the loaded children of a `children` field
+   * @returns The mapped children, or undefined if they weren't loaded
+   * @private
+   */
+  private mapChildren(note: TriliumNote, field: ChildrenMapping, scope: RelationScope | undefined, async: boolean): MaybePromise<unknown[] | undefined> {
+    const children = scope?.children?.get(childrenKey(note, field));
+    if (!scope || !children) return undefined;
 
-      // Validate required
-      if (mapping.required && value === undefined) {
-        throw new Error(`Required field '${String(key)}' missing from note ${note.noteId} (${note.title})`);
-      }
+    const mapper = this.nestedMapper(field.children);
+    const ordered = field.orderBy === 'title' ? sortChildrenByTitle(children) : children;
+    return all(ordered.map((child) => mapper.mapSingle(child, {
+      ...scope,
+      chain: child.noteId ? [...scope.chain, child.noteId] : scope.chain,
+    }, async)));
+  }
 
-      result[key] = value;
-    }
+  /**
+   * Checks a mapped object against the schema, if any
+   * @returns The schema's output, merged over the mapped object
+   * @throws TriliumMappingError listing every validation issue
+   * @private
+   */
+  private validate(value: T, note: TriliumNote, async: boolean): MaybePromise<T> {
+    const schema = this.options.schema;
+    if (!schema) return value;
 
-    // Second pass: process computed fields
-    for (const [key, mapping] of computedFields) {
-      let value = mapping.computed(result as Partial<T>, note);
+    const result = schema['~standard'].validate(value);
+    if (isPromise(result) && !async) {
+      result.catch(() => undefined);
+      const message = `Schema for note ${note.noteId} (${note.title}) validates asynchronously; use mapAsync()`;
+      throw new TriliumMappingError(message, [{ field: '', path: '', kind: 'schema', message, rawValue: value }], note.noteId);
+    }
 
-      // Default
-      if (value === undefined && mapping.default !== undefined) {
-        value = mapping.default;
+    return then(result, (outcome) => {
+      if (!outcome.issues) {
+        return (isRecord(outcome.value) && isRecord(value) ? { ...value, ...outcome.value } : outcome.value) as T;
       }
 
-      result[key] = value;
-    }
-
-    return result as T;
+      const errors = outcome.issues.map((issue): MappingFieldError => {
+        const issuePath = formatIssuePath(issue.path);
+        const field = issuePath.split('.')[0]!;
+        const fieldMapping = this.config[field as keyof T];
+        return {
+          field,
+          path: fieldMapping ? sourcePath(fieldMapping) : '',
+          kind: 'schema',
+          message: issuePath
+            ? `Field '${issuePath}' of note ${note.noteId} (${note.title}) failed validation: ${issue.message}`
+            : `Note ${note.noteId} (${note.title}) failed validation: ${issue.message}`,
+          rawValue: field && isRecord(value) ? value[field] : value,
+        };
+      });
+      return throwFailures(note, { errors, cause: undefined });
+    });
   }
 
   /**
-   * Extracts a value from a note using a string path
-   * 
-   * Supports:
-   * - Label attributes: #labelName
-   * - Relation attributes: ~relationName
-   * - Note properties: note.property.path
-   * 
-   * @param note - The Trilium note to extract from
-   * @param path - The path string indicating where to extract the value
-   * @returns The extracted value or undefined if not found
+   * Runs a field's mapping, recording a failure instead of throwing.
+   * In sync mode, a promise throws immediately since the config needs mapAsync().
    * @private
-   * 
-   * @example
-   * extractValue(note, 'note.title') // => note.title
-   * extractValue(note, '#slug')      // => label attribute 'slug'
-   * extractValue(note, '~template')  // => relation attribute 'template'
    */
-  private extractValue(note: TriliumNote, path: string): unknown {
-    if (!path) return undefined;
+  private guardField<V>(
+    key: keyof T,
+    path: string,
+    note: TriliumNote,
+    async: boolean,
+    failures: FailureCollector,
+    run: () => MaybePromise<V>
+  ): MaybePromise<V | typeof FAILED> {
+    const field = String(key);
+    const record = (err: unknown): typeof FAILED => {
+      const failure = err instanceof FieldFailure ? err : undefined;
+      failures.cause ??= failure?.cause ?? (failure ? undefined : err);
+      failures.errors.push(failure?.kind === 'type'
+        ? {
+            field,
+            path,
+            kind: 'type',
+            message: `Field '${field}' of note ${note.noteId} (${note.title}) has invalid value ${JSON.stringify(failure.rawValue)}`,
+            rawValue: failure.rawValue,
+          }
+        : {
+            field,
+            path,
+            kind: 'transform',
+            message: `Field '${field}' failed for note ${note.noteId} (${note.title}): ${err instanceof Error ? err.message : String(err)}`,
+            rawValue: failure?.rawValue,
+          });
+      return FAILED;
+    };
 
-    // Label attribute: #labelName
-    if (path.startsWith('#')) {
-      return note.attributes?.find((attr) => attr.type === 'label' && attr.name === path.slice(1))?.value;
+    let value: MaybePromise<V>;
+    try {
+      value = run();
+    } catch (err) {
+      return record(err);
     }
+    if (!isPromise(value)) return value;
 
-    // Relation attribute: ~relationName
-    if (path.startsWith('~')) {
-      return note.attributes?.find((attr) => attr.type === 'relation' && attr.name === path.slice(1))?.value;
+    if (!async) {
+      // Don't leave the abandoned promise's rejection unhandled
+      value.catch(() => undefined);
+      const message = `Field '${field}' of note ${note.noteId} (${note.title}) returned a Promise; use mapAsync()`;
+      throw new TriliumMappingError(message, [{ field, path, kind: 'transform', message, rawValue: undefined }], note.noteId);
     }
+    return value.catch(record);
+  }
 
-    // Note property: note.property.path
-    if (path.startsWith('note.')) {
-      return path.slice(5).split('.').reduce((obj, key) => (obj as Record<string, unknown>)?.[key], note as unknown);
+  /**
+   * Derives the note title, labels and relations implied by a mapped object.
+   *
+   * Fields mapped from '#label', '~relation', 'note.title', 'note.type' or 'note.mime'
+   * are converted back using their `to` function or the inverse of their transform
+   * (`transforms.boolean` => 'true', `transforms.date` => ISO string,
+   * `transforms.commaSeparated` => joined). Computed fields, function extractors and
+   * read-only paths (e.g., 'note.noteId') are skipped, as are undefined values.
+   *
+   * @param obj - The (possibly partial) mapped object
+   * @returns The note properties and attributes to write
+   *
+   * @example
+   * mapper.toNote({ title: 'Hello', slug: 'hello', published: true })
+   * // => { properties: { title: 'Hello' }, attributes: [
+   * //      { type: 'label', name: 'slug', value: 'hello' },
+   * //      { type: 'label', name: 'published', value: 'true' } ] }
+   */
+  toNote(obj: MappedObjectPatch<T>): MappedNoteData {
+    const data: MappedNoteData = { properties: {}, attributes: [] };
+
+    for (const { key, mapping, target } of this.writableFields(obj)) {
+      if (target.kind === 'attribute' && target.multiple) {
+        for (const value of this.serializeValues(mapping, obj[key], obj)) {
+          data.attributes.push({ type: target.type, name: target.name, value });
+        }
+        continue;
+      }
+
+      const value = this.serializeField(mapping, obj[key], obj);
+      if (value === undefined) continue;
+
+      if (target.kind === 'property') {
+        setProperty(data.properties, target.name, value);
+      } else {
+        data.attributes.push({ type: target.type, name: target.name, value });
+      }
     }
 
-    return undefined;
+    return data;
   }
-}
 
-// ============================================================================
-// Common Transform Functions
-// ============================================================================
+  /**
+   * Computes the changes needed to make a note match a mapped object.
+   *
+   * Only fields present in `obj` are compared, so a partial object updates just those
+   * fields. Fields set to undefined or null delete their attribute. Values are compared
+   * after conversion, so formatting differences (e.g., 'a, b' vs 'a,b') are not changes.
+   * Multi-valued fields ('#tag[]') update their attributes in position order, creating
+   * or deleting attributes when the number of values changes.
+   *
+   * @param note - The current note (with attributes)
+   * @param obj - The (possibly partial) mapped object with the desired values
+   * @returns The property updates and attribute creates/updates/deletes
+   *
+   * @example
+   * const diff = mapper.diff(note, { ...post, published: true });
+   * await client.applyNoteDiff(diff);
+   */
+  diff(note: TriliumNote, obj: MappedObjectPatch<T>): NoteDiff {
+    const diff: NoteDiff = { noteId: note.noteId ?? '', properties: {}, create: [], update: [], delete: [] };
 
-/**
- * Common transform functions for use with TriliumMapper
- */
+    for (const { key, mapping, target } of this.writableFields(obj)) {
+      if (target.kind === 'attribute' && target.multiple) {
+        this.diffValues(diff, note, mapping, target, obj[key], obj);
+        continue;
+      }
+
+      const value = this.serializeField(mapping, obj[key], obj);
+
+      if (target.kind === 'property') {
+        const current = note[target.name];
+        if (value !== undefined && value !== current) {
+          setProperty(diff.properties, target.name, value);
+        }
+        continue;
+      }
+
+      // Inherited attributes belong to other notes; a changed value is set on the note itself
+      const existing = ownedAttributes(note).find((attr) => attr.type === target.type && attr.name === target.name);
+      if (value === undefined) {
+        if (existing?.attributeId) {
+          diff.delete.push({ attributeId: existing.attributeId, type: target.type, name: target.name });
+        }
+        continue;
+      }
+
+      // Compare with the current value as mapped (after transform and default)
+      if (existing?.value === value || this.serializeField(mapping, this.currentValue(note, mapping), obj) === value) {
+        continue;
+      }
+
+      if (existing) {
+        changeValue(diff, existing, target, value);
+      } else {
+        diff.create.push({ type: target.type, name: target.name, value });
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Adds the changes for a multi-valued field, pairing values with the existing
+   * attributes in position order
+   * @private
+   */
+  private diffValues(
+    diff: NoteDiff,
+    note: TriliumNote,
+    mapping: SourceMapping<T>,
+    target: { type: 'label' | 'relation'; name: string },
+    value: unknown,
+    obj: MappedObjectPatch<T>
+  ): void {
+    const existing = attributesNamed(ownedAttributes(note), target.type, target.name);
+    const values = this.serializeValues(mapping, value, obj);
+
+    // Unless the field is being cleared, compare with the raw and the mapped current values
+    if (value !== undefined && value !== null) {
+      const current = existing.map((attr) => attr.value ?? '');
+      const mapped = this.serializeValues(mapping, this.currentValue(note, mapping), obj);
+      if (sameValues(values, current) || sameValues(values, mapped)) return;
+    }
+
+    existing.forEach((attr, index) => {
+      const next = values[index];
+      if (next === undefined) {
+        diff.delete.push({ attributeId: attr.attributeId ?? '', type: target.type, name: target.name });
+      } else if (attr.value !== next) {
+        changeValue(diff, attr, target, next);
+      }
+    });
+
+    for (const next of values.slice(existing.length)) {
+      diff.create.push({ type: target.type, name: target.name, value: next });
+    }
+  }
+
+  /**
+   * Returns a field's current mapped value for comparison in diff(), or undefined
+   * if it can only be computed asynchronously
+   * @private
+   */
+  private currentValue(note: TriliumNote, mapping: SourceMapping<T>): unknown {
+    try {
+      const outcome = this.mapField(note, mapping, undefined, true);
+      if (!isPromise(outcome)) return outcome.value;
+      outcome.catch(() => undefined);
+    } catch {
+      // Treated as unknown: the new value is written
+    }
+    return undefined;
+  }
+
+  /**
+   * Extracts, transforms and defaults a single field (without required validation)
+   * @returns The raw extracted value and the mapped value
+   * @throws FieldFailure if a transform fails or, in strict mode, can't convert a value
+   * @private
+   */
+  private mapField(
+    note: TriliumNote,
+    mapping: SourceMapping<T>,
+    scope: RelationScope | undefined,
+    async: boolean
+  ): MaybePromise<{ raw: unknown; value: unknown }> {
+    const resolve = mapping.resolve as MappingConfig<unknown> | undefined;
+    const transform = mapping.transform;
+    const strict = this.options.strict === true && !resolve;
+
+    // Resolve relation targets, or transform (per element for multi-valued fields)
+    const convert = (element: unknown): MaybePromise<unknown> => {
+      if (!resolve && !transform) return element;
+
+      const fail = (err: unknown): never => {
+        throw err instanceof FieldFailure ? err : new FieldFailure('transform', err instanceof Error ? err.message : String(err), element, err);
+      };
+      const check = (value: unknown) => {
+        if (strict && value === undefined && !isEmptyValue(element)) {
+          throw new FieldFailure('type', `invalid value ${JSON.stringify(element)}`, element);
+        }
+        return value;
+      };
+
+      let value: MaybePromise<unknown>;
+      try {
+        value = resolve ? this.resolveTarget(element, resolve, scope, async) : transform!(element, note);
+      } catch (err) {
+        return fail(err);
+      }
+      return isPromise(value) ? value.then(check, fail) : check(value);
+    };
+
+    return then(this.extractField(note, mapping), (raw) => {
+      if (isMultiple(mapping)) {
+        return then(all(toList(raw).map(convert)), (mapped) => {
+          const defined = mapped.filter((element) => element !== undefined);
+          return { raw, value: withDefault(defined.length > 0 ? defined : undefined, mapping.default) };
+        });
+      }
+      return then(convert(raw), (value) => ({ raw, value: withDefault(value, mapping.default) }));
+    });
+  }
+
+  /**
+   * Extracts the raw value of a field (all values for multi-valued fields)
+   * @private
+   */
+  private extractField(note: TriliumNote, mapping: SourceMapping<T>): unknown {
+    if (typeof mapping.from === 'function') return mapping.from(note);
+
+    const path = stripMultiple(mapping.from);
+    if (path === CONTENT_PATH) {
+      const content = (note as NoteWithContent).content;
+      return typeof content === 'string' ? convertContent(content, mapping.as ?? 'html', note.type) : undefined;
+    }
+    return isMultiple(mapping) ? this.extractValues(note, path) : this.extractValue(note, path);
+  }
+
+  /**
+   * Maps the note a relation points to, or returns the noteId if it can't be resolved
+   * @private
+   */
+  private resolveTarget(noteId: unknown, config: MappingConfig<unknown>, scope: RelationScope | undefined, async: boolean): MaybePromise<unknown> {
+    if (typeof noteId !== 'string' || !scope || scope.depth <= 0 || scope.chain.includes(noteId)) {
+      return noteId;
+    }
+
+    const target = scope.notes.get(noteId);
+    if (!target) return undefined;
+
+    return this.nestedMapper(config).mapSingle(target, {
+      notes: scope.notes,
+      depth: scope.depth - 1,
+      chain: [...scope.chain, noteId],
+      children: scope.children,
+    }, async);
+  }
+
+  /**
+   * Lists the `children` fields of this mapping
+   * @private
+   */
+  private childrenFields(): ChildrenMapping[] {
+    return (Object.values(this.config) as FieldMapping<T>[])
+      .filter((fieldMapping): fieldMapping is Extract<FieldMapping<T>, { children: unknown }> =>
+        typeof fieldMapping === 'object' && 'children' in fieldMapping);
+  }
+
+  /**
+   * Lists the loaded children of notes, and theirs, with the mapper for each child
+   * @private
+   */
+  private childNotes(notes: TriliumNote[], children: LoadedChildren): [TriliumNote, TriliumMapper<unknown>][] {
+    return notes.flatMap((note) => this.childrenFields().flatMap((field) => {
+      const mapper = this.nestedMapper(field.children);
+      const loaded = children.get(childrenKey(note, field)) ?? [];
+      return [
+        ...loaded.map((child): [TriliumNote, TriliumMapper<unknown>] => [child, mapper]),
+        ...mapper.childNotes(loaded, children),
+      ];
+    }));
+  }
+
+  /**
+   * Lists the relation targets of a note's `resolve` fields with the mapper for each target
+   * @private
+   */
+  private relationTargets(note: TriliumNote): [string, TriliumMapper<unknown>][] {
+    const targets: [string, TriliumMapper<unknown>][] = [];
+
+    for (const fieldMapping of Object.values(this.config) as FieldMapping<T>[]) {
+      if (typeof fieldMapping !== 'object' || !('from' in fieldMapping) || !fieldMapping.resolve) continue;
+
+      const mapper = this.nestedMapper(fieldMapping.resolve as MappingConfig<unknown>);
+      let raw: unknown;
+      try {
+        raw = this.extractField(note, fieldMapping);
+      } catch {
+        // Extractor errors are reported when the note is mapped
+        continue;
+      }
+      for (const noteId of toList(raw)) {
+        if (typeof noteId === 'string' && noteId) targets.push([noteId, mapper]);
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Returns the mapper for a `resolve` configuration
+   * @private
+   */
+  private nestedMapper(config: MappingConfig<unknown>): TriliumMapper<unknown> {
+    // Self-referencing mappings (e.g., a person's friends) reuse this mapper
+    if (config === this.config) return this as TriliumMapper<unknown>;
+
+    let mapper = this.nestedMappers.get(config);
+    if (!mapper) {
+      // Nested objects are validated as part of the parent's schema
+      mapper = new TriliumMapper(config, this.options.strict !== undefined ? { strict: this.options.strict } : {});
+      this.nestedMappers.set(config, mapper);
+    }
+    return mapper;
+  }
+
+  /**
+   * Lists the fields of `obj` that map to a writable path
+   * @private
+   */
+  private writableFields(obj: MappedObjectPatch<T>): { key: keyof T; mapping: SourceMapping<T>; target: WriteTarget }[] {
+    const fields: { key: keyof T; mapping: SourceMapping<T>; target: WriteTarget }[] = [];
+
+    for (const [key, fieldMapping] of Object.entries(this.config) as [keyof T, FieldMapping<T>][]) {
+      if (!fieldMapping || !(key in (obj as object))) continue;
+      if (typeof fieldMapping === 'object' && ('computed' in fieldMapping || 'children' in fieldMapping)) continue;
+
+      const mapping = typeof fieldMapping === 'string' ? { from: fieldMapping } : fieldMapping;
+      if (typeof mapping.from !== 'string') continue;
+
+      const target = writeTarget(mapping.from, mapping.multiple ?? false);
+      if (target) fields.push({ key, mapping, target });
+    }
+
+    return fields;
+  }
+
+  /**
+   * Converts a field value back to its raw string form
+   * @private
+   */
+  private serializeField(mapping: SourceMapping<T>, value: unknown, obj: MappedObjectPatch<T>): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (mapping.to) return mapping.to(value as T[keyof T], obj);
+    if (mapping.resolve && typeof value === 'object') {
+      return targetNoteId(mapping.resolve as MappingConfig<unknown>, value);
+    }
+
+    const inverse = mapping.transform ? inverseTransforms.get(mapping.transform) : undefined;
+    return inverse ? inverse(value) : serializeValue(value);
+  }
+
+  /**
+   * Converts the values of a multi-valued field back to their raw string forms
+   * @private
+   */
+  private serializeValues(mapping: SourceMapping<T>, value: unknown, obj: MappedObjectPatch<T>): string[] {
+    return toList(value)
+      .map((element) => this.serializeField(mapping, element, obj))
+      .filter((element): element is string => element !== undefined);
+  }
+
+  /**
+   * Extracts all values of a multi-valued path, ordered by attribute position
+   *
+   * @param note - The Trilium note to extract from
+   * @param path - The path without the `[]` suffix
+   * @returns The values, or a single note property value as returned by extractValue
+   * @private
+   *
+   * @example
+   * extractValues(note, '#tag')        // => ['a', 'b', 'c']
+   * extractValues(note, '~relatedTo')  // => ['noteId1', 'noteId2']
+   */
+  private extractValues(note: TriliumNote, path: string): unknown {
+    if (path.startsWith('#') || path.startsWith('~')) {
+      return attributesNamed(note.attributes ?? [], path.startsWith('#') ? 'label' : 'relation', path.slice(1)).map((attr) => attr.value);
+    }
+
+    return this.extractValue(note, path);
+  }
+
+  /**
+   * Extracts a value from a note using a string path
+   * 
+   * Supports:
+   * - Label attributes: #labelName
+   * - Relation attributes: ~relationName
+   * - Note properties: note.property.path
+   * 
+   * @param note - The Trilium note to extract from
+   * @param path - The path string indicating where to extract the value
+   * @returns The extracted value or undefined if not found
+   * @private
+   * 
+   * @example
+   * extractValue(note, 'note.title') // => note.title
+   * extractValue(note, '#slug')      // => label attribute 'slug'
+   * extractValue(note, '~template')  // => relation attribute 'template'
+   */
+  private extractValue(note: TriliumNote, path: string): unknown {
+    if (!path) return undefined;
+
+    // Label attribute: #labelName
+    if (path.startsWith('#')) {
+      return note.attributes?.find((attr) => attr.type === 'label' && attr.name === path.slice(1))?.value;
+    }
+
+    // Relation attribute: ~relationName
+    if (path.startsWith('~')) {
+      return note.attributes?.find((attr) => attr.type === 'relation' && attr.name === path.slice(1))?.value;
+    }
+
+    // Note property: note.property.path
+    if (path.startsWith('note.')) {
+      return path.slice(5).split('.').reduce((obj, key) => (obj as Record<string, unknown>)?.[key], note as unknown);
+    }
+
+    // Branch property of a child note: branch.property
+    if (path.startsWith('branch.')) {
+      return path.slice(7).split('.').reduce((obj, key) => (obj as Record<string, unknown>)?.[key], (note as NoteWithBranch).branch as unknown);
+    }
+
+    return undefined;
+  }
+}
+
+// ============================================================================
+// Common Transform Functions
+// ============================================================================
+
+/** A transform step used by the combinators in `transforms` */
+type TransformStep<In, Out> = (value: In) => Out | undefined;
+
+/**
+ * Inverses of the built-in transforms, used when writing mapped objects back to notes.
+ * Transforms created by factories (e.g., `transforms.split(';')`) are added when created.
+ * @private
+ */
+const inverseTransforms = new WeakMap<(value: never, note: TriliumNote) => unknown, (value: unknown) => string | undefined>();
+
+/**
+ * Common transform functions for use with TriliumMapper
+ */
 export const transforms = {
   /** Convert to number */
   number: (value: unknown): number | undefined => {
@@ -490,6 +1617,12 @@ export const transforms = {
     return isNaN(num) ? undefined : num;
   },
 
+  /** Convert to an integer (values with a fractional part are rejected) */
+  integer: (value: unknown): number | undefined => {
+    const num = transforms.number(value);
+    return num !== undefined && Number.isInteger(num) ? num : undefined;
+  },
+
   /** Convert to boolean */
   boolean: (value: unknown): boolean | undefined => {
     if (value === undefined || value === null) return undefined;
@@ -527,13 +1660,523 @@ export const transforms = {
     return isNaN(date.getTime()) ? undefined : date;
   },
 
+  /**
+   * Parse a Trilium LocalDateTime ('2024-01-15 09:30:00.000+0100'), honoring its UTC offset.
+   * Values without an offset are read as local time. Written back in UTC ('+0000').
+   */
+  localDateTime: (value: unknown): Date | undefined => {
+    if (typeof value !== 'string') return undefined;
+    const match = /^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d{1,3})?)?))?\s*(?:(Z)|([+-]\d{2}):?(\d{2}))?$/i.exec(value.trim());
+    if (!match) return undefined;
+
+    const [, day, time = '00:00', utc, offsetHours, offsetMinutes] = match;
+    const offset = utc ? 'Z' : offsetHours ? `${offsetHours}:${offsetMinutes}` : '';
+    const date = new Date(`${day}T${time}${offset}`);
+    return isNaN(date.getTime()) ? undefined : date;
+  },
+
   /** Trim whitespace from string */
   trim: (value: unknown): string | undefined => {
     if (value === undefined || value === null) return undefined;
     return String(value).trim() || undefined;
   },
+
+  /**
+   * Accept only one of the allowed values
+   * @example transforms.enum(['draft', 'published']) // 'draft' → 'draft', 'other' → undefined
+   */
+  enum: <const A extends readonly string[]>(allowed: A): ((value: unknown) => A[number] | undefined) =>
+    (value) => {
+      const text = typeof value === 'string' ? value.trim() : undefined;
+      return text !== undefined && allowed.includes(text) ? (text as A[number]) : undefined;
+    },
+
+  /**
+   * Convert to number, limited to a range
+   * @example transforms.clamp(1, 5) // '7' → 5
+   */
+  clamp: (min: number, max: number): ((value: unknown) => number | undefined) =>
+    invertible((value) => {
+      const num = transforms.number(value);
+      return num === undefined ? undefined : Math.min(max, Math.max(min, num));
+    }, String),
+
+  /**
+   * Split a string into trimmed, non-empty parts. Written back joined with `join`
+   * (default: the separator, or ',' for a regular expression).
+   * @example transforms.split(';') // 'a; b' → ['a', 'b']
+   */
+  split: (separator: string | RegExp, join = typeof separator === 'string' ? separator : ','): ((value: unknown) => string[] | undefined) =>
+    invertible((value) => {
+      if (typeof value !== 'string' || value === '') return undefined;
+      return value.split(separator).map((part) => part.trim()).filter(Boolean);
+    }, (value) => (Array.isArray(value) ? value.join(join) : String(value))),
+
+  /**
+   * Extract a regular expression match, or one of its groups (by index or name)
+   * @example transforms.regex(/^(\d+) pages$/, 1) // '412 pages' → '412'
+   */
+  regex: (pattern: RegExp | string, group: number | string = 0): ((value: unknown) => string | undefined) =>
+    (value) => {
+      if (value === undefined || value === null) return undefined;
+      const match = String(value).match(pattern);
+      return (typeof group === 'number' ? match?.[group] : match?.groups?.[group]) ?? undefined;
+    },
+
+  /** Convert to a URL slug: lowercase ASCII letters and digits separated by '-' ('Héllo World!' → 'hello-world') */
+  slugify: (value: unknown): string | undefined => {
+    if (value === undefined || value === null) return undefined;
+    const slug = String(value)
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    return slug || undefined;
+  },
+
+  /** Accept an absolute URL (e.g., 'https://example.com/a'), trimmed */
+  url: (value: unknown): string | undefined => {
+    if (typeof value !== 'string') return undefined;
+    const text = value.trim();
+    // URL.canParse() is missing before Node 18.17
+    try {
+      new URL(text);
+      return text;
+    } catch {
+      return undefined;
+    }
+  },
+
+  /** Accept a CSS color: hex (lowercased), rgb()/hsl() notation or a named color ('Red' → 'red') */
+  color: (value: unknown): string | undefined => {
+    if (typeof value !== 'string') return undefined;
+    const text = value.trim().toLowerCase();
+    if (/^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(text)) return text;
+    if (/^(?:rgba?|hsla?)\([^()]*\)$/.test(text)) return text;
+    return CSS_COLOR_NAMES.has(text) ? text : undefined;
+  },
+
+  /**
+   * Parse a duration to milliseconds: units ('1h 30m', '1.5h', '500ms', '2d', '1w'),
+   * clock time ('1:30', '1:30:15') or ISO 8601 ('PT1H30M'). Plain numbers are milliseconds.
+   * Written back with units ('1h30m').
+   */
+  duration: (value: unknown): number | undefined => {
+    if (typeof value === 'number') return value;
+    return typeof value === 'string' ? parseDuration(value) : undefined;
+  },
+
+  /**
+   * Chain transforms left to right; stops at the first step returning undefined
+   * @example transforms.compose(transforms.trim, transforms.slugify)
+   */
+  compose,
+
+  /**
+   * Skip a transform for empty values (undefined, null, '' or whitespace),
+   * for transforms that don't handle them
+   */
+  optional: <R>(transform: (value: unknown) => R): ((value: unknown) => R | undefined) =>
+    invertible((value) => (isEmptyValue(value) ? undefined : transform(value)), inverseTransforms.get(transform)),
+
+  /**
+   * Map empty values (undefined, null, '' or whitespace) to null instead of running the transform.
+   * null is kept as the field value; `default` only replaces undefined.
+   */
+  nullable: <R>(transform: (value: unknown) => R): ((value: unknown) => R | null) =>
+    invertible((value) => (isEmptyValue(value) ? null : transform(value)), inverseTransforms.get(transform)),
 };
 
+for (const [transform, inverse] of [
+  [transforms.number, String],
+  [transforms.integer, String],
+  [transforms.boolean, String],
+  [transforms.commaSeparated, (value) => (Array.isArray(value) ? value.join(',') : String(value))],
+  [transforms.json, (value) => JSON.stringify(value)],
+  [transforms.date, (value) => (value instanceof Date ? value.toISOString() : String(value))],
+  [transforms.localDateTime, (value) => (value instanceof Date ? formatLocalDateTime(value) : String(value))],
+  [transforms.trim, (value) => String(value).trim()],
+  [transforms.slugify, String],
+  [transforms.url, String],
+  [transforms.color, String],
+  [transforms.duration, (value) => (typeof value === 'number' ? formatDuration(value) : String(value))],
+] as [(value: unknown) => unknown, (value: unknown) => string][]) {
+  inverseTransforms.set(transform, inverse);
+}
+
+/**
+ * Chains transforms left to right, stopping at the first undefined result
+ * @private
+ */
+function compose<A>(first: TransformStep<unknown, A>): (value: unknown) => A | undefined;
+function compose<A, B>(first: TransformStep<unknown, A>, second: TransformStep<A, B>): (value: unknown) => B | undefined;
+function compose<A, B, C>(
+  first: TransformStep<unknown, A>,
+  second: TransformStep<A, B>,
+  third: TransformStep<B, C>
+): (value: unknown) => C | undefined;
+function compose<A, B, C, D>(
+  first: TransformStep<unknown, A>,
+  second: TransformStep<A, B>,
+  third: TransformStep<B, C>,
+  fourth: TransformStep<C, D>
+): (value: unknown) => D | undefined;
+function compose<A, B, C, D, E>(
+  first: TransformStep<unknown, A>,
+  second: TransformStep<A, B>,
+  third: TransformStep<B, C>,
+  fourth: TransformStep<C, D>,
+  fifth: TransformStep<D, E>
+): (value: unknown) => E | undefined;
+function compose(...steps: TransformStep<unknown, unknown>[]): (value: unknown) => unknown {
+  return (value) => steps.reduce<unknown>((result, step) => (result === undefined ? undefined : step(result)), value);
+}
+
+/**
+ * Registers the inverse of a transform created by a factory
+ * @private
+ */
+function invertible<F extends (value: unknown) => unknown>(transform: F, inverse: ((value: unknown) => string | undefined) | undefined): F {
+  if (inverse) inverseTransforms.set(transform, inverse);
+  return transform;
+}
+
+/** CSS named colors accepted by `transforms.color` */
+const CSS_COLOR_NAMES = new Set(
+  ('aliceblue antiquewhite aqua aquamarine azure beige bisque black blanchedalmond blue blueviolet brown burlywood ' +
+    'cadetblue chartreuse chocolate coral cornflowerblue cornsilk crimson cyan darkblue darkcyan darkgoldenrod darkgray ' +
+    'darkgreen darkgrey darkkhaki darkmagenta darkolivegreen darkorange darkorchid darkred darksalmon darkseagreen ' +
+    'darkslateblue darkslategray darkslategrey darkturquoise darkviolet deeppink deepskyblue dimgray dimgrey dodgerblue ' +
+    'firebrick floralwhite forestgreen fuchsia gainsboro ghostwhite gold goldenrod gray green greenyellow grey honeydew ' +
+    'hotpink indianred indigo ivory khaki lavender lavenderblush lawngreen lemonchiffon lightblue lightcoral lightcyan ' +
+    'lightgoldenrodyellow lightgray lightgreen lightgrey lightpink lightsalmon lightseagreen lightskyblue lightslategray ' +
+    'lightslategrey lightsteelblue lightyellow lime limegreen linen magenta maroon mediumaquamarine mediumblue ' +
+    'mediumorchid mediumpurple mediumseagreen mediumslateblue mediumspringgreen mediumturquoise mediumvioletred ' +
+    'midnightblue mintcream mistyrose moccasin navajowhite navy oldlace olive olivedrab orange orangered orchid ' +
+    'palegoldenrod palegreen paleturquoise palevioletred papayawhip peachpuff peru pink plum powderblue purple ' +
+    'rebeccapurple red rosybrown royalblue saddlebrown salmon sandybrown seagreen seashell sienna silver skyblue ' +
+    'slateblue slategray slategrey snow springgreen steelblue tan teal thistle tomato turquoise violet wheat white ' +
+    'whitesmoke yellow yellowgreen transparent').split(' ')
+);
+
+/** Milliseconds per duration unit, largest first */
+const DURATION_UNITS: [string, number][] = [
+  ['w', 604_800_000],
+  ['d', 86_400_000],
+  ['h', 3_600_000],
+  ['m', 60_000],
+  ['s', 1_000],
+  ['ms', 1],
+];
+
+/** An amount with a unit in a duration ('1.5h') */
+const DURATION_PART = /(\d+(?:\.\d+)?)\s*(ms|[wdhms])/g;
+
+/**
+ * Parses a duration in units, clock time or ISO 8601 format to milliseconds
+ * @private
+ */
+function parseDuration(text: string): number | undefined {
+  const value = text.trim().toLowerCase();
+  const units = new Map(DURATION_UNITS);
+  if (/^\d+(?:\.\d+)?$/.test(value)) return Number(value);
+
+  const clock = /^(\d+):([0-5]\d)(?::([0-5]\d(?:\.\d+)?))?$/.exec(value);
+  if (clock) {
+    const [, hours, minutes, seconds = '0'] = clock;
+    return Math.round((Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000);
+  }
+
+  const iso = /^p(?:(\d+(?:\.\d+)?)w)?(?:(\d+(?:\.\d+)?)d)?(?:t(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?)?$/.exec(value);
+  if (iso && value !== 'p' && !value.endsWith('t')) {
+    const sizes = ['w', 'd', 'h', 'm', 's'].map((unit) => units.get(unit)!);
+    return Math.round(iso.slice(1).reduce((total, amount, index) => total + Number(amount ?? 0) * sizes[index]!, 0));
+  }
+
+  const parts = [...value.matchAll(DURATION_PART)];
+  if (parts.length === 0 || value.replace(DURATION_PART, '').trim() !== '') return undefined;
+  return Math.round(parts.reduce((total, [, amount, unit]) => total + Number(amount) * units.get(unit!)!, 0));
+}
+
+/**
+ * Formats milliseconds with units ('1h30m'), as read by `transforms.duration`
+ * @private
+ */
+function formatDuration(ms: number): string {
+  let remaining = Math.round(ms);
+  const parts = DURATION_UNITS.flatMap(([unit, size]) => {
+    const amount = Math.floor(remaining / size);
+    remaining -= amount * size;
+    return amount > 0 ? [`${amount}${unit}`] : [];
+  });
+  return parts.join('') || '0s';
+}
+
+/**
+ * Formats a date as a Trilium LocalDateTime in UTC ('2024-01-15 08:30:00.000+0000')
+ * @private
+ */
+function formatLocalDateTime(date: Date): string {
+  return `${date.toISOString().replace('T', ' ').replace('Z', '')}+0000`;
+}
+
+/**
+ * Converts a value to a string without a known inverse transform
+ * @private
+ */
+function serializeValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join(',');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Checks whether a mapping reads all matching attributes ('#tag[]' or `multiple: true`)
+ * @private
+ */
+function isMultiple(mapping: { from: unknown; multiple?: boolean }): boolean {
+  return mapping.multiple === true || (typeof mapping.from === 'string' && mapping.from.endsWith('[]'));
+}
+
+/**
+ * Creates the resolution state for mapping a root note
+ * @private
+ */
+function rootScope(note: TriliumNote, relations: ResolvedRelations | undefined): RelationScope | undefined {
+  return relations && {
+    notes: relations.notes,
+    depth: relations.maxDepth,
+    chain: note.noteId ? [note.noteId] : [],
+    children: relations.children,
+  };
+}
+
+/**
+ * Plans a new value for an existing attribute. ETAPI can't change a relation's
+ * target, so a relation is replaced (keeping it inheritable) instead of updated.
+ * @private
+ */
+function changeValue(
+  diff: NoteDiff,
+  attr: TriliumAttribute,
+  target: { type: 'label' | 'relation'; name: string },
+  value: string
+): void {
+  const { type, name } = target;
+  if (type === 'relation') {
+    diff.delete.push({ attributeId: attr.attributeId ?? '', type, name });
+    diff.create.push({ type, name, value, ...(attr.isInheritable ? { isInheritable: true } : {}) });
+  } else {
+    diff.update.push({ attributeId: attr.attributeId ?? '', type, name, value });
+  }
+}
+
+/**
+ * Identifies the children a `children` field loads for a note
+ * @private
+ */
+function childrenKey(note: TriliumNote, field: ChildrenMapping): string {
+  return `${note.noteId}:${field.depth ?? 1}:${field.filter ? buildSearchQuery(field.filter) : ''}`;
+}
+
+/**
+ * Sorts loaded children by title among their siblings, keeping each note
+ * followed by its own descendants (for children loaded with depth > 1)
+ * @private
+ */
+function sortChildrenByTitle(children: NoteWithBranch[]): NoteWithBranch[] {
+  const noteIds = new Set(children.map((child) => child.noteId));
+  const siblings = new Map<string | undefined, NoteWithBranch[]>();
+  const branchIds = new Set<string>();
+  for (const child of children) {
+    // A note cloned within the subtree brings its descendants once per placement; group them once
+    const branchId = child.branch?.branchId;
+    if (branchId !== undefined && branchIds.has(branchId)) continue;
+    if (branchId !== undefined) branchIds.add(branchId);
+
+    const parentNoteId = child.branch?.parentNoteId;
+    siblings.set(parentNoteId, [...siblings.get(parentNoteId) ?? [], child]);
+  }
+
+  const sorted: NoteWithBranch[] = [];
+  const append = (parentNoteId: string | undefined, ancestors: Set<string | undefined>) => {
+    const group = [...siblings.get(parentNoteId) ?? []].sort((a, b) => (a.title ?? '').localeCompare(b.title ?? ''));
+    for (const child of group) {
+      sorted.push(child);
+      if (!ancestors.has(child.noteId)) {
+        append(child.noteId, new Set([...ancestors, child.noteId]));
+      }
+    }
+  };
+  // Start from the parents that aren't among the children: the note itself, or
+  // the parents of descendants whose own parent didn't match the filter
+  for (const parentNoteId of siblings.keys()) {
+    if (parentNoteId === undefined || !noteIds.has(parentNoteId)) append(parentNoteId, new Set([parentNoteId]));
+  }
+  return sorted;
+}
+
+/**
+ * Checks whether a value is a promise (or another thenable)
+ * @private
+ */
+function isPromise(value: unknown): value is Promise<unknown> {
+  return typeof (value as { then?: unknown } | null | undefined)?.then === 'function';
+}
+
+/**
+ * Applies a function to a value, or to the result of a promise once it resolves,
+ * so sync mappings stay sync
+ * @private
+ */
+function then<V, R>(value: MaybePromise<V>, fn: (value: V) => MaybePromise<R>): MaybePromise<R> {
+  return isPromise(value) ? value.then(fn) : fn(value);
+}
+
+/**
+ * Awaits a list of values only if one of them is a promise
+ * @private
+ */
+function all<V>(values: MaybePromise<V>[]): MaybePromise<V[]> {
+  return values.some(isPromise) ? Promise.all(values) : (values as V[]);
+}
+
+/**
+ * Runs steps in order, waiting for a step only if it returns a promise
+ * @private
+ */
+function sequence(steps: (() => MaybePromise<void>)[], start = 0): MaybePromise<void> {
+  for (let index = start; index < steps.length; index++) {
+    const result = steps[index]!();
+    if (isPromise(result)) return result.then(() => sequence(steps, index + 1));
+  }
+}
+
+/**
+ * Throws the failures collected for a note as a single TriliumMappingError
+ * @private
+ */
+function throwFailures(note: TriliumNote, { errors, cause }: FailureCollector): never {
+  const message = errors.length === 1
+    ? errors[0]!.message
+    : `${errors.length} fields failed for note ${note.noteId} (${note.title}): ${errors.map((error) => error.message).join('; ')}`;
+  throw new TriliumMappingError(message, errors, note.noteId, cause);
+}
+
+/**
+ * Describes where a field's value comes from, for error reports
+ * @private
+ */
+function sourcePath<T>(fieldMapping: FieldMapping<T>): string {
+  if (typeof fieldMapping === 'string') return fieldMapping;
+  if ('computed' in fieldMapping) return '<computed>';
+  if ('children' in fieldMapping) return '<children>';
+  return typeof fieldMapping.from === 'string' ? fieldMapping.from : '<extractor>';
+}
+
+/**
+ * Checks whether a value is a plain object
+ * @private
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Checks whether a raw value is empty, so a transform may turn it into undefined in strict mode
+ * @private
+ */
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Falls back to a field's default value when the value is undefined
+ * @private
+ */
+function withDefault(value: unknown, defaultValue: unknown): unknown {
+  return value === undefined && defaultValue !== undefined ? defaultValue : value;
+}
+
+/**
+ * Wraps a raw value in a list: arrays as-is, undefined/null as empty
+ * @private
+ */
+function toList(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? (value as unknown[]) : [value];
+}
+
+/**
+ * Reads the noteId of a resolved relation target from the field mapped from 'note.noteId'
+ * @private
+ */
+function targetNoteId(config: MappingConfig<unknown>, target: object): string | undefined {
+  for (const [key, fieldMapping] of Object.entries(config) as [string, FieldMapping<unknown>][]) {
+    const from = typeof fieldMapping === 'object' && 'from' in fieldMapping ? fieldMapping.from : fieldMapping;
+    if (from === 'note.noteId') {
+      const noteId = (target as Record<string, unknown>)[key];
+      return typeof noteId === 'string' ? noteId : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Removes the `[]` suffix of a multi-valued path
+ * @private
+ */
+function stripMultiple(path: string): string {
+  return path.endsWith('[]') ? path.slice(0, -2) : path;
+}
+
+/**
+ * Returns the labels or relations with the given name, ordered by position.
+ * Inherited attributes keep their place after the note's own, grouped by owning note.
+ * @private
+ */
+function attributesNamed(attributes: TriliumAttribute[], type: 'label' | 'relation', name: string): TriliumAttribute[] {
+  const matching = attributes.filter((attr) => attr.type === type && attr.name === name);
+  const owners = [...new Set(matching.map((attr) => attr.noteId))];
+  return matching.sort((a, b) => owners.indexOf(a.noteId) - owners.indexOf(b.noteId) || (a.position ?? 0) - (b.position ?? 0));
+}
+
+/**
+ * Compares two lists of raw values
+ * @private
+ */
+function sameValues(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+/**
+ * Resolves the write target of a mapping path, or undefined if it is read-only
+ * @private
+ */
+function writeTarget(path: string, multiple: boolean): WriteTarget | undefined {
+  if (path.startsWith('#') || path.startsWith('~')) {
+    const name = stripMultiple(path.slice(1));
+    // Nested paths like '~author.title' read from another note
+    if (!name || name.includes('.')) return undefined;
+    return { kind: 'attribute', type: path.startsWith('#') ? 'label' : 'relation', name, multiple: multiple || path.endsWith('[]') };
+  }
+
+  const property = path.startsWith('note.') ? path.slice(5) : '';
+  return (WRITABLE_PROPERTIES as readonly string[]).includes(property)
+    ? { kind: 'property', name: property as keyof WritableNoteProperties }
+    : undefined;
+}
+
+/**
+ * Sets a writable note property from its string value
+ * @private
+ */
+function setProperty(properties: WritableNoteProperties, name: keyof WritableNoteProperties, value: string): void {
+  (properties as Record<string, string>)[name] = value;
+}
+
 // ============================================================================
 // Standard Note Type and Mapping
 // ============================================================================
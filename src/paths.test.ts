@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { TriliumPathError, findChild, formatNotePath, parseNotePath } from './paths.js';
+import type { ChildEntry } from './tree.js';
+
+function child(noteId: string, title: string, prefix?: string): ChildEntry {
+  return {
+    note: { noteId, title },
+    branch: { branchId: `parent_${noteId}`, noteId, parentNoteId: 'parent', ...(prefix ? { prefix } : {}) },
+  };
+}
+
+describe('parseNotePath', () => {
+  it('should split on unescaped slashes and drop empty segments', () => {
+    expect(parseNotePath('/Projects//Acme\\/Partners/')).toEqual(['Projects', 'Acme/Partners']);
+    expect(parseNotePath('')).toEqual([]);
+  });
+
+  it('should keep spaces around titles', () => {
+    expect(parseNotePath('Projects/ Notes ')).toEqual(['Projects', ' Notes ']);
+  });
+
+  it('should round-trip formatted paths', () => {
+    const titles = ['a/b', 'c\\d', ' e '];
+    expect(formatNotePath(titles)).toBe('a\\/b/c\\\\d/ e ');
+    expect(parseNotePath(formatNotePath(titles))).toEqual(titles);
+  });
+});
+
+describe('findChild', () => {
+  it('should match by title or by prefixed title', () => {
+    const children = [child('a', 'Acme'), child('n', 'Notes', '2024')];
+
+    expect(findChild('Acme', 'Acme', children)?.note.noteId).toBe('a');
+    expect(findChild('2024 - Notes', '2024 - Notes', children)?.note.noteId).toBe('n');
+    expect(findChild('Notes', 'Notes', children)?.note.noteId).toBe('n');
+    expect(findChild('Other', 'Other', children)).toBeUndefined();
+  });
+
+  it('should prefer the prefixed title and report ambiguous titles', () => {
+    const children = [child('n1', 'Notes', '2024'), child('n2', 'Notes', '2025')];
+
+    expect(findChild('2025 - Notes', '2025 - Notes', children)?.note.noteId).toBe('n2');
+    expect(() => findChild('Acme/Notes', 'Notes', children)).toThrow(TriliumPathError);
+    expect(() => findChild('Acme/Notes', 'Notes', children)).toThrow("Path 'Acme/Notes' is ambiguous: 2 notes match 'Notes' (n1, n2)");
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Note Paths
+ *
+ * Addresses notes by title paths such as 'Projects/Acme/Meeting Notes'. Each
+ * segment is the title of a child of the previous note; a '/' within a title is
+ * escaped as '\/'. Trilium shows a note placed with a branch prefix as
+ * 'prefix - title', and segments match that form too.
+ */
+
+import type { TriliumNote } from './client.js';
+import type { ChildEntry } from './tree.js';
+
+/**
+ * Thrown when a path segment matches more than one child note
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await client.paths.resolve('Projects/Acme');
+ * } catch (err) {
+ *   if (err instanceof TriliumPathError) {
+ *     console.warn(`'${err.segment}' matches ${err.noteIds.join(', ')}`);
+ *   }
+ * }
+ * ```
+ */
+export class TriliumPathError extends Error {
+  /** The path being resolved */
+  readonly path: string;
+  /** The segment that matched several notes */
+  readonly segment: string;
+  /** The notes the segment matched */
+  readonly noteIds: string[];
+
+  constructor(path: string, segment: string, noteIds: string[]) {
+    super(`Path '${path}' is ambiguous: ${noteIds.length} notes match '${segment}' (${noteIds.join(', ')})`);
+    this.name = 'TriliumPathError';
+    this.path = path;
+    this.segment = segment;
+    this.noteIds = noteIds;
+  }
+}
+
+/** A note on a path, with the branch placing it below the previous note */
+export interface NotePathSegment {
+  noteId: string;
+  title: string;
+  branchId: string;
+  /** The branch prefix, if any */
+  prefix: string | undefined;
+}
+
+/** A path from the root note down to a note */
+export interface NotePath {
+  /** The title path, as accepted by paths.resolve() (e.g., 'Projects/Acme/Meeting Notes') */
+  path: string;
+  /** The note IDs from the root, as used by Trilium links (e.g., 'root/abc123/def456') */
+  notePath: string;
+  /** The notes below the root down to the note */
+  segments: NotePathSegment[];
+}
+
+/** Options for resolving paths */
+export interface NotePathOptions {
+  /** Optional: the note paths start from (default: 'root') */
+  root?: string;
+}
+
+/** Options for paths.ensure() */
+export interface EnsurePathOptions extends NotePathOptions {
+  /** Optional: type of the notes created (default: 'text') */
+  type?: NonNullable<TriliumNote['type']>;
+  /** Optional: content of the notes created (default: empty) */
+  content?: string;
+}
+
+/** The note every path starts from by default */
+export const ROOT_NOTE_ID = 'root';
+
+/**
+ * Splits a title path into its segments.
+ * Empty segments (e.g., from a leading or doubled '/') are ignored; other
+ * segments are kept as given, including leading or trailing spaces.
+ *
+ * @param path - The title path
+ * @returns The titles, unescaped
+ *
+ * @example
+ * parseNotePath('Projects/Acme\\/Partners') // => ['Projects', 'Acme/Partners']
+ */
+export function parseNotePath(path: string): string[] {
+  const segments = path.match(/(?:\\.|[^/])+/g) ?? [];
+  return segments.map((segment) => segment.replace(/\\(.)/g, '$1'));
+}
+
+/**
+ * Joins titles into a title path, escaping '/' and '\' within them
+ *
+ * @param titles - The titles, from the top down
+ * @returns The title path
+ */
+export function formatNotePath(titles: string[]): string {
+  return titles.map((title) => title.replace(/[\\/]/g, '\\$&')).join('/');
+}
+
+/**
+ * Finds the child matching a path segment. Children whose displayed title
+ * ('prefix - title' with a branch prefix) matches take precedence over
+ * children whose title matches.
+ *
+ * @param path - The path being resolved, for errors
+ * @param segment - The segment to match
+ * @param children - The children of the previous note
+ * @returns The matching child, or undefined if none matches
+ * @throws TriliumPathError if several children match
+ */
+export function findChild(path: string, segment: string, children: ChildEntry[]): ChildEntry | undefined {
+  const displayed = children.filter(({ note, branch }) => displayTitle(note.title ?? '', branch.prefix) === segment);
+  const matches = displayed.length > 0 ? displayed : children.filter(({ note }) => note.title === segment);
+
+  if (matches.length > 1) {
+    throw new TriliumPathError(path, segment, matches.map(({ note }) => note.noteId ?? ''));
+  }
+  return matches[0];
+}
+
+/**
+ * Returns the title of a note as Trilium shows it below a parent
+ * @private
+ */
+function displayTitle(title: string, prefix: string | undefined): string {
+  return prefix ? `${prefix} - ${title}` : title;
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter, createRateLimitedFetch } from './rate-limit.js';
+
+// Resolves pending promise callbacks without advancing timers
+const flush = () => new Promise<void>((resolve) => queueMicrotask(resolve)).then(() => undefined);
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('concurrency', () => {
+    it('should cap the number of requests in flight', async () => {
+      const limiter = new RateLimiter({ maxConcurrent: 2 });
+      const started: number[] = [];
+      const releases: (() => void)[] = [];
+
+      const tasks = [1, 2, 3].map((n) =>
+        limiter.schedule(
+          () =>
+            new Promise<void>((resolve) => {
+              started.push(n);
+              releases.push(resolve);
+            }),
+        ),
+      );
+      await flush();
+
+      expect(started).toEqual([1, 2]);
+      expect(limiter.inFlight).toBe(2);
+      expect(limiter.queueLength).toBe(1);
+
+      releases[0]!();
+      await flush();
+      await flush();
+
+      expect(started).toEqual([1, 2, 3]);
+      expect(limiter.queueLength).toBe(0);
+
+      releases.slice(1).forEach((release) => release());
+      await Promise.all(tasks);
+      expect(limiter.inFlight).toBe(0);
+    });
+  });
+
+  describe('token bucket', () => {
+    it('should allow a burst then throttle to the configured rate', async () => {
+      const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 2 });
+      let started = 0;
+
+      const tasks = Array.from({ length: 4 }, () => limiter.schedule(async () => void started++));
+      await flush();
+      expect(started).toBe(2);
+      expect(limiter.queueLength).toBe(2);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(started).toBe(3);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(started).toBe(4);
+
+      await Promise.all(tasks);
+    });
+
+    it('should report stats', () => {
+      const limiter = new RateLimiter({ requestsPerSecond: 5 });
+      expect(limiter.stats()).toEqual({ queued: 0, inFlight: 0, availableTokens: 5, pausedUntil: undefined });
+    });
+  });
+
+  describe('pause', () => {
+    it('should hold queued requests until the pause ends', async () => {
+      const limiter = new RateLimiter({});
+      limiter.pause(1000);
+
+      let started = false;
+      const task = limiter.schedule(async () => void (started = true));
+      await flush();
+      expect(started).toBe(false);
+      expect(limiter.stats().pausedUntil).toBeDefined();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(started).toBe(true);
+      await task;
+    });
+  });
+
+  describe('abort', () => {
+    it('should remove aborted requests from the queue', async () => {
+      const limiter = new RateLimiter({ maxConcurrent: 1 });
+      const blocker = limiter.acquire();
+      await blocker;
+
+      const controller = new AbortController();
+      const waiting = limiter.acquire(controller.signal);
+      expect(limiter.queueLength).toBe(1);
+
+      controller.abort(new DOMException('stop', 'AbortError'));
+
+      await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+      expect(limiter.queueLength).toBe(0);
+    });
+  });
+});
+
+describe('RateLimiter wake-ups', () => {
+  it('should not keep the process alive while requests are queued', async () => {
+    const setTimeout = vi.spyOn(globalThis, 'setTimeout');
+    const limiter = new RateLimiter({ requestsPerSecond: 1, burst: 1 });
+    const controller = new AbortController();
+
+    await limiter.acquire();
+    const queued = limiter.acquire(controller.signal).catch(() => undefined);
+
+    const timer = setTimeout.mock.results.at(-1)?.value as NodeJS.Timeout;
+    expect(timer.hasRef()).toBe(false);
+    controller.abort();
+    await queued;
+    setTimeout.mockRestore();
+  });
+});
+
+describe('createRateLimitedFetch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pause the limiter on 429 with Retry-After', async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 429, headers: { 'retry-after': '2' } }));
+    const limiter = new RateLimiter({});
+    const limitedFetch = createRateLimitedFetch(limiter, () => fetch);
+
+    await limitedFetch('http://localhost/etapi/app-info');
+    expect(limiter.stats().pausedUntil).toBe(Date.now() + 2000);
+
+    const next = limitedFetch('http://localhost/etapi/app-info');
+    await flush();
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await next;
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not pause when respectRetryAfter is false', async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 429, headers: { 'retry-after': '2' } }));
+    const limiter = new RateLimiter({ respectRetryAfter: false });
+
+    await createRateLimitedFetch(limiter, () => fetch)('http://localhost/etapi/app-info');
+
+    expect(limiter.stats().pausedUntil).toBeUndefined();
+  });
+});
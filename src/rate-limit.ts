@@ -0,0 +1,251 @@
+/**
+ * Client-side Rate Limiting
+ *
+ * A token-bucket rate limiter with a max-in-flight concurrency cap, shared by
+ * every request made through a client (including retries and helpers).
+ */
+
+import { parseRetryAfter } from './retry.js';
+
+/** Rate limiting configuration for createTriliumClient */
+export interface RateLimitOptions {
+  /** Optional: sustained number of requests started per second (token refill rate) */
+  requestsPerSecond?: number;
+  /** Optional: number of requests that may start at once before throttling (default: requestsPerSecond, at least 1) */
+  burst?: number;
+  /**
+   * Optional: maximum number of requests in flight at the same time. A request
+   * holds its slot until the response headers arrive; reading the body doesn't
+   * count against the cap.
+   */
+  maxConcurrent?: number;
+  /** Pause all queued requests when a 429 response carries a Retry-After header (default: true) */
+  respectRetryAfter?: boolean;
+}
+
+/** Snapshot of the limiter's state */
+export interface RateLimiterStats {
+  /** Requests waiting for a slot */
+  queued: number;
+  /** Requests currently in flight */
+  inFlight: number;
+  /** Tokens currently available in the bucket */
+  availableTokens: number;
+  /** Timestamp (ms since epoch) until which requests are paused, if paused */
+  pausedUntil: number | undefined;
+}
+
+/** A request waiting for a slot */
+interface Waiter {
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+  signal: AbortSignal | undefined;
+  onAbort: () => void;
+}
+
+/**
+ * Token-bucket rate limiter with a concurrency cap
+ *
+ * @example
+ * ```ts
+ * const limiter = new RateLimiter({ requestsPerSecond: 10, maxConcurrent: 4 });
+ *
+ * const result = await limiter.schedule(() => fetch(url));
+ * console.log(limiter.queueLength);
+ * ```
+ */
+export class RateLimiter {
+  /** The options this limiter was created with */
+  readonly options: RateLimitOptions;
+
+  private readonly capacity: number;
+  private tokens: number;
+  private lastRefill: number;
+  private active = 0;
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private readonly queue: Waiter[] = [];
+
+  /**
+   * Creates a new RateLimiter
+   * @param options - Rate and concurrency limits; omitted limits are not enforced
+   */
+  constructor(options: RateLimitOptions = {}) {
+    this.options = options;
+    this.capacity = Math.max(1, options.burst ?? Math.ceil(options.requestsPerSecond ?? 1));
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /** Number of requests waiting for a slot */
+  get queueLength(): number {
+    return this.queue.length;
+  }
+
+  /** Number of requests currently in flight */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  /**
+   * Returns a snapshot of the limiter's state
+   * @returns Queue length, in-flight count, available tokens and pause deadline
+   */
+  stats(): RateLimiterStats {
+    this.refill();
+    return {
+      queued: this.queue.length,
+      inFlight: this.active,
+      availableTokens: this.options.requestsPerSecond ? Math.floor(this.tokens) : Infinity,
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : undefined,
+    };
+  }
+
+  /**
+   * Waits for a slot. Every successful acquire must be followed by `release()`.
+   *
+   * @param signal - Optional signal to stop waiting; rejects with its reason
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          const index = this.queue.indexOf(waiter);
+          if (index !== -1) this.queue.splice(index, 1);
+          reject(signal?.reason);
+        },
+      };
+      signal?.addEventListener('abort', waiter.onAbort, { once: true });
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /** Releases a slot obtained with `acquire()` */
+  release(): void {
+    this.active = Math.max(0, this.active - 1);
+    this.drain();
+  }
+
+  /**
+   * Runs a task once a slot is available, releasing the slot when it settles
+   *
+   * @param task - The task to run
+   * @param signal - Optional signal to stop waiting for a slot
+   * @returns The task's result
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Stops starting new requests for the given duration (e.g., after a 429 with Retry-After)
+   * @param ms - Pause duration in milliseconds
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  /**
+   * Refills the token bucket based on elapsed time
+   * @private
+   */
+  private refill(): void {
+    const rate = this.options.requestsPerSecond;
+    if (!rate) return;
+
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * rate);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Starts as many queued requests as the limits allow, scheduling a wake-up when throttled
+   * @private
+   */
+  private drain(): void {
+    const { requestsPerSecond, maxConcurrent } = this.options;
+
+    while (this.queue.length > 0) {
+      if (maxConcurrent !== undefined && this.active >= maxConcurrent) return;
+
+      const now = Date.now();
+      if (this.pausedUntil > now) {
+        this.wakeAfter(this.pausedUntil - now);
+        return;
+      }
+
+      if (requestsPerSecond) {
+        this.refill();
+        if (this.tokens < 1) {
+          this.wakeAfter(((1 - this.tokens) / requestsPerSecond) * 1000);
+          return;
+        }
+        this.tokens -= 1;
+      }
+
+      const waiter = this.queue.shift()!;
+      waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      this.active++;
+      waiter.resolve();
+    }
+  }
+
+  /**
+   * Schedules a single drain after the given delay
+   * @private
+   */
+  private wakeAfter(ms: number): void {
+    if (this.timer !== undefined) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.ceil(ms));
+    // Don't keep the process alive just for queued requests
+    this.timer.unref?.();
+  }
+}
+
+/**
+ * Wraps a fetch function so every call goes through the rate limiter.
+ * The slot is released when the response headers arrive, before the body is read.
+ *
+ * @param limiter - The shared limiter
+ * @param fetch - The fetch function to wrap (resolved lazily so global mocks apply)
+ * @returns A rate-limited fetch function
+ */
+export function createRateLimitedFetch(
+  limiter: RateLimiter,
+  fetch: () => typeof globalThis.fetch = () => globalThis.fetch,
+): typeof globalThis.fetch {
+  return async (input, init) => {
+    const signal = init?.signal ?? (input instanceof Request ? input.signal : undefined);
+
+    await limiter.acquire(signal);
+    try {
+      const response = await fetch()(input, init);
+
+      if (response.status === 429 && limiter.options.respectRetryAfter !== false) {
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+        if (retryAfter !== undefined) limiter.pause(retryAfter);
+      }
+
+      return response;
+    } finally {
+      limiter.release();
+    }
+  };
+}
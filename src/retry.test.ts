@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { computeRetryDelay, parseRetryAfter } from './retry.js';
+
+describe('computeRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should grow exponentially from the base delay', () => {
+    const options = { baseDelayMs: 100, jitter: false };
+    expect(computeRetryDelay(2, options)).toBe(100);
+    expect(computeRetryDelay(3, options)).toBe(200);
+    expect(computeRetryDelay(4, options)).toBe(400);
+  });
+
+  it('should cap the delay at maxDelayMs', () => {
+    expect(computeRetryDelay(10, { baseDelayMs: 100, maxDelayMs: 1000, jitter: false })).toBe(1000);
+  });
+
+  it('should apply full jitter by default', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(computeRetryDelay(3, { baseDelayMs: 100 })).toBe(100);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('0')).toBe(0);
+  });
+
+  it('should parse HTTP dates', () => {
+    const date = new Date(Date.now() + 60_000).toUTCString();
+    const delay = parseRetryAfter(date)!;
+    expect(delay).toBeGreaterThan(55_000);
+    expect(delay).toBeLessThanOrEqual(60_000);
+  });
+
+  it('should return undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Retry Middleware
+ *
+ * Retries transient failures (network errors and retryable status codes)
+ * with exponential backoff and jitter.
+ */
+
+import type { Middleware } from 'openapi-fetch';
+import { createTriliumNetworkError } from './errors.js';
+import { isAbortError, sleep } from './timeout.js';
+
+/** Details passed to the onRetry callback */
+export interface RetryInfo {
+  /** The attempt about to be made (2 for the first retry) */
+  attempt: number;
+  /** Maximum number of attempts, including the first */
+  maxAttempts: number;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+  /** HTTP method of the request */
+  method: string;
+  /** OpenAPI schema path of the request (e.g., '/notes/{noteId}') */
+  path: string;
+  /** Status of the failed response, if one was received */
+  status?: number;
+  /** The network error, if no response was received */
+  error?: unknown;
+}
+
+/** Retry configuration for createTriliumClient */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first (default: 3) */
+  maxAttempts?: number;
+  /** Base delay for exponential backoff in milliseconds (default: 200) */
+  baseDelayMs?: number;
+  /** Maximum delay between attempts in milliseconds (default: 5000) */
+  maxDelayMs?: number;
+  /** Randomize each delay between 0 and the backoff delay ("full jitter") (default: true) */
+  jitter?: boolean;
+  /** Status codes that trigger a retry (default: 408, 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /**
+   * HTTP methods that are safe to retry (default: GET, HEAD, OPTIONS, PUT, DELETE).
+   * POST and PATCH are not retried by default because they are not idempotent.
+   */
+  methods?: string[];
+  /**
+   * Optional: decide per request whether it is safe to retry.
+   * Overrides `methods` when provided.
+   */
+  isRetryable?: (request: { method: string; path: string }) => boolean;
+  /** Optional: called before each retry, e.g. for logging */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/** Default status codes considered transient */
+export const DEFAULT_RETRY_STATUS = [408, 429, 500, 502, 503, 504];
+
+/** Default methods considered idempotent */
+export const DEFAULT_RETRY_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/** Retry state tracked per request ID */
+interface RetryState {
+  request: Request;
+  attempt: number;
+}
+
+/**
+ * Computes the backoff delay for a given attempt
+ *
+ * @param attempt - The attempt about to be made (2 for the first retry)
+ * @param options - Retry options
+ * @returns The delay in milliseconds
+ */
+export function computeRetryDelay(attempt: number, options: RetryOptions = {}): number {
+  const baseDelayMs = options.baseDelayMs ?? 200;
+  const maxDelayMs = options.maxDelayMs ?? 5000;
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 2));
+  return options.jitter === false ? delay : Math.random() * delay;
+}
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds
+ *
+ * @param value - The header value
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Creates openapi-fetch middleware that retries transient failures
+ *
+ * @param options - Retry options
+ * @returns Middleware to register with `client.use()`
+ *
+ * @example
+ * ```ts
+ * client.use(createRetryMiddleware({
+ *   maxAttempts: 5,
+ *   onRetry: ({ attempt, path, status }) => console.warn(`Retrying ${path} (${status}), attempt ${attempt}`),
+ * }));
+ * ```
+ */
+export function createRetryMiddleware(options: RetryOptions = {}): Middleware {
+  const maxAttempts = options.maxAttempts ?? 3;
+  const retryOnStatus = options.retryOnStatus ?? DEFAULT_RETRY_STATUS;
+  const methods = (options.methods ?? DEFAULT_RETRY_METHODS).map((m) => m.toUpperCase());
+  const isRetryable = options.isRetryable ?? ((request) => methods.includes(request.method));
+  const states = new Map<string, RetryState>();
+
+  /**
+   * Retries until a non-retryable outcome or the attempt limit is reached
+   * @returns The final response, or the final network error
+   */
+  const retry = async (
+    state: RetryState,
+    path: string,
+    fetch: typeof globalThis.fetch,
+    failure: { response?: Response; error?: unknown },
+  ): Promise<{ response?: Response; error?: unknown }> => {
+    let current = failure;
+
+    while (state.attempt < maxAttempts) {
+      if (current.response && !retryOnStatus.includes(current.response.status)) break;
+      // Never retry past a timeout or a caller abort
+      if (isAbortError(current.error) || state.request.signal.aborted) break;
+
+      state.attempt++;
+      const retryAfter = parseRetryAfter(current.response?.headers.get('retry-after') ?? null);
+      const delayMs = retryAfter !== undefined
+        ? Math.min(retryAfter, options.maxDelayMs ?? 5000)
+        : computeRetryDelay(state.attempt, options);
+
+      options.onRetry?.({
+        attempt: state.attempt,
+        maxAttempts,
+        delayMs,
+        method: state.request.method,
+        path,
+        ...(current.response ? { status: current.response.status } : { error: current.error }),
+      });
+
+      try {
+        await sleep(delayMs, state.request.signal);
+        current = { response: await fetch(state.request.clone()) };
+      } catch (error) {
+        current = { error };
+      }
+    }
+
+    return current;
+  };
+
+  return {
+    onRequest({ request, schemaPath, id }) {
+      if (maxAttempts > 1 && isRetryable({ method: request.method, path: schemaPath })) {
+        states.set(id, { request: request.clone(), attempt: 1 });
+      }
+      return undefined;
+    },
+    async onResponse({ request, response, schemaPath, id, options: fetchOptions }) {
+      const state = states.get(id);
+      states.delete(id);
+      if (!state || !retryOnStatus.includes(response.status)) return undefined;
+
+      const result = await retry(state, schemaPath, fetchOptions.fetch, { response });
+      if (result.response) return result.response;
+
+      // onError middleware is not invoked for errors raised here, so wrap it ourselves
+      throw createTriliumNetworkError(result.error, {
+        method: request.method,
+        path: schemaPath,
+        url: request.url,
+        requestId: id,
+      });
+    },
+    async onError({ error, schemaPath, id, options: fetchOptions }) {
+      const state = states.get(id);
+      if (!state || isAbortError(error)) {
+        states.delete(id);
+        return undefined;
+      }
+
+      const result = await retry(state, schemaPath, fetchOptions.fetch, { error });
+      if (result.response) {
+        // Keep the state so onResponse knows the attempts are already spent
+        states.set(id, { ...state, attempt: maxAttempts });
+        return result.response;
+      }
+
+      states.delete(id);
+      return result.error instanceof Error ? result.error : new Error(String(result.error));
+    },
+  };
+}
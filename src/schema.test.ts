@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest';
+import { formatIssuePath } from './schema.js';
+
+describe('formatIssuePath', () => {
+  it('should join keys and path segments', () => {
+    expect(formatIssuePath(['author', { key: 'tags' }, 0])).toBe('author.tags.0');
+  });
+
+  it('should return an empty string for issues about the whole value', () => {
+    expect(formatIssuePath(undefined)).toBe('');
+    expect(formatIssuePath([])).toBe('');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Standard Schema Validation
+ *
+ * Validates mapped objects with any validator implementing the Standard Schema
+ * interface (Zod 3.24+, Valibot 1.0+, ArkType 2.0+, ...). The interface is
+ * declared here so no validation library is a dependency.
+ *
+ * @see {@link https://standardschema.dev} for the specification
+ */
+
+/** A validator implementing the Standard Schema interface (v1) */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  /** The properties of a Standard Schema */
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  /** The result of a validation */
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  /** A validation problem, with the path to the offending value */
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+
+  /** The input type of a schema */
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<Schema['~standard']['types']>['input'];
+
+  /** The output type of a schema */
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<Schema['~standard']['types']>['output'];
+}
+
+/**
+ * Converts an issue path to a dotted string (e.g., 'author.tags.0')
+ *
+ * @param path - The issue path
+ * @returns The dotted path, or an empty string for issues about the whole value
+ */
+export function formatIssuePath(path: StandardSchemaV1.Issue['path']): string {
+  return (path ?? []).map((segment) => String(typeof segment === 'object' ? segment.key : segment)).join('.');
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { search, SearchBuilder } from './search-builder.js';
+import { buildSearchQuery, raw } from './mapper.js';
+
+describe('search', () => {
+  describe('conditions', () => {
+    it('should build label presence and absence checks', () => {
+      expect(search().label('blog').build()).toBe('#blog');
+      expect(search().label('blog').notLabel('draft').build()).toBe('#blog AND #!draft');
+    });
+
+    it('should apply comparisons to the preceding label', () => {
+      expect(search().label('blog').label('status').eq('published').build()).toBe("#blog AND #status = 'published'");
+      expect(search().label('wordCount').gte(1000).build()).toBe('#wordCount >= 1000');
+    });
+
+    it('should support every comparison method', () => {
+      const cases: [(q: SearchBuilder) => SearchBuilder, string][] = [
+        [(q) => q.eq('x'), '='],
+        [(q) => q.ne('x'), '!='],
+        [(q) => q.lt('x'), '<'],
+        [(q) => q.lte('x'), '<='],
+        [(q) => q.gt('x'), '>'],
+        [(q) => q.gte('x'), '>='],
+        [(q) => q.startsWith('x'), '=*'],
+        [(q) => q.endsWith('x'), '*='],
+        [(q) => q.contains('x'), '*=*'],
+      ];
+
+      for (const [apply, operator] of cases) {
+        expect(apply(search().label('title')).build()).toBe(`#title ${operator} 'x'`);
+      }
+    });
+
+    it('should build relations and note properties', () => {
+      expect(search().relation('author').build()).toBe('~author');
+      expect(search().relation('author').contains('John').build()).toBe("~author *=* 'John'");
+      expect(search().relation('author.title').eq('John Doe').build()).toBe("~author.title = 'John Doe'");
+      expect(search().property('type').eq('text').property('note.title').startsWith('Blog').build()).toBe(
+        "note.type = 'text' AND note.title =* 'Blog'",
+      );
+    });
+
+    it('should allow the same label more than once', () => {
+      expect(search().label('status').ne('draft').label('status').ne('archived').build()).toBe(
+        "#status != 'draft' AND #status != 'archived'",
+      );
+    });
+
+    it('should escape values like buildSearchQuery', () => {
+      expect(search().label('author').eq("O'Brien").build()).toBe(`#author = "O'Brien"`);
+      expect(search().label('dueDate').lte(raw('TODAY+7')).build()).toBe('#dueDate <= TODAY+7');
+    });
+
+    it('should mix in object syntax with where()', () => {
+      expect(search().label('blog').where({ 'note.type': 'text' }).build()).toBe(
+        "#blog AND note.type = 'text'",
+      );
+    });
+
+    it('should return an empty query without conditions', () => {
+      expect(search().build()).toBe('');
+    });
+  });
+
+  describe('logical groups', () => {
+    it('should combine everything so far with or()', () => {
+      expect(search().label('blog').label('status').eq('published').or((q) => q.label('featured')).build()).toBe(
+        "(#blog AND #status = 'published') OR #featured",
+      );
+    });
+
+    it('should join conditions after or() with the whole expression', () => {
+      expect(search().label('blog').or((q) => q.label('news')).notLabel('draft').build()).toBe(
+        '(#blog OR #news) AND #!draft',
+      );
+    });
+
+    it('should flatten chained or() calls', () => {
+      expect(search().label('a').or((q) => q.label('b')).or((q) => q.label('c')).build()).toBe('#a OR #b OR #c');
+    });
+
+    it('should add AND groups and negations', () => {
+      expect(
+        search()
+          .label('blog')
+          .and((q) => q.label('category').eq('tech').or((o) => o.label('category').eq('programming')))
+          .not((q) => q.label('draft'))
+          .build(),
+      ).toBe("#blog AND (#category = 'tech' OR #category = 'programming') AND not(#draft)");
+    });
+
+    it('should accept builders as groups', () => {
+      const featured = search().label('featured');
+      expect(search().label('blog').or(featured).build()).toBe('#blog OR #featured');
+    });
+
+    it('should ignore empty groups', () => {
+      expect(search().label('blog').or((q) => q).not((q) => q).build()).toBe('#blog');
+      expect(search().or((q) => q.label('a')).build()).toBe('#a');
+    });
+
+    it('should compile to the same string as the equivalent helpers', () => {
+      const builder = search().label('blog').property('type').eq('text').or((q) => q.label('news'));
+      expect(buildSearchQuery(builder.toHelpers())).toBe(builder.build());
+      expect(String(builder)).toBe(builder.build());
+    });
+  });
+
+  describe('settings', () => {
+    it('should carry ordering, limit and fast search', () => {
+      const builder = search().label('blog').orderBy('dateModified', 'desc').limit(10).fastSearch();
+      expect(builder.options()).toEqual({ orderBy: 'dateModified', orderDirection: 'desc', limit: 10, fastSearch: true });
+      expect(builder.build()).toBe('#blog');
+    });
+
+    it('should clear the direction when reordering without one', () => {
+      expect(search().orderBy('title', 'desc').orderBy('dateCreated').options()).toEqual({ orderBy: 'dateCreated' });
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject comparisons without a subject', () => {
+      expect(() => search().eq('x')).toThrow("Comparison '=' must follow label(), relation() or property()");
+      expect(() => search().label('a').eq('x').eq('y')).toThrow('must follow');
+      expect(() => search().notLabel('a').eq('x')).toThrow('must follow');
+    });
+
+    it('should reject properties without a comparison', () => {
+      expect(() => search().property('type').build()).toThrow("'note.type' requires a comparison");
+    });
+
+    it('should reject invalid names when building', () => {
+      expect(() => search().label('a OR #b').build()).toThrow("Invalid label name 'a OR #b'");
+    });
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Fluent Search Builder
+ *
+ * A chainable alternative to the object syntax of TriliumSearchHelpers.
+ * Compiles to the same query string as buildSearchQuery and carries
+ * ordering, limit and fast search settings for searchAndMap.
+ */
+
+import { buildSearchQuery, RawSearchFragment, type ComparisonOperator, type ConditionValue, type SearchValue, type TriliumSearchHelpers } from './mapper.js';
+
+/** A value accepted by the comparison methods */
+export type SearchBuilderValue = ConditionValue['value'];
+
+/** Ordering, limit and fast search settings carried by a SearchBuilder */
+export interface SearchBuilderOptions {
+  /** Order by field (e.g., 'dateModified', 'title') */
+  orderBy?: string;
+  /** Order direction */
+  orderDirection?: 'asc' | 'desc';
+  /** Limit number of results */
+  limit?: number;
+  /** Fast search mode (less accurate but faster) */
+  fastSearch?: boolean;
+}
+
+/** A nested group: a callback receiving a fresh builder, or another builder */
+export type SearchBuilderGroup = SearchBuilder | ((q: SearchBuilder) => SearchBuilder);
+
+/** An entry in the builder's AND list */
+type BuilderEntry =
+  /** A single condition; `value` is undefined until a property is compared */
+  | { type: 'condition'; key: string; value: SearchValue | undefined; open: boolean }
+  /** Conditions in object syntax, from where() or a group */
+  | { type: 'helpers'; helpers: TriliumSearchHelpers };
+
+/**
+ * Chainable search query builder. Create with {@link search}.
+ *
+ * Conditions are joined with AND. `label()`, `relation()` and `property()` set the
+ * subject for the next comparison (`eq()`, `gt()`, `contains()`, ...); labels and
+ * relations without a comparison are presence checks. Builders are mutable:
+ * every method modifies and returns the same instance.
+ *
+ * @example
+ * ```ts
+ * const query = search()
+ *   .label('blog')
+ *   .label('status').eq('published')
+ *   .or((q) => q.label('featured'))
+ *   .orderBy('dateModified', 'desc')
+ *   .limit(10);
+ *
+ * query.build();
+ * // => "(#blog AND #status = 'published') OR #featured"
+ *
+ * await client.searchAndMap({ query, mapping });
+ * ```
+ */
+export class SearchBuilder {
+  private entries: BuilderEntry[] = [];
+  private readonly settings: SearchBuilderOptions = {};
+
+  /**
+   * Adds a label condition: a presence check, or the subject of the next comparison
+   * @param name - Label name without `#` (e.g., 'status', 'template.title')
+   */
+  label(name: string): this {
+    return this.addSubject(`#${name}`, name.includes('.') ? undefined : true);
+  }
+
+  /**
+   * Adds a label absence check (`#!name`)
+   * @param name - Label name without `#`
+   */
+  notLabel(name: string): this {
+    this.entries.push({ type: 'condition', key: `#${name}`, value: false, open: false });
+    return this;
+  }
+
+  /**
+   * Adds a relation condition: a presence check, or the subject of the next comparison
+   * @param name - Relation name without `~` (e.g., 'author', 'author.title')
+   */
+  relation(name: string): this {
+    return this.addSubject(`~${name}`, name.includes('.') ? undefined : true);
+  }
+
+  /**
+   * Sets a note property as the subject of the next comparison
+   * @param name - Property name, with or without the `note.` prefix (e.g., 'type', 'parents.title')
+   */
+  property(name: string): this {
+    return this.addSubject(name.startsWith('note.') ? name : `note.${name}`, undefined);
+  }
+
+  /** Compares the current subject with `=` */
+  eq(value: SearchBuilderValue): this {
+    return this.compare('=', value);
+  }
+
+  /** Compares the current subject with `!=` */
+  ne(value: SearchBuilderValue): this {
+    return this.compare('!=', value);
+  }
+
+  /** Compares the current subject with `<` */
+  lt(value: SearchBuilderValue): this {
+    return this.compare('<', value);
+  }
+
+  /** Compares the current subject with `<=` */
+  lte(value: SearchBuilderValue): this {
+    return this.compare('<=', value);
+  }
+
+  /** Compares the current subject with `>` */
+  gt(value: SearchBuilderValue): this {
+    return this.compare('>', value);
+  }
+
+  /** Compares the current subject with `>=` */
+  gte(value: SearchBuilderValue): this {
+    return this.compare('>=', value);
+  }
+
+  /** Matches values starting with the given string (`=*`) */
+  startsWith(value: SearchBuilderValue): this {
+    return this.compare('=*', value);
+  }
+
+  /** Matches values ending with the given string (`*=`) */
+  endsWith(value: SearchBuilderValue): this {
+    return this.compare('*=', value);
+  }
+
+  /** Matches values containing the given string (`*=*`) */
+  contains(value: SearchBuilderValue): this {
+    return this.compare('*=*', value);
+  }
+
+  /**
+   * Compares the current subject using any comparison operator
+   *
+   * @param operator - The comparison operator
+   * @param value - The value to compare with
+   * @throws Error if no label, relation or property precedes the comparison
+   */
+  compare(operator: ComparisonOperator, value: SearchBuilderValue): this {
+    const last = this.entries.at(-1);
+    if (last?.type !== 'condition' || !last.open) {
+      throw new Error(`Comparison '${operator}' must follow label(), relation() or property()`);
+    }
+    last.value = { value, operator };
+    last.open = false;
+    return this;
+  }
+
+  /**
+   * Adds conditions in object syntax (or a raw() fragment), joined with AND
+   * @param helpers - The conditions to add
+   */
+  where(helpers: TriliumSearchHelpers): this {
+    this.entries.push({ type: 'helpers', helpers });
+    return this;
+  }
+
+  /**
+   * Adds a parenthesized group of conditions, joined with AND
+   * @param group - Callback building the group, or another builder
+   */
+  and(group: SearchBuilderGroup): this {
+    const helpers = resolveGroup(group);
+    if (helpers) this.entries.push({ type: 'helpers', helpers });
+    return this;
+  }
+
+  /**
+   * Combines everything added so far with a group using OR.
+   * Conditions added afterwards are joined with the whole OR expression using AND.
+   *
+   * @param group - Callback building the alternative, or another builder
+   *
+   * @example
+   * ```ts
+   * search().label('blog').or((q) => q.label('news')).notLabel('draft').build()
+   * // => '(#blog OR #news) AND #!draft'
+   * ```
+   */
+  or(group: SearchBuilderGroup): this {
+    const right = resolveGroup(group);
+    const left = this.toHelpers();
+    if (!right) return this;
+    if (isEmpty(left)) {
+      this.entries = [{ type: 'helpers', helpers: right }];
+      return this;
+    }
+
+    const alternatives = 'OR' in left && Array.isArray(left.OR) && Object.keys(left).length === 1 ? left.OR : [left];
+    this.entries = [{ type: 'helpers', helpers: { OR: [...alternatives, right] } }];
+    return this;
+  }
+
+  /**
+   * Adds a negated group of conditions (`not(...)`)
+   * @param group - Callback building the group, or another builder
+   */
+  not(group: SearchBuilderGroup): this {
+    const helpers = resolveGroup(group);
+    if (helpers) this.entries.push({ type: 'helpers', helpers: { NOT: helpers } });
+    return this;
+  }
+
+  /**
+   * Sets the result ordering
+   * @param field - Field to order by (e.g., 'dateModified', 'title')
+   * @param direction - Optional: order direction
+   */
+  orderBy(field: string, direction?: 'asc' | 'desc'): this {
+    this.settings.orderBy = field;
+    if (direction) {
+      this.settings.orderDirection = direction;
+    } else {
+      delete this.settings.orderDirection;
+    }
+    return this;
+  }
+
+  /**
+   * Limits the number of results
+   * @param count - Maximum number of results
+   */
+  limit(count: number): this {
+    this.settings.limit = count;
+    return this;
+  }
+
+  /**
+   * Enables fast search mode (less accurate but faster)
+   * @param enabled - Optional: pass false to disable (default: true)
+   */
+  fastSearch(enabled = true): this {
+    this.settings.fastSearch = enabled;
+    return this;
+  }
+
+  /**
+   * Returns the ordering, limit and fast search settings
+   * @returns A copy of the settings
+   */
+  options(): SearchBuilderOptions {
+    return { ...this.settings };
+  }
+
+  /**
+   * Returns the conditions in object syntax
+   * @returns The equivalent TriliumSearchHelpers
+   * @throws Error if a property() has no comparison
+   */
+  toHelpers(): TriliumSearchHelpers {
+    const helpers = this.entries.map((entry): TriliumSearchHelpers => {
+      if (entry.type === 'helpers') return entry.helpers;
+      if (entry.value === undefined) {
+        throw new Error(`'${entry.key}' requires a comparison such as eq() or contains()`);
+      }
+      return { [entry.key]: entry.value };
+    });
+
+    if (helpers.length === 0) return {};
+    return helpers.length === 1 ? helpers[0]! : { AND: helpers };
+  }
+
+  /**
+   * Compiles the conditions to a search query string (same as buildSearchQuery)
+   * @returns The search query, without ordering or limit
+   */
+  build(): string {
+    return buildSearchQuery(this.toHelpers());
+  }
+
+  /** Same as {@link SearchBuilder.build} */
+  toString(): string {
+    return this.build();
+  }
+
+  /**
+   * Adds a condition that the next comparison applies to
+   * @private
+   */
+  private addSubject(key: string, value: true | undefined): this {
+    this.entries.push({ type: 'condition', key, value, open: true });
+    return this;
+  }
+}
+
+/**
+ * Resolves a group argument to helpers, or undefined if it has no conditions
+ * @private
+ */
+function resolveGroup(group: SearchBuilderGroup): TriliumSearchHelpers | undefined {
+  const builder = group instanceof SearchBuilder ? group : group(new SearchBuilder());
+  const helpers = builder.toHelpers();
+  return isEmpty(helpers) ? undefined : helpers;
+}
+
+/**
+ * Checks whether helpers contain no conditions
+ * @private
+ */
+function isEmpty(helpers: TriliumSearchHelpers): boolean {
+  return !(helpers instanceof RawSearchFragment) && Object.keys(helpers).length === 0;
+}
+
+/**
+ * Starts a fluent search query
+ *
+ * @returns A new SearchBuilder
+ *
+ * @example
+ * ```ts
+ * const { data } = await client.searchAndMap({
+ *   query: search().label('blog').property('type').eq('text').orderBy('dateModified', 'desc').limit(10),
+ *   mapping,
+ * });
+ * ```
+ */
+export function search(): SearchBuilder {
+  return new SearchBuilder();
+}
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { parseSearchQuery, TriliumSearchParseError } from './search-parser.js';
+import { buildSearchQuery, raw } from './mapper.js';
+
+/** Parses a query and returns the thrown TriliumSearchParseError */
+function parseError(query: string): TriliumSearchParseError {
+  try {
+    parseSearchQuery(query);
+  } catch (err) {
+    if (err instanceof TriliumSearchParseError) return err;
+    throw err;
+  }
+  throw new Error(`Expected '${query}' to fail`);
+}
+
+describe('parseSearchQuery', () => {
+  describe('conditions', () => {
+    it('should parse label presence and absence', () => {
+      expect(parseSearchQuery('#blog')).toEqual({ '#blog': true });
+      expect(parseSearchQuery('#!draft')).toEqual({ '#draft': false });
+    });
+
+    it('should parse label values with the default operator as plain values', () => {
+      expect(parseSearchQuery("#status = 'published'")).toEqual({ '#status': 'published' });
+      expect(parseSearchQuery('#wordCount >= 1000')).toEqual({ '#wordCount': { value: 1000, operator: '>=' } });
+    });
+
+    it('should parse every comparison operator', () => {
+      for (const operator of ['=', '!=', '<', '<=', '>', '>=', '*=', '=*', '*=*'] as const) {
+        expect(parseSearchQuery(`#title ${operator} 'x'`)).toEqual(
+          { '#title': operator === '=' ? 'x' : { value: 'x', operator } },
+        );
+      }
+    });
+
+    it('should parse operators without surrounding whitespace', () => {
+      expect(parseSearchQuery("#status!='draft'")).toEqual({ '#status': { value: 'draft', operator: '!=' } });
+    });
+
+    it('should parse relations', () => {
+      expect(parseSearchQuery('~author')).toEqual({ '~author': true });
+      expect(parseSearchQuery("~author *=* 'John'")).toEqual({ '~author': 'John' });
+      expect(parseSearchQuery("~author = 'John'")).toEqual({ '~author': { value: 'John', operator: '=' } });
+      expect(parseSearchQuery("~author.title = 'John Doe'")).toEqual({ '~author.title': 'John Doe' });
+    });
+
+    it('should parse note properties', () => {
+      expect(parseSearchQuery("note.type = 'text'")).toEqual({ 'note.type': 'text' });
+      expect(parseSearchQuery("note.parents.title *= 'Blog'")).toEqual({
+        'note.parents.title': { value: 'Blog', operator: '*=' },
+      });
+    });
+
+    it('should parse quoted strings with escapes', () => {
+      expect(parseSearchQuery(`#author = "O'Brien"`)).toEqual({ '#author': "O'Brien" });
+      expect(parseSearchQuery("#path = 'C:\\\\temp\\''")).toEqual({ '#path': "C:\\temp'" });
+    });
+
+    it('should parse unquoted values', () => {
+      expect(parseSearchQuery('#status = published')).toEqual({ '#status': 'published' });
+      expect(parseSearchQuery('#count = 007')).toEqual({ '#count': '007' });
+      expect(parseSearchQuery('#dueDate <= TODAY+7')).toEqual({ '#dueDate': { value: raw('TODAY+7'), operator: '<=' } });
+    });
+  });
+
+  describe('logical operators', () => {
+    it('should merge AND-ed conditions into one object', () => {
+      expect(parseSearchQuery("#blog AND #!draft AND note.type = 'text'")).toEqual({
+        '#blog': true,
+        '#draft': false,
+        'note.type': 'text',
+      });
+    });
+
+    it('should treat adjacent conditions as AND', () => {
+      expect(parseSearchQuery('#blog #published')).toEqual({ '#blog': true, '#published': true });
+    });
+
+    it('should use an AND array when a key repeats', () => {
+      expect(parseSearchQuery("#status != 'a' AND #status != 'b'")).toEqual({
+        AND: [
+          { '#status': { value: 'a', operator: '!=' } },
+          { '#status': { value: 'b', operator: '!=' } },
+        ],
+      });
+    });
+
+    it('should parse parentheses and not()', () => {
+      expect(parseSearchQuery("#blog AND (#status = 'a' OR #status = 'b') AND not(#archived)")).toEqual({
+        AND: [
+          { '#blog': true },
+          { OR: [{ '#status': 'a' }, { '#status': 'b' }] },
+          { NOT: { '#archived': true } },
+        ],
+      });
+    });
+
+    it('should accept lowercase keywords', () => {
+      expect(parseSearchQuery('#a or not (#b and #c)')).toEqual({
+        OR: [{ '#a': true }, { NOT: { '#b': true, '#c': true } }],
+      });
+    });
+
+    it('should flatten nested groups of the same kind', () => {
+      expect(parseSearchQuery('#a OR (#b OR (#c))')).toEqual({ OR: [{ '#a': true }, { '#b': true }, { '#c': true }] });
+    });
+
+    it('should return an empty object for an empty query', () => {
+      expect(parseSearchQuery('   ')).toEqual({});
+    });
+  });
+
+  describe('round-tripping', () => {
+    const queries = [
+      '#blog',
+      '#!draft',
+      "#status = 'published'",
+      '#wordCount >= 1000',
+      "~author *=* 'John'",
+      "~author = 'John'",
+      "~author.title = 'John Doe'",
+      '~author *=* 5',
+      '~template',
+      "note.type = 'text' AND note.title *= 'Blog'",
+      `#author = "O'Brien"`,
+      '#dueDate <= TODAY+7',
+      "#blog AND (#category = 'tech' OR #category = 'programming') AND not(#draft)",
+      '(#a AND #b) OR #c',
+      "#status != 'a' AND #status != 'b'",
+    ];
+
+    it.each(queries)('should rebuild %s unchanged', (query) => {
+      expect(buildSearchQuery(parseSearchQuery(query))).toBe(query);
+    });
+
+    it('should be stable for non-canonical input', () => {
+      const once = buildSearchQuery(parseSearchQuery('(#a and ((#b))) or #c = x'));
+      expect(once).toBe("(#a AND #b) OR #c = 'x'");
+      expect(buildSearchQuery(parseSearchQuery(once))).toBe(once);
+    });
+  });
+
+  describe('errors', () => {
+    it('should report unterminated strings', () => {
+      const err = parseError("#status = 'draft");
+      expect(err.message).toBe('Unterminated string at position 10');
+      expect(err.position).toBe(10);
+      expect(err.end).toBe(16);
+      expect(err.query).toBe("#status = 'draft");
+    });
+
+    it('should report missing values and operators', () => {
+      expect(parseError('#status =').message).toBe('Expected a value at position 9');
+      expect(parseError('note.type').message).toBe('Expected comparison operator at position 9');
+      expect(parseError('#author.title AND #b').position).toBe(14);
+    });
+
+    it('should report unbalanced parentheses', () => {
+      expect(parseError('(#a OR #b').message).toBe("Missing ')' for '(' at position 0 at position 9");
+      expect(parseError('#a)').position).toBe(2);
+    });
+
+    it('should report unsupported operators', () => {
+      const err = parseError("#title %= 'a.*'");
+      expect(err.message).toBe("Unsupported operator '%=' at position 7");
+      expect(err.end).toBe(9);
+    });
+
+    it('should report full-text search terms', () => {
+      expect(parseError('towers #book').message).toBe(
+        "Unexpected 'towers'; full-text search terms are not supported at position 0",
+      );
+    });
+
+    it('should report missing names', () => {
+      expect(parseError('# = 1').message).toBe('Expected label name at position 1');
+      expect(parseError('#a AND ~').message).toBe('Expected relation name at position 8');
+    });
+
+    it('should report AND and OR mixed without parentheses at the second operator', () => {
+      const err = parseError('#a AND #b OR #c');
+      expect(err.message).toBe('AND and OR cannot be mixed without parentheses at position 10');
+      expect(err.end).toBe(12);
+      expect(parseError('#a OR #b AND #c').position).toBe(9);
+      expect(parseError('#a OR #b #c').position).toBe(9);
+      expect(parseSearchQuery('(#a AND #b) OR #c')).toEqual({ OR: [{ '#a': true, '#b': true }, { '#c': true }] });
+    });
+
+    it('should report dangling keywords', () => {
+      expect(parseError('#a AND').message).toBe('Unexpected end of query at position 6');
+      expect(parseError('#a OR OR #b').message).toBe("Unexpected 'OR' at position 6");
+    });
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Trilium Search Query Parser
+ *
+ * Parses Trilium search strings back into TriliumSearchHelpers objects, so
+ * saved queries can be edited structurally and rebuilt with buildSearchQuery.
+ */
+
+import { raw, RawSearchFragment, type ComparisonOperator, type SearchValue, type TriliumSearchHelpers } from './mapper.js';
+
+/**
+ * Thrown when a search string cannot be parsed
+ *
+ * @example
+ * ```ts
+ * try {
+ *   parseSearchQuery("#status = 'draft");
+ * } catch (err) {
+ *   if (err instanceof TriliumSearchParseError) {
+ *     highlight(err.position, err.end);
+ *   }
+ * }
+ * ```
+ */
+export class TriliumSearchParseError extends Error {
+  /** The query that failed to parse */
+  readonly query: string;
+  /** Offset of the first character of the offending input */
+  readonly position: number;
+  /** Offset just past the offending input */
+  readonly end: number;
+
+  constructor(message: string, query: string, position: number, end: number = position + 1) {
+    super(`${message} at position ${position}`);
+    this.name = 'TriliumSearchParseError';
+    this.query = query;
+    this.position = position;
+    this.end = Math.min(Math.max(end, position), query.length);
+  }
+}
+
+/** A lexical token with its location in the query */
+type Token =
+  | { type: 'lparen' | 'rparen'; start: number; end: number }
+  | { type: 'label'; name: string; negated: boolean; start: number; end: number }
+  | { type: 'relation'; name: string; start: number; end: number }
+  | { type: 'property'; path: string; start: number; end: number }
+  | { type: 'operator'; operator: ComparisonOperator; start: number; end: number }
+  | { type: 'string'; value: string; start: number; end: number }
+  | { type: 'word'; value: string; start: number; end: number };
+
+/** A single parsed condition */
+interface ConditionExpression {
+  type: 'condition';
+  key: string;
+  value: SearchValue;
+}
+
+/** A parsed expression before conversion to helper objects */
+type Expression =
+  | ConditionExpression
+  | { type: 'and' | 'or'; items: Expression[] }
+  | { type: 'not'; item: Expression };
+
+/** The right-hand side of a parsed comparison */
+type ComparisonValue = string | number | RawSearchFragment;
+
+/** Operators ordered so the longest match wins */
+const OPERATORS: ComparisonOperator[] = ['*=*', '*=', '=*', '!=', '<=', '>=', '=', '<', '>'];
+
+/** Attribute names, matching the names accepted by buildSearchQuery */
+const ATTRIBUTE_NAME = /[\p{L}\p{N}_:]+(?:\.[\p{L}\p{N}_:]+)*/uy;
+
+/** Note property paths after the `note.` prefix */
+const PROPERTY_PATH = /[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*/y;
+
+/** Characters that end an unquoted word */
+const WORD_END = /[\s()'"`=!<>*%]/;
+
+/** Trilium's smart date values (e.g., TODAY, MONTH-1), kept unquoted */
+const SMART_VALUE = /^(?:NOW|TODAY|WEEK|MONTH|YEAR)(?:[+-]\d+)?$/i;
+
+/**
+ * Splits a query into tokens
+ * @private
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readName = (pattern: RegExp, at: number): string => {
+    pattern.lastIndex = at;
+    return pattern.exec(query)?.[0] ?? '';
+  };
+
+  while (i < query.length) {
+    const char = query[i]!;
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start, end: ++i });
+    } else if (char === '#' || char === '~') {
+      const negated = char === '#' && query[i + 1] === '!';
+      const nameStart = i + (negated ? 2 : 1);
+      const name = readName(ATTRIBUTE_NAME, nameStart);
+      if (!name) {
+        throw new TriliumSearchParseError(`Expected ${char === '#' ? 'label' : 'relation'} name`, query, nameStart);
+      }
+      i = nameStart + name.length;
+      tokens.push(char === '#' ? { type: 'label', name, negated, start, end: i } : { type: 'relation', name, start, end: i });
+    } else if (char === "'" || char === '"' || char === '`') {
+      let value = '';
+      i++;
+      while (i < query.length && query[i] !== char) {
+        if (query[i] === '\\' && i + 1 < query.length) i++;
+        value += query[i];
+        i++;
+      }
+      if (i >= query.length) {
+        throw new TriliumSearchParseError('Unterminated string', query, start, query.length);
+      }
+      tokens.push({ type: 'string', value, start, end: ++i });
+    } else if (/[=!<>*%]/.test(char)) {
+      const operator = OPERATORS.find((op) => query.startsWith(op, i));
+      if (!operator) {
+        let end = i;
+        while (end < query.length && /[=!<>*%~]/.test(query[end]!)) end++;
+        throw new TriliumSearchParseError(`Unsupported operator '${query.slice(i, end)}'`, query, start, end);
+      }
+      i += operator.length;
+      tokens.push({ type: 'operator', operator, start, end: i });
+    } else if (query.startsWith('note.', i)) {
+      const path = readName(PROPERTY_PATH, i + 5);
+      if (!path) {
+        throw new TriliumSearchParseError('Expected note property name', query, i + 5);
+      }
+      i += 5 + path.length;
+      tokens.push({ type: 'property', path: `note.${path}`, start, end: i });
+    } else {
+      while (i < query.length && !WORD_END.test(query[i]!)) i++;
+      tokens.push({ type: 'word', value: query.slice(start, i), start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the token list
+ * @private
+ */
+class Parser {
+  private readonly query: string;
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(query: string) {
+    this.query = query;
+    this.tokens = tokenize(query);
+  }
+
+  /** Parses the whole query */
+  parse(): Expression | undefined {
+    if (this.tokens.length === 0) return undefined;
+
+    const expression = this.parseOr();
+    const rest = this.peek();
+    if (rest) throw this.unexpected(rest);
+    return expression;
+  }
+
+  /**
+   * or := and ('OR' and)*
+   * Trilium rejects AND and OR at the same level, so mixing them without parentheses is an error.
+   */
+  private parseOr(): Expression {
+    const first = this.parseAnd();
+    const items = [first.expression];
+    while (this.isKeyword(this.peek(), 'or')) {
+      const or = this.next();
+      if (first.joiner) throw this.mixedOperators(or);
+      const next = this.parseAnd();
+      if (next.joiner) throw this.mixedOperators(next.joiner);
+      items.push(next.expression);
+    }
+    return items.length === 1 ? items[0]! : { type: 'or', items };
+  }
+
+  /**
+   * and := unary (('AND')? unary)*
+   * Also returns the first AND keyword (or implicitly joined expression), for errors.
+   */
+  private parseAnd(): { expression: Expression; joiner: Token | undefined } {
+    const items = [this.parseUnary()];
+    let joiner: Token | undefined;
+    for (;;) {
+      const token = this.peek();
+      if (this.isKeyword(token, 'and')) {
+        joiner ??= token;
+        this.index++;
+        items.push(this.parseUnary());
+      } else if (token && token.type !== 'rparen' && !this.isKeyword(token, 'or')) {
+        // Adjacent expressions are implicitly joined with AND
+        joiner ??= token;
+        items.push(this.parseUnary());
+      } else {
+        break;
+      }
+    }
+    return { expression: items.length === 1 ? items[0]! : { type: 'and', items }, joiner };
+  }
+
+  /** unary := 'not' '(' or ')' | '(' or ')' | condition */
+  private parseUnary(): Expression {
+    const token = this.next();
+
+    const opening = this.peek();
+    if (this.isKeyword(token, 'not') && opening?.type === 'lparen') {
+      this.index++;
+      const item = this.parseOr();
+      this.expectClosingParen(opening);
+      return { type: 'not', item };
+    }
+
+    switch (token.type) {
+      case 'lparen': {
+        const expression = this.parseOr();
+        this.expectClosingParen(token);
+        return expression;
+      }
+      case 'label':
+        return this.parseLabel(token);
+      case 'relation':
+        return this.parseRelation(token);
+      case 'property': {
+        const { operator, value } = this.parseComparison(token);
+        return condition(token.path, operator === '=' ? value : { value, operator });
+      }
+      default:
+        throw this.unexpected(token);
+    }
+  }
+
+  /** Parses `#name`, `#!name` or `#name op value` */
+  private parseLabel(token: Extract<Token, { type: 'label' }>): Expression {
+    const key = `#${token.name}`;
+    const nested = token.name.includes('.');
+
+    if (token.negated) {
+      if (nested) throw this.error('Negated labels cannot have a property path', token);
+      return condition(key, false);
+    }
+    if (!nested && this.peek()?.type !== 'operator') {
+      return condition(key, true);
+    }
+
+    const { operator, value } = this.parseComparison(token);
+    return condition(key, operator === '=' ? value : { value, operator });
+  }
+
+  /** Parses `~name` or `~name op value` */
+  private parseRelation(token: Extract<Token, { type: 'relation' }>): Expression {
+    const key = `~${token.name}`;
+    const nested = token.name.includes('.');
+
+    if (!nested && this.peek()?.type !== 'operator') {
+      return condition(key, true);
+    }
+
+    const { operator, value } = this.parseComparison(token);
+    // buildSearchQuery defaults simple relations to *=* and nested paths to =,
+    // but only emits plain simple-relation values that are strings or raw fragments
+    const isPlain = nested
+      ? operator === '='
+      : operator === '*=*' && (typeof value === 'string' || value instanceof RawSearchFragment);
+    return condition(key, isPlain ? value : { value, operator });
+  }
+
+  /** Parses `op value` after a condition's left-hand side */
+  private parseComparison(subject: Token): { operator: ComparisonOperator; value: ComparisonValue } {
+    const operatorToken = this.peek();
+    if (operatorToken?.type !== 'operator') {
+      throw this.error('Expected comparison operator', operatorToken ?? { start: subject.end, end: subject.end });
+    }
+    this.index++;
+
+    const valueToken = this.peek();
+    if (valueToken?.type === 'string') {
+      this.index++;
+      return { operator: operatorToken.operator, value: valueToken.value };
+    }
+    if (valueToken?.type === 'word') {
+      this.index++;
+      return { operator: operatorToken.operator, value: parseWord(valueToken.value) };
+    }
+    throw this.error('Expected a value', valueToken ?? { start: operatorToken.end, end: operatorToken.end });
+  }
+
+  /** Consumes the `)` that closes the group opened at `opening` */
+  private expectClosingParen(opening: Token): void {
+    if (this.peek()?.type !== 'rparen') {
+      const token = this.peek();
+      throw token
+        ? this.unexpected(token)
+        : this.error(`Missing ')' for '(' at position ${opening.start}`, { start: this.query.length, end: this.query.length });
+    }
+    this.index++;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw this.error('Unexpected end of query', { start: this.query.length, end: this.query.length });
+    }
+    this.index++;
+    return token;
+  }
+
+  private isKeyword(token: Token | undefined, keyword: string): boolean {
+    return token?.type === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private unexpected(token: Token): TriliumSearchParseError {
+    const text = this.query.slice(token.start, token.end);
+    if (token.type === 'word' && !/^(and|or|not)$/i.test(token.value)) {
+      return this.error(`Unexpected '${text}'; full-text search terms are not supported`, token);
+    }
+    return this.error(`Unexpected '${text}'`, token);
+  }
+
+  private mixedOperators(token: Token): TriliumSearchParseError {
+    return this.error('AND and OR cannot be mixed without parentheses', token);
+  }
+
+  private error(message: string, location: { start: number; end: number }): TriliumSearchParseError {
+    return new TriliumSearchParseError(message, this.query, location.start, location.end);
+  }
+}
+
+/**
+ * Creates a condition expression
+ * @private
+ */
+function condition(key: string, value: SearchValue): ConditionExpression {
+  return { type: 'condition', key, value };
+}
+
+/**
+ * Interprets an unquoted value: canonical numbers, smart date values, or plain text
+ * @private
+ */
+function parseWord(word: string): ComparisonValue {
+  if (word !== '' && String(Number(word)) === word) return Number(word);
+  if (SMART_VALUE.test(word)) return raw(word);
+  return word;
+}
+
+/**
+ * Converts a parsed expression to helper objects
+ * @private
+ */
+function toHelpers(expression: Expression): TriliumSearchHelpers {
+  switch (expression.type) {
+    case 'condition':
+      return { [expression.key]: expression.value };
+    case 'not':
+      return { NOT: toHelpers(expression.item) };
+    case 'or':
+      return { OR: flatten(expression).map(toHelpers) };
+    case 'and': {
+      const items = flatten(expression);
+      const conditions = items.filter((item): item is ConditionExpression => item.type === 'condition');
+      // Merge plain conditions into one object when no key repeats
+      if (conditions.length === items.length && new Set(conditions.map((c) => c.key)).size === conditions.length) {
+        return Object.fromEntries(conditions.map((c) => [c.key, c.value]));
+      }
+      return { AND: items.map(toHelpers) };
+    }
+  }
+}
+
+/**
+ * Flattens directly nested expressions of the same type (a AND (b AND c))
+ * @private
+ */
+function flatten(expression: Extract<Expression, { type: 'and' | 'or' }>): Expression[] {
+  return expression.items.flatMap((item) => (item.type === expression.type ? flatten(item) : [item]));
+}
+
+/**
+ * Parses a Trilium search query string into a TriliumSearchHelpers object
+ *
+ * Supports labels (`#label`, `#!label`, `#label op value`), relations
+ * (`~relation`, `~relation.title op value`), note properties (`note.type = 'text'`),
+ * all comparison operators, `AND`/`OR`/`not(...)` and parentheses.
+ * Full-text search terms and `orderBy`/`limit` clauses are not supported.
+ *
+ * The result is normalized so that `buildSearchQuery(parseSearchQuery(q))` is stable:
+ * building and parsing again yields the same query.
+ *
+ * @param query - The search query string
+ * @returns The equivalent helper object (`{}` for an empty query)
+ * @throws TriliumSearchParseError with the position of the offending input
+ *
+ * @example
+ * parseSearchQuery("#blog AND (#status = 'published' OR #status = 'featured')")
+ * // => { AND: [{ '#blog': true }, { OR: [{ '#status': 'published' }, { '#status': 'featured' }] }] }
+ *
+ * @example
+ * parseSearchQuery("#blog #!draft note.type = 'text'")
+ * // => { '#blog': true, '#draft': false, 'note.type': 'text' }
+ */
+export function parseSearchQuery(query: string): TriliumSearchHelpers {
+  const expression = new Parser(query).parse();
+  return expression ? toHelpers(expression) : {};
+}
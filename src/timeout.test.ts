@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { anySignal, sleep, isAbortError } from './timeout.js';
+
+describe('anySignal', () => {
+  it('should abort when any signal aborts', () => {
+    const a = new AbortController();
+    const b = new AbortController();
+    const { signal: combined } = anySignal([a.signal, b.signal]);
+
+    expect(combined.aborted).toBe(false);
+    b.abort('stop');
+    expect(combined.aborted).toBe(true);
+    expect(combined.reason).toBe('stop');
+  });
+
+  it('should be aborted immediately if a signal is already aborted', () => {
+    const a = new AbortController();
+    a.abort('already');
+
+    const { signal: combined } = anySignal([new AbortController().signal, a.signal]);
+
+    expect(combined.aborted).toBe(true);
+    expect(combined.reason).toBe('already');
+  });
+
+  it('should stop following the signals once disposed without AbortSignal.any', () => {
+    const any = AbortSignal.any;
+    Reflect.deleteProperty(AbortSignal, 'any');
+    try {
+      const a = new AbortController();
+      const remove = vi.spyOn(a.signal, 'removeEventListener');
+      const combined = anySignal([a.signal]);
+
+      combined.dispose();
+      a.abort('late');
+      expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+      expect(combined.signal.aborted).toBe(false);
+    } finally {
+      AbortSignal.any = any;
+    }
+  });
+});
+
+describe('sleep', () => {
+  it('should resolve after the delay', async () => {
+    await expect(sleep(1)).resolves.toBeUndefined();
+  });
+
+  it('should reject with the abort reason', async () => {
+    const controller = new AbortController();
+    const pending = sleep(10_000, controller.signal);
+    controller.abort(new DOMException('stop', 'AbortError'));
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('should reject immediately for an aborted signal', async () => {
+    await expect(sleep(10_000, AbortSignal.abort())).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('isAbortError', () => {
+  it('should detect abort and timeout errors', () => {
+    expect(isAbortError(new DOMException('aborted', 'AbortError'))).toBe(true);
+    expect(isAbortError(new DOMException('timed out', 'TimeoutError'))).toBe(true);
+  });
+
+  it('should reject other errors', () => {
+    expect(isAbortError(new Error('ECONNRESET'))).toBe(false);
+    expect(isAbortError('AbortError')).toBe(false);
+  });
+});
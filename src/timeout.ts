@@ -0,0 +1,159 @@
+/**
+ * Timeout Middleware and Abort Utilities
+ *
+ * Bounds how long a request may take and combines the timeout with any
+ * AbortSignal supplied by the caller.
+ */
+
+import type { Middleware } from 'openapi-fetch';
+
+/**
+ * Cancellation options accepted by client helpers
+ */
+export interface RequestControlOptions {
+  /** Optional: abort the operation when this signal fires */
+  signal?: AbortSignal;
+  /** Optional: override the client's default timeout (in milliseconds) for this operation */
+  timeoutMs?: number;
+}
+
+/** A signal combined by anySignal() */
+export interface CombinedSignal {
+  /** Aborts when any of the combined signals aborts */
+  signal: AbortSignal;
+  /** Stops following the combined signals, so long-lived ones don't keep it alive */
+  dispose: () => void;
+}
+
+/**
+ * Creates a signal that aborts when any of the given signals aborts.
+ * Uses `AbortSignal.any()` where the runtime has it (Node 20+); Node 18 falls
+ * back to abort listeners, which dispose() removes.
+ *
+ * @param signals - The signals to combine
+ * @returns The combined signal, carrying the reason of the first signal to abort
+ */
+export function anySignal(signals: AbortSignal[]): CombinedSignal {
+  if (typeof AbortSignal.any === 'function') {
+    return { signal: AbortSignal.any(signals), dispose: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const listeners: [AbortSignal, () => void][] = [];
+  const dispose = () => {
+    for (const [signal, listener] of listeners) signal.removeEventListener('abort', listener);
+    listeners.length = 0;
+  };
+
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    const listener = () => {
+      dispose();
+      controller.abort(signal.reason);
+    };
+    listeners.push([signal, listener]);
+    signal.addEventListener('abort', listener, { once: true });
+  }
+  if (controller.signal.aborted) dispose();
+
+  return { signal: controller.signal, dispose };
+}
+
+/**
+ * Waits for the given duration, rejecting early with the signal's reason if it aborts
+ *
+ * @param ms - The duration in milliseconds
+ * @param signal - Optional signal to cancel the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Checks whether an error was caused by an aborted signal (caller abort or timeout)
+ *
+ * @param error - The error to check
+ * @returns True for AbortError and TimeoutError
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError');
+}
+
+/**
+ * Creates openapi-fetch middleware that aborts requests after a timeout
+ *
+ * The timeout covers the request until its response arrives, including retries.
+ * A per-call `timeoutMs` option overrides the default; `0` disables the timeout.
+ *
+ * @param defaultTimeoutMs - The default timeout in milliseconds (undefined for none)
+ * @returns Middleware to register with `client.use()`
+ *
+ * @example
+ * ```ts
+ * const { data } = await client.GET('/notes/{noteId}/export', {
+ *   params: { path: { noteId: 'root' } },
+ *   parseAs: 'blob',
+ *   timeoutMs: 120_000,
+ * });
+ * ```
+ */
+export function createTimeoutMiddleware(defaultTimeoutMs?: number): Middleware {
+  // Clears the timer and the signal listeners of each pending request, by request id
+  const cleanups = new Map<string, () => void>();
+
+  const cleanUp = (id: string) => {
+    cleanups.get(id)?.();
+    return undefined;
+  };
+
+  return {
+    onRequest({ request, id }) {
+      // openapi-fetch copies unknown per-call options (like timeoutMs) onto the Request
+      const timeoutMs = (request as Request & { timeoutMs?: number }).timeoutMs ?? defaultTimeoutMs;
+      if (!timeoutMs) return undefined;
+
+      const controller = new AbortController();
+      const combined = anySignal([request.signal, controller.signal]);
+      const cleanup = () => {
+        clearTimeout(timer);
+        combined.dispose();
+        cleanups.delete(id);
+      };
+      const timer = setTimeout(() => {
+        controller.abort(new DOMException(`request exceeded the ${timeoutMs}ms timeout`, 'TimeoutError'));
+        // Also covers requests whose onResponse/onError never ran (e.g. a later middleware threw)
+        cleanup();
+      }, timeoutMs);
+      // Don't keep the process alive just for the timeout
+      timer.unref?.();
+      cleanups.set(id, cleanup);
+
+      return new Request(request, { signal: combined.signal });
+    },
+    onResponse({ id }) {
+      return cleanUp(id);
+    },
+    onError({ id }) {
+      return cleanUp(id);
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { loadTree, walkTree, type ChildEntry, type TreeEntry } from './tree.js';
+import type { TriliumNote } from './client.js';
+
+function note(noteId: string): TriliumNote {
+  return { noteId, title: noteId };
+}
+
+// root > a > (a1, shared), root > b > shared > deep; 'shared' is cloned under a and b
+const tree: Record<string, string[]> = {
+  root: ['a', 'b'],
+  a: ['a1', 'shared'],
+  b: ['shared'],
+  shared: ['deep'],
+};
+
+const createLoader = (children = tree) => vi.fn(async (parent: TriliumNote): Promise<ChildEntry[]> =>
+  (children[parent.noteId ?? ''] ?? []).map((noteId, index) => ({
+    note: note(noteId),
+    branch: { branchId: `${parent.noteId}_${noteId}`, noteId, parentNoteId: parent.noteId!, notePosition: index * 10 },
+  })));
+
+async function collect(entries: AsyncIterable<TreeEntry>): Promise<TreeEntry[]> {
+  const collected: TreeEntry[] = [];
+  for await (const entry of entries) collected.push(entry);
+  return collected;
+}
+
+describe('walkTree', () => {
+  it('should walk depth-first and yield each clone once', async () => {
+    const entries = await collect(walkTree(note('root'), createLoader()));
+
+    expect(entries.map((entry) => entry.path.join('/'))).toEqual([
+      'root', 'root/a', 'root/a/a1', 'root/a/shared', 'root/a/shared/deep', 'root/b',
+    ]);
+    expect(entries[0]!.branch).toBeUndefined();
+    expect(entries[3]!.branch?.branchId).toBe('a_shared');
+  });
+
+  it('should walk breadth-first, placing clones at their shallowest position', async () => {
+    const entries = await collect(walkTree(note('root'), createLoader(), { order: 'bfs' }));
+
+    expect(entries.map((entry) => `${entry.note.noteId}@${entry.depth}`)).toEqual([
+      'root@0', 'a@1', 'b@1', 'a1@2', 'shared@2', 'deep@3',
+    ]);
+  });
+
+  it('should load the children of each note once, even when cloned', async () => {
+    // 'shared' is a child of root and, through an earlier sibling, of a
+    const load = createLoader({ root: ['a', 'shared'], a: ['shared'], shared: ['deep'] });
+    const entries = await collect(walkTree(note('root'), load));
+
+    expect(entries.map((entry) => entry.path.join('/'))).toEqual(['root', 'root/a', 'root/a/shared', 'root/a/shared/deep']);
+    expect(load.mock.calls.map(([parent]) => parent.noteId)).toEqual(['root', 'a', 'shared', 'deep']);
+  });
+
+  it('should stop at maxDepth without loading deeper children', async () => {
+    const load = createLoader();
+    const entries = await collect(walkTree(note('root'), load, { maxDepth: 1 }));
+
+    expect(entries.map((entry) => entry.note.noteId)).toEqual(['root', 'a', 'b']);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip filtered notes with their subtree', async () => {
+    const entries = await collect(walkTree(note('root'), createLoader(), { filter: async ({ note }) => note.noteId !== 'a' }));
+
+    expect(entries.map((entry) => entry.note.noteId)).toEqual(['root', 'b', 'shared', 'deep']);
+  });
+
+  it('should stop loading when the iteration stops', async () => {
+    const load = createLoader();
+    for await (const entry of walkTree(note('root'), load, { concurrency: 1 })) {
+      if (entry.note.noteId === 'root') break;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(load.mock.calls.map(([parent]) => parent.noteId)).toEqual(['root']);
+  });
+});
+
+describe('loadTree', () => {
+  it('should build the tree from the walk', async () => {
+    const root = await loadTree(note('root'), createLoader());
+
+    const titles = (node: typeof root): unknown => [node.note.noteId, node.children.map(titles)];
+    expect(titles(root)).toEqual(['root', [['a', [['a1', []], ['shared', [['deep', []]]]]], ['b', []]]]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Note Tree Traversal
+ *
+ * Walks the note tree below a note, depth-first or breadth-first. Notes cloned
+ * under several parents are visited once, at the first place the walk reaches
+ * them. Children are loaded through a loader, so the walk works with any source
+ * of notes (the client loads them from the ETAPI).
+ */
+
+import type { TriliumBranch, TriliumNote } from './client.js';
+import { RateLimiter } from './rate-limit.js';
+
+/** A note reached by a tree walk */
+export interface TreeEntry {
+  /** The note */
+  note: TriliumNote;
+  /** The branch placing the note below its parent; undefined for the root of the walk */
+  branch: TriliumBranch | undefined;
+  /** Levels below the root of the walk (0 for the root) */
+  depth: number;
+  /** Note IDs from the root of the walk to the note, both included */
+  path: string[];
+}
+
+/** A child note with the branch placing it below its parent */
+export interface ChildEntry {
+  note: TriliumNote;
+  branch: TriliumBranch;
+}
+
+/** Loads the children of a note in tree order (by branch notePosition) */
+export type ChildEntryLoader = (note: TriliumNote) => Promise<ChildEntry[]>;
+
+/** Options for walkTree() */
+export interface TreeWalkOptions {
+  /** Optional: 'dfs' (default) yields each note before its children, 'bfs' yields level by level */
+  order?: 'dfs' | 'bfs';
+  /** Optional: levels of descendants to visit (default: the whole subtree) */
+  maxDepth?: number;
+  /** Optional: notes for which this returns false are skipped, with their subtree */
+  filter?: (entry: TreeEntry) => boolean | Promise<boolean>;
+  /** Optional: maximum number of notes whose children are loaded at the same time (default: 4) */
+  concurrency?: number;
+}
+
+/** A note in a tree loaded by loadSubtree() */
+export interface TreeNode extends TreeEntry {
+  /** The child notes, in tree order */
+  children: TreeNode[];
+}
+
+/** Default for TreeWalkOptions.concurrency */
+const DEFAULT_WALK_CONCURRENCY = 4;
+
+/**
+ * Walks the subtree of a note, yielding the note and its descendants.
+ *
+ * Each note is yielded once, even if it is cloned under several parents.
+ * Children are loaded one level ahead of the notes yielded, at most
+ * `concurrency` notes at a time; stopping the iteration stops loading.
+ *
+ * @param root - The note to start from
+ * @param load - Loads the children of a note in tree order
+ * @param options - Optional: order, maximum depth, filter and concurrency
+ * @returns An async iterator over the notes, in walk order
+ *
+ * @example
+ * for await (const { note, depth } of walkTree(root, loadChildren, { maxDepth: 2 })) {
+ *   console.log(`${'  '.repeat(depth)}${note.title}`);
+ * }
+ */
+export async function* walkTree(
+  root: TriliumNote,
+  load: ChildEntryLoader,
+  options: TreeWalkOptions = {}
+): AsyncGenerator<TreeEntry, void, undefined> {
+  const maxDepth = options.maxDepth ?? Infinity;
+  const limiter = new RateLimiter({ maxConcurrent: options.concurrency ?? DEFAULT_WALK_CONCURRENCY });
+  const controller = new AbortController();
+  const visited = new Set<string>();
+  // Children requested for notes not yet visited, shared by their clones
+  const loads = new Map<string, Promise<ChildEntry[]>>();
+
+  const keep = async (entry: TreeEntry) => !options.filter || await options.filter(entry);
+
+  // Load the children of an entry that pass the filter; the result may never be awaited
+  const expand = (entry: TreeEntry): Promise<TreeEntry[]> => {
+    if (entry.depth >= maxDepth) return Promise.resolve([]);
+
+    const noteId = entry.note.noteId;
+    let loading = noteId ? loads.get(noteId) : undefined;
+    if (!loading) {
+      loading = limiter.schedule(() => load(entry.note), controller.signal);
+      if (noteId) loads.set(noteId, loading);
+    }
+
+    const children = loading.then(async (loaded) => {
+      const entries = loaded.map(({ note, branch }): TreeEntry => ({
+        note,
+        branch,
+        depth: entry.depth + 1,
+        path: [...entry.path, note.noteId ?? ''],
+      }));
+      const kept = await Promise.all(entries.map(keep));
+      return entries.filter((_, index) => kept[index]);
+    });
+    children.catch(() => undefined);
+    return children;
+  };
+
+  const rootEntry: TreeEntry = { note: root, branch: undefined, depth: 0, path: [root.noteId ?? ''] };
+  if (!await keep(rootEntry)) return;
+
+  try {
+    if (options.order === 'bfs') {
+      if (root.noteId) visited.add(root.noteId);
+      let level = [rootEntry];
+      while (level.length > 0) {
+        const expansions = level.map(expand);
+        yield* level;
+
+        level = [];
+        for (const children of expansions) {
+          for (const child of await children) {
+            if (child.note.noteId && visited.has(child.note.noteId)) continue;
+            if (child.note.noteId) visited.add(child.note.noteId);
+            level.push(child);
+          }
+        }
+        // Each note is expanded on one level only
+        loads.clear();
+      }
+    } else {
+      const walk = async function* (entry: TreeEntry, children: Promise<TreeEntry[]>): AsyncGenerator<TreeEntry, void, undefined> {
+        if (entry.note.noteId) {
+          visited.add(entry.note.noteId);
+          loads.delete(entry.note.noteId);
+        }
+        yield entry;
+
+        const unvisited = (await children).filter((child) => !child.note.noteId || !visited.has(child.note.noteId));
+        const expansions = unvisited.map(expand);
+        for (const [index, child] of unvisited.entries()) {
+          // A clone may have been reached through an earlier sibling's subtree
+          if (child.note.noteId && visited.has(child.note.noteId)) continue;
+          yield* walk(child, expansions[index]!);
+        }
+      };
+      yield* walk(rootEntry, expand(rootEntry));
+    }
+  } finally {
+    // Drop loads still queued when the iteration stops early
+    controller.abort();
+  }
+}
+
+/**
+ * Loads the subtree of a note into memory.
+ * Notes cloned under several parents appear once, at their shallowest position.
+ *
+ * @param root - The note to start from
+ * @param load - Loads the children of a note in tree order
+ * @param options - Optional: maximum depth, filter and concurrency
+ * @returns The root of the loaded tree
+ */
+export async function loadTree(
+  root: TriliumNote,
+  load: ChildEntryLoader,
+  options: Omit<TreeWalkOptions, 'order'> = {}
+): Promise<TreeNode> {
+  const nodes = new Map<string, TreeNode>();
+  let rootNode: TreeNode | undefined;
+
+  for await (const entry of walkTree(root, load, { ...options, order: 'bfs' })) {
+    const node: TreeNode = { ...entry, children: [] };
+    nodes.set(entry.note.noteId ?? '', node);
+
+    if (entry.depth === 0) {
+      rootNode = node;
+    } else {
+      nodes.get(entry.path[entry.path.length - 2]!)?.children.push(node);
+    }
+  }
+
+  // A root rejected by the filter still anchors the tree
+  return rootNode ?? { note: root, branch: undefined, depth: 0, path: [root.noteId ?? ''], children: [] };
+}